@@ -0,0 +1,11 @@
+import { ipcMain } from "electron";
+
+import type { KeyboardInteractivePrompter } from "../ssh/keyboard-interactive.js";
+
+export function registerAuthHandlers(keyboardInteractive: KeyboardInteractivePrompter): void {
+  ipcMain.handle(
+    "auth:respondKeyboardInteractive",
+    async (_event, requestId: string, responses: string[] | null) =>
+      keyboardInteractive.respond(requestId, responses)
+  );
+}
@@ -0,0 +1,43 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import { ipcMain } from "electron";
+
+import type { KnownHostsImportResult } from "../../shared/known-hosts.js";
+import type { HostKeyVerifier } from "../ssh/host-key-verifier.js";
+import { parseOpenSshKnownHosts } from "../ssh/known-hosts-file.js";
+import { KnownHostsStore } from "../storage/known-hosts-store.js";
+
+export function registerKnownHostsHandlers(
+  store: KnownHostsStore,
+  hostKeyVerifier: HostKeyVerifier
+): void {
+  ipcMain.handle("knownHosts:list", async () => store.list());
+  ipcMain.handle("knownHosts:remove", async (_event, id: string) => store.remove(id));
+  ipcMain.handle(
+    "knownHosts:importOpenSsh",
+    async (_event, sourcePath?: string): Promise<KnownHostsImportResult> => {
+      const resolvedPath = sourcePath?.trim() || join(homedir(), ".ssh", "known_hosts");
+      const content = await readFile(resolvedPath, "utf-8");
+      const parsed = parseOpenSshKnownHosts(content);
+      const result = await store.addMany(
+        parsed.entries.map((entry) => ({
+          ...entry,
+          source: "openssh" as const
+        }))
+      );
+      return {
+        sourcePath: resolvedPath,
+        imported: result.added,
+        duplicates: result.duplicates,
+        skipped: parsed.skipped
+      };
+    }
+  );
+  ipcMain.handle(
+    "knownHosts:respondPrompt",
+    async (_event, requestId: string, accepted: boolean) =>
+      hostKeyVerifier.respond(requestId, accepted)
+  );
+}
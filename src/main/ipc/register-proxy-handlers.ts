@@ -0,0 +1,33 @@
+import { ipcMain } from "electron";
+
+import type { GlobalProxySettings, GlobalProxySettingsInput } from "../../shared/proxy.js";
+import type { CredentialStore } from "../security/credential-store.js";
+import { GLOBAL_PROXY_SECRET_ID } from "../ssh/proxy.js";
+import { ProxySettingsStore } from "../storage/proxy-settings-store.js";
+
+export function registerProxyHandlers(
+  store: ProxySettingsStore,
+  credentialStore: CredentialStore
+): void {
+  ipcMain.handle("proxy:getGlobal", async (): Promise<GlobalProxySettings> => store.get());
+  ipcMain.handle(
+    "proxy:setGlobal",
+    async (_event, input: GlobalProxySettingsInput): Promise<GlobalProxySettings> => {
+      let hasPassword: boolean | undefined;
+      if (input.password !== undefined) {
+        const value = input.password.trim();
+        if (value.length > 0) {
+          await credentialStore.saveSessionSecret(GLOBAL_PROXY_SECRET_ID, value);
+        } else {
+          await credentialStore.deleteSessionSecret(GLOBAL_PROXY_SECRET_ID);
+        }
+        hasPassword = value.length > 0;
+      }
+      return store.update({
+        enabled: input.enabled,
+        proxy: input.proxy,
+        hasPassword
+      });
+    }
+  );
+}
@@ -1,24 +1,82 @@
 import { ipcMain } from "electron";
 
+import type { ExpectRule, ExpectRuleInput } from "../../shared/expect.js";
 import type {
   SessionCreateInput,
   SessionTestConnectionResult,
   SessionUpdateInput
 } from "../../shared/session.js";
+import type {
+  SshConfigExportPreview,
+  SshConfigExportResult,
+  SshConfigImportPreview,
+  SshConfigImportResult
+} from "../../shared/ssh-config.js";
+import type { SshCertificateInfo } from "../../shared/ssh-certificate.js";
 import type { CredentialStore } from "../security/credential-store.js";
-import { testSshConnection } from "../ssh/test-connection.js";
+import { toFallbackSecretId } from "../ssh/auth-methods.js";
+import type { FallbackSecretKind } from "../ssh/auth-methods.js";
+import { loadSessionCertificate } from "../ssh/certificate.js";
+import type { HostKeyVerifier } from "../ssh/host-key-verifier.js";
+import type { KeyboardInteractivePrompter } from "../ssh/keyboard-interactive.js";
+import {
+  mergeIntoOpenSshConfig,
+  renderOpenSshConfig,
+  writeOpenSshConfig
+} from "../ssh/openssh-config-export.js";
+import { defaultOpenSshConfigPath } from "../ssh/openssh-config-file.js";
+import { importSshConfigSessions, previewSshConfigImport } from "../ssh/openssh-config-import.js";
+import { toSessionProxySecretId } from "../ssh/proxy.js";
+import { testSshConnection, testTcpConnection } from "../ssh/test-connection.js";
+import type { ProxySettingsStore } from "../storage/proxy-settings-store.js";
 import { SessionStore } from "../storage/session-store.js";
+import { toExpectRuleSecretId } from "../terminal/expect-runner.js";
 
 export function registerSessionHandlers(
   store: SessionStore,
-  credentialStore: CredentialStore
+  credentialStore: CredentialStore,
+  hostKeyVerifier: HostKeyVerifier,
+  keyboardInteractive: KeyboardInteractivePrompter,
+  proxySettingsStore: ProxySettingsStore
 ): void {
   ipcMain.handle("sessions:list", async () => store.list());
   ipcMain.handle("sessions:create", async (_event, input: SessionCreateInput) => {
     const created = await store.create(input);
+    const secretsPatch: SessionUpdateInput = {};
     if (input.secret?.trim()) {
       await credentialStore.saveSessionSecret(created.id, input.secret.trim());
-      return store.update(created.id, { secret: input.secret });
+      secretsPatch.secret = input.secret;
+    }
+    if (input.proxyMode === "custom" && input.proxyPassword?.trim()) {
+      await credentialStore.saveSessionSecret(
+        toSessionProxySecretId(created.id),
+        input.proxyPassword.trim()
+      );
+      secretsPatch.proxyPassword = input.proxyPassword;
+    }
+    if (input.fallbackPassword?.trim()) {
+      await credentialStore.saveSessionSecret(
+        toFallbackSecretId(created.id, "password"),
+        input.fallbackPassword.trim()
+      );
+      secretsPatch.fallbackPassword = input.fallbackPassword;
+    }
+    if (input.fallbackPassphrase?.trim()) {
+      await credentialStore.saveSessionSecret(
+        toFallbackSecretId(created.id, "passphrase"),
+        input.fallbackPassphrase.trim()
+      );
+      secretsPatch.fallbackPassphrase = input.fallbackPassphrase;
+    }
+    await syncExpectRuleSecrets(
+      credentialStore,
+      created.id,
+      input.expectRules,
+      created.expectRules,
+      []
+    );
+    if (Object.keys(secretsPatch).length > 0) {
+      return store.update(created.id, secretsPatch);
     }
     return created;
   });
@@ -33,16 +91,151 @@ export function registerSessionHandlers(
           await credentialStore.deleteSessionSecret(id);
         }
       }
-      return store.update(id, patch);
+      if (patch.proxyPassword !== undefined) {
+        const value = patch.proxyPassword.trim();
+        if (value.length > 0) {
+          await credentialStore.saveSessionSecret(toSessionProxySecretId(id), value);
+        } else {
+          await credentialStore.deleteSessionSecret(toSessionProxySecretId(id));
+        }
+      }
+      await syncFallbackSecret(credentialStore, id, "password", patch.fallbackPassword);
+      await syncFallbackSecret(credentialStore, id, "passphrase", patch.fallbackPassphrase);
+      const previousRules = (await store.getById(id))?.expectRules ?? [];
+      const updated = await store.update(id, patch);
+      if (patch.expectRules !== undefined) {
+        await syncExpectRuleSecrets(
+          credentialStore,
+          id,
+          patch.expectRules,
+          updated.expectRules,
+          previousRules
+        );
+      }
+      return updated;
     }
   );
   ipcMain.handle("sessions:delete", async (_event, id: string) => {
+    const expectRules = (await store.getById(id))?.expectRules ?? [];
     await store.remove(id);
     await credentialStore.deleteSessionSecret(id);
+    await credentialStore.deleteSessionSecret(toSessionProxySecretId(id));
+    await credentialStore.deleteSessionSecret(toFallbackSecretId(id, "password"));
+    await credentialStore.deleteSessionSecret(toFallbackSecretId(id, "passphrase"));
+    for (const rule of expectRules) {
+      await credentialStore.deleteSessionSecret(toExpectRuleSecretId(id, rule.id));
+    }
   });
   ipcMain.handle(
     "sessions:testConnection",
-    async (_event, input: SessionCreateInput): Promise<SessionTestConnectionResult> =>
-      testSshConnection(input)
+    async (event, input: SessionCreateInput): Promise<SessionTestConnectionResult> => {
+      const context = {
+        hostKeyVerifier,
+        keyboardInteractive,
+        sessionStore: store,
+        credentialStore,
+        proxySettingsStore,
+        sender: event.sender
+      };
+      return input.protocol && input.protocol !== "ssh"
+        ? testTcpConnection(input, context)
+        : testSshConnection(input, context);
+    }
+  );
+  ipcMain.handle(
+    "sessions:inspectCertificate",
+    async (
+      _event,
+      privateKeyPath?: string,
+      certificatePath?: string
+    ): Promise<SshCertificateInfo | null> =>
+      (await loadSessionCertificate(privateKeyPath, certificatePath))?.info ?? null
+  );
+  ipcMain.handle(
+    "sessions:previewSshConfigImport",
+    async (_event, sourcePath?: string): Promise<SshConfigImportPreview> =>
+      previewSshConfigImport(sourcePath?.trim() || defaultOpenSshConfigPath(), store)
+  );
+  ipcMain.handle(
+    "sessions:importSshConfig",
+    async (_event, sourcePath: string, aliases: string[]): Promise<SshConfigImportResult> =>
+      importSshConfigSessions(sourcePath, aliases, store)
   );
+
+  const renderSessionsConfig = async (sessionIds: string[]) => {
+    const sessions = await store.list();
+    const selected = sessions.filter((session) => sessionIds.includes(session.id));
+    if (selected.length === 0) {
+      throw new Error("Select at least one session to export.");
+    }
+    return renderOpenSshConfig(selected, sessions);
+  };
+  ipcMain.handle(
+    "sessions:previewSshConfigExport",
+    async (_event, sessionIds: string[]): Promise<SshConfigExportPreview> =>
+      renderSessionsConfig(sessionIds)
+  );
+  ipcMain.handle(
+    "sessions:exportSshConfig",
+    async (_event, sessionIds: string[], targetPath: string): Promise<SshConfigExportResult> => {
+      const { content } = await renderSessionsConfig(sessionIds);
+      await writeOpenSshConfig(targetPath, content);
+      return { path: targetPath };
+    }
+  );
+  ipcMain.handle(
+    "sessions:mergeSshConfig",
+    async (_event, sessionIds: string[]): Promise<SshConfigExportResult> => {
+      const { content } = await renderSessionsConfig(sessionIds);
+      const targetPath = defaultOpenSshConfigPath();
+      const { replacedManagedSection } = await mergeIntoOpenSshConfig(targetPath, content);
+      return { path: targetPath, replacedManagedSection };
+    }
+  );
+}
+
+// Undefined keeps the stored secret, an empty value deletes it.
+async function syncFallbackSecret(
+  credentialStore: CredentialStore,
+  sessionId: string,
+  kind: FallbackSecretKind,
+  value: string | undefined
+): Promise<void> {
+  if (value === undefined) {
+    return;
+  }
+  if (value.trim()) {
+    await credentialStore.saveSessionSecret(toFallbackSecretId(sessionId, kind), value.trim());
+  } else {
+    await credentialStore.deleteSessionSecret(toFallbackSecretId(sessionId, kind));
+  }
+}
+
+// Saved rules line up with the input by index. Secrets of rules that were
+// removed or no longer answer with a secret are deleted.
+async function syncExpectRuleSecrets(
+  credentialStore: CredentialStore,
+  sessionId: string,
+  inputs: ExpectRuleInput[] | undefined,
+  saved: ExpectRule[] | undefined,
+  previous: ExpectRule[]
+): Promise<void> {
+  const rules = saved ?? [];
+  for (const [index, rule] of rules.entries()) {
+    const secret = inputs?.[index]?.secret;
+    if (!rule.sendSecret || secret === undefined) {
+      continue;
+    }
+    const secretId = toExpectRuleSecretId(sessionId, rule.id);
+    if (secret.trim()) {
+      await credentialStore.saveSessionSecret(secretId, secret.trim());
+    } else {
+      await credentialStore.deleteSessionSecret(secretId);
+    }
+  }
+  for (const rule of previous) {
+    if (!rules.some((current) => current.id === rule.id && current.sendSecret)) {
+      await credentialStore.deleteSessionSecret(toExpectRuleSecretId(sessionId, rule.id));
+    }
+  }
 }
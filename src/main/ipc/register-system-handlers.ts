@@ -59,6 +59,20 @@ export function registerSystemHandlers(): void {
     return result.filePath;
   });
 
+  ipcMain.handle("system:pickSshConfigExportTarget", async () => {
+    const result = await dialog.showSaveDialog({
+      title: "Export SSH Config",
+      buttonLabel: "Export",
+      defaultPath: "termdock_ssh_config"
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    return result.filePath;
+  });
+
   ipcMain.handle("system:expandUploadPaths", async (_event, inputPaths: string[]) => {
     if (!Array.isArray(inputPaths) || inputPaths.length === 0) {
       return [] as LocalUploadPathEntry[];
@@ -1,12 +1,22 @@
 import { ipcMain } from "electron";
 
+import type { TerminalConnectOptions } from "../../shared/terminal.js";
 import { TerminalService } from "../terminal/terminal-service.js";
 
 export function registerTerminalHandlers(terminalService: TerminalService): void {
   ipcMain.handle(
     "terminal:connect",
-    async (event, tabId: string, sessionId: string) =>
-      terminalService.connect(tabId, sessionId, event.sender)
+    async (event, tabId: string, sessionId: string, options?: TerminalConnectOptions) =>
+      terminalService.connect(tabId, sessionId, event.sender, options)
+  );
+  ipcMain.handle("terminal:attachTmuxWindow", async (event, tabId: string) =>
+    terminalService.attachTmuxWindow(tabId, event.sender)
+  );
+  ipcMain.handle("terminal:newTmuxWindow", async (_event, tabId: string) =>
+    terminalService.newTmuxWindow(tabId)
+  );
+  ipcMain.handle("terminal:openLocal", async (event, tabId: string) =>
+    terminalService.openLocal(tabId, event.sender)
   );
   ipcMain.handle("terminal:write", async (_event, tabId: string, data: string) =>
     terminalService.write(tabId, data)
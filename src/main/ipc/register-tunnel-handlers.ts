@@ -0,0 +1,19 @@
+import { ipcMain } from "electron";
+
+import type { TunnelStatus } from "../../shared/tunnel.js";
+import { TunnelService } from "../tunnel/tunnel-service.js";
+
+export function registerTunnelHandlers(tunnelService: TunnelService): void {
+  ipcMain.handle(
+    "tunnels:list",
+    async (_event, tabId: string): Promise<TunnelStatus[]> => tunnelService.list(tabId)
+  );
+  ipcMain.handle(
+    "tunnels:start",
+    async (_event, tabId: string, tunnelId: string): Promise<TunnelStatus> =>
+      tunnelService.start(tabId, tunnelId)
+  );
+  ipcMain.handle("tunnels:stop", async (_event, tabId: string, tunnelId: string) =>
+    tunnelService.stop(tabId, tunnelId)
+  );
+}
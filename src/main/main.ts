@@ -1,16 +1,26 @@
-import { app, BrowserWindow, Menu } from "electron";
+import { app, BrowserWindow, Menu, powerMonitor } from "electron";
 import type { BrowserWindowConstructorOptions, MenuItemConstructorOptions } from "electron";
 import { existsSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 
+import { registerAuthHandlers } from "./ipc/register-auth-handlers.js";
+import { registerKnownHostsHandlers } from "./ipc/register-known-hosts-handlers.js";
+import { registerProxyHandlers } from "./ipc/register-proxy-handlers.js";
 import { registerSftpHandlers } from "./ipc/register-sftp-handlers.js";
 import { registerSessionHandlers } from "./ipc/register-session-handlers.js";
 import { registerSystemHandlers } from "./ipc/register-system-handlers.js";
 import { registerTerminalHandlers } from "./ipc/register-terminal-handlers.js";
+import { registerTunnelHandlers } from "./ipc/register-tunnel-handlers.js";
 import { createCredentialStore } from "./security/credential-store.js";
+import { AskpassBroker } from "./ssh/askpass.js";
+import { HostKeyVerifier } from "./ssh/host-key-verifier.js";
+import { KeyboardInteractivePrompter } from "./ssh/keyboard-interactive.js";
+import { KnownHostsStore } from "./storage/known-hosts-store.js";
+import { ProxySettingsStore } from "./storage/proxy-settings-store.js";
 import { SessionStore } from "./storage/session-store.js";
 import { TerminalService } from "./terminal/terminal-service.js";
+import { TunnelService } from "./tunnel/tunnel-service.js";
 
 const isMac = process.platform === "darwin";
 const __filename = fileURLToPath(import.meta.url);
@@ -23,6 +33,7 @@ const shouldOpenDevtools =
   process.env.TERMDOCK_OPEN_DEVTOOLS === "1" ||
   process.env.TERMDOCK_OPEN_DEVTOOLS === "true";
 const OPEN_SETTINGS_CHANNEL = "app:openSettings";
+const SYSTEM_RESUMED_CHANNEL = "app:systemResumed";
 const runtimeIconCandidates = resolveRuntimeIconCandidates();
 const runtimeWindowIconPath = runtimeIconCandidates[0] ?? null;
 
@@ -148,12 +159,43 @@ async function bootstrap(): Promise<void> {
   const dbPath = join(app.getPath("userData"), "db", "sessions.json");
   const sessionStore = new SessionStore(dbPath);
   const credentialStore = await createCredentialStore();
+  const knownHostsStore = new KnownHostsStore(
+    join(app.getPath("userData"), "db", "known-hosts.json")
+  );
+  const hostKeyVerifier = new HostKeyVerifier(
+    knownHostsStore,
+    join(app.getPath("userData"), "ssh", "known_hosts")
+  );
+  const proxySettingsStore = new ProxySettingsStore(
+    join(app.getPath("userData"), "db", "proxy.json")
+  );
+  const keyboardInteractive = new KeyboardInteractivePrompter();
+  const askpass = new AskpassBroker(join(app.getPath("userData"), "ssh"));
 
-  const terminalService = new TerminalService(sessionStore, credentialStore);
-  registerSessionHandlers(sessionStore, credentialStore);
+  const terminalService = new TerminalService(
+    sessionStore,
+    credentialStore,
+    hostKeyVerifier,
+    proxySettingsStore,
+    keyboardInteractive,
+    askpass
+  );
+  const tunnelService = new TunnelService(sessionStore);
+  terminalService.addLifecycleListener(tunnelService);
+  registerSessionHandlers(
+    sessionStore,
+    credentialStore,
+    hostKeyVerifier,
+    keyboardInteractive,
+    proxySettingsStore
+  );
+  registerAuthHandlers(keyboardInteractive);
+  registerKnownHostsHandlers(knownHostsStore, hostKeyVerifier);
+  registerProxyHandlers(proxySettingsStore, credentialStore);
   registerSystemHandlers();
   registerTerminalHandlers(terminalService);
   registerSftpHandlers(terminalService);
+  registerTunnelHandlers(tunnelService);
 
   await app.whenReady();
   if (isMac) {
@@ -166,6 +208,17 @@ async function bootstrap(): Promise<void> {
       createWindow();
     }
   });
+  app.on("will-quit", () => {
+    askpass.close();
+  });
+  // Tabs waiting to reconnect retry at once instead of sitting out a backoff from before the sleep.
+  powerMonitor.on("resume", () => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.isDestroyed()) {
+        window.webContents.send(SYSTEM_RESUMED_CHANNEL);
+      }
+    }
+  });
 }
 
 app.on("window-all-closed", () => {
@@ -1,6 +1,13 @@
 import { contextBridge, ipcRenderer, webUtils } from "electron";
 import type { IpcRendererEvent } from "electron";
 
+import type {
+  HostKeyPrompt,
+  KnownHostEntry,
+  KnownHostsImportResult
+} from "../shared/known-hosts.js";
+import type { KeyboardInteractivePrompt } from "../shared/keyboard-interactive.js";
+import type { GlobalProxySettings, GlobalProxySettingsInput } from "../shared/proxy.js";
 import type {
   SessionCreateInput,
   SessionRecord,
@@ -12,7 +19,15 @@ import type {
   SftpEntryKind,
   SftpTransferEvent
 } from "../shared/sftp.js";
-import type { TerminalEvent } from "../shared/terminal.js";
+import type {
+  SshConfigExportPreview,
+  SshConfigExportResult,
+  SshConfigImportPreview,
+  SshConfigImportResult
+} from "../shared/ssh-config.js";
+import type { SshCertificateInfo } from "../shared/ssh-certificate.js";
+import type { TerminalConnectOptions, TerminalEvent } from "../shared/terminal.js";
+import type { TunnelStatus } from "../shared/tunnel.js";
 
 const api = {
   app: {
@@ -24,6 +39,15 @@ const api = {
       return () => {
         ipcRenderer.removeListener("app:openSettings", wrapped);
       };
+    },
+    onSystemResumed: (listener: () => void) => {
+      const wrapped = () => {
+        listener();
+      };
+      ipcRenderer.on("app:systemResumed", wrapped);
+      return () => {
+        ipcRenderer.removeListener("app:systemResumed", wrapped);
+      };
     }
   },
   sessions: {
@@ -34,7 +58,64 @@ const api = {
       ipcRenderer.invoke("sessions:testConnection", input) as Promise<SessionTestConnectionResult>,
     update: (id: string, patch: SessionUpdateInput) =>
       ipcRenderer.invoke("sessions:update", id, patch) as Promise<SessionRecord>,
-    remove: (id: string) => ipcRenderer.invoke("sessions:delete", id) as Promise<void>
+    remove: (id: string) => ipcRenderer.invoke("sessions:delete", id) as Promise<void>,
+    inspectCertificate: (privateKeyPath?: string, certificatePath?: string) =>
+      ipcRenderer.invoke(
+        "sessions:inspectCertificate",
+        privateKeyPath,
+        certificatePath
+      ) as Promise<SshCertificateInfo | null>,
+    previewSshConfigImport: (sourcePath?: string) =>
+      ipcRenderer.invoke("sessions:previewSshConfigImport", sourcePath) as Promise<SshConfigImportPreview>,
+    importSshConfig: (sourcePath: string, aliases: string[]) =>
+      ipcRenderer.invoke("sessions:importSshConfig", sourcePath, aliases) as Promise<SshConfigImportResult>,
+    previewSshConfigExport: (sessionIds: string[]) =>
+      ipcRenderer.invoke("sessions:previewSshConfigExport", sessionIds) as Promise<SshConfigExportPreview>,
+    exportSshConfig: (sessionIds: string[], targetPath: string) =>
+      ipcRenderer.invoke("sessions:exportSshConfig", sessionIds, targetPath) as Promise<SshConfigExportResult>,
+    mergeSshConfig: (sessionIds: string[]) =>
+      ipcRenderer.invoke("sessions:mergeSshConfig", sessionIds) as Promise<SshConfigExportResult>
+  },
+  knownHosts: {
+    list: () => ipcRenderer.invoke("knownHosts:list") as Promise<KnownHostEntry[]>,
+    remove: (id: string) => ipcRenderer.invoke("knownHosts:remove", id) as Promise<void>,
+    importOpenSsh: (sourcePath?: string) =>
+      ipcRenderer.invoke("knownHosts:importOpenSsh", sourcePath) as Promise<KnownHostsImportResult>,
+    respondPrompt: (requestId: string, accepted: boolean) =>
+      ipcRenderer.invoke("knownHosts:respondPrompt", requestId, accepted) as Promise<boolean>,
+    onPrompt: (listener: (prompt: HostKeyPrompt) => void) => {
+      const wrapped = (
+        _event: IpcRendererEvent,
+        payload: HostKeyPrompt
+      ) => {
+        listener(payload);
+      };
+      ipcRenderer.on("knownHosts:prompt", wrapped);
+      return () => {
+        ipcRenderer.removeListener("knownHosts:prompt", wrapped);
+      };
+    }
+  },
+  auth: {
+    respondKeyboardInteractive: (requestId: string, responses: string[] | null) =>
+      ipcRenderer.invoke("auth:respondKeyboardInteractive", requestId, responses) as Promise<boolean>,
+    onKeyboardInteractivePrompt: (listener: (prompt: KeyboardInteractivePrompt) => void) => {
+      const wrapped = (
+        _event: IpcRendererEvent,
+        payload: KeyboardInteractivePrompt
+      ) => {
+        listener(payload);
+      };
+      ipcRenderer.on("auth:keyboardInteractivePrompt", wrapped);
+      return () => {
+        ipcRenderer.removeListener("auth:keyboardInteractivePrompt", wrapped);
+      };
+    }
+  },
+  proxy: {
+    getGlobal: () => ipcRenderer.invoke("proxy:getGlobal") as Promise<GlobalProxySettings>,
+    setGlobal: (input: GlobalProxySettingsInput) =>
+      ipcRenderer.invoke("proxy:setGlobal", input) as Promise<GlobalProxySettings>
   },
   system: {
     pickPrivateKey: () =>
@@ -43,6 +124,8 @@ const api = {
       ipcRenderer.invoke("system:pickUploadFile") as Promise<string | null>,
     pickDownloadTarget: (defaultName: string) =>
       ipcRenderer.invoke("system:pickDownloadTarget", defaultName) as Promise<string | null>,
+    pickSshConfigExportTarget: () =>
+      ipcRenderer.invoke("system:pickSshConfigExportTarget") as Promise<string | null>,
     pickOpenProgram: () =>
       ipcRenderer.invoke("system:pickOpenProgram") as Promise<string | null>,
     createTempOpenFilePath: (defaultName: string) =>
@@ -66,8 +149,14 @@ const api = {
     }
   },
   terminal: {
-    connect: (tabId: string, sessionId: string) =>
-      ipcRenderer.invoke("terminal:connect", tabId, sessionId) as Promise<void>,
+    connect: (tabId: string, sessionId: string, options?: TerminalConnectOptions) =>
+      ipcRenderer.invoke("terminal:connect", tabId, sessionId, options) as Promise<void>,
+    attachTmuxWindow: (tabId: string) =>
+      ipcRenderer.invoke("terminal:attachTmuxWindow", tabId) as Promise<void>,
+    newTmuxWindow: (tabId: string) =>
+      ipcRenderer.invoke("terminal:newTmuxWindow", tabId) as Promise<void>,
+    openLocal: (tabId: string) =>
+      ipcRenderer.invoke("terminal:openLocal", tabId) as Promise<void>,
     write: (tabId: string, data: string) =>
       ipcRenderer.invoke("terminal:write", tabId, data) as Promise<void>,
     resize: (tabId: string, cols: number, rows: number) =>
@@ -87,6 +176,26 @@ const api = {
       };
     }
   },
+  tunnels: {
+    list: (tabId: string) =>
+      ipcRenderer.invoke("tunnels:list", tabId) as Promise<TunnelStatus[]>,
+    start: (tabId: string, tunnelId: string) =>
+      ipcRenderer.invoke("tunnels:start", tabId, tunnelId) as Promise<TunnelStatus>,
+    stop: (tabId: string, tunnelId: string) =>
+      ipcRenderer.invoke("tunnels:stop", tabId, tunnelId) as Promise<void>,
+    onEvent: (listener: (status: TunnelStatus) => void) => {
+      const wrapped = (
+        _event: IpcRendererEvent,
+        payload: TunnelStatus
+      ) => {
+        listener(payload);
+      };
+      ipcRenderer.on("tunnels:event", wrapped);
+      return () => {
+        ipcRenderer.removeListener("tunnels:event", wrapped);
+      };
+    }
+  },
   sftp: {
     listDirectory: (tabId: string, path?: string) =>
       ipcRenderer.invoke("sftp:listDirectory", tabId, path) as Promise<SftpDirectoryListResult>,
@@ -0,0 +1,14 @@
+/**
+ * Resolves the ssh-agent endpoint passed to ssh2's `agent` option. On Windows,
+ * an explicit SSH_AUTH_SOCK (OpenSSH named pipe) wins over Pageant.
+ */
+export function resolveAgentSocket(): string {
+  const socketPath = process.env.SSH_AUTH_SOCK?.trim();
+  if (socketPath) {
+    return socketPath;
+  }
+  if (process.platform === "win32") {
+    return "pageant";
+  }
+  throw new Error("SSH agent is not available: SSH_AUTH_SOCK is not set.");
+}
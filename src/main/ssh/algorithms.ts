@@ -0,0 +1,174 @@
+import { getCiphers, getHashes } from "node:crypto";
+
+import type { AlgorithmList, Algorithms } from "ssh2";
+
+import { SSH_ALGORITHM_CATEGORIES } from "../../shared/ssh-algorithms.js";
+import type { SshAlgorithmCategory, SshAlgorithmSettings } from "../../shared/ssh-algorithms.js";
+
+// Appended to ssh2's defaults: SHA-1 key exchange, DSA host keys, CBC ciphers and old MACs.
+const LEGACY_ADDITIONS: Record<SshAlgorithmCategory, string[]> = {
+  kex: [
+    "diffie-hellman-group14-sha1",
+    "diffie-hellman-group-exchange-sha1",
+    "diffie-hellman-group1-sha1"
+  ],
+  serverHostKey: ["ssh-rsa", "ssh-dss"],
+  cipher: ["aes128-cbc", "aes192-cbc", "aes256-cbc", "3des-cbc"],
+  hmac: ["hmac-sha1-96", "hmac-md5", "hmac-md5-96"]
+};
+
+// Removed from ssh2's defaults: SHA-1 signatures and MACs, and encrypt-and-MAC modes.
+const MODERN_REMOVALS: Record<SshAlgorithmCategory, string[]> = {
+  kex: [],
+  serverHostKey: ["ssh-rsa", "ssh-dss"],
+  cipher: [],
+  // The umac entries only exist in OpenSSH; ssh2 ignores unknown names in removals.
+  hmac: [
+    "hmac-sha1-etm@openssh.com",
+    "hmac-sha2-256",
+    "hmac-sha2-512",
+    "hmac-sha1",
+    "umac-64@openssh.com",
+    "umac-128@openssh.com"
+  ]
+};
+
+const CATEGORY_LABELS: Record<SshAlgorithmCategory, string> = {
+  kex: "key exchange",
+  serverHostKey: "host key",
+  cipher: "cipher",
+  hmac: "MAC"
+};
+
+const OPENSSH_KEYWORDS: Record<SshAlgorithmCategory, string> = {
+  kex: "KexAlgorithms",
+  serverHostKey: "HostKeyAlgorithms",
+  cipher: "Ciphers",
+  hmac: "MACs"
+};
+
+// OpenSSL names backing each cipher / MAC; ssh2 rejects names the runtime cannot provide.
+const CIPHER_SSL_NAMES: Record<string, string> = {
+  "chacha20-poly1305@openssh.com": "chacha20",
+  "aes128-gcm@openssh.com": "aes-128-gcm",
+  "aes256-gcm@openssh.com": "aes-256-gcm",
+  "aes128-gcm": "aes-128-gcm",
+  "aes256-gcm": "aes-256-gcm",
+  "aes128-ctr": "aes-128-ctr",
+  "aes192-ctr": "aes-192-ctr",
+  "aes256-ctr": "aes-256-ctr",
+  "aes128-cbc": "aes-128-cbc",
+  "aes192-cbc": "aes-192-cbc",
+  "aes256-cbc": "aes-256-cbc",
+  "blowfish-cbc": "bf-cbc",
+  "3des-cbc": "des-ede3-cbc",
+  arcfour256: "rc4",
+  arcfour128: "rc4",
+  arcfour: "rc4",
+  "cast128-cbc": "cast5-cbc"
+};
+
+const MAC_HASH_NAMES: Record<string, string> = {
+  "hmac-sha2-256-etm@openssh.com": "sha256",
+  "hmac-sha2-512-etm@openssh.com": "sha512",
+  "hmac-sha1-etm@openssh.com": "sha1",
+  "hmac-sha2-256": "sha256",
+  "hmac-sha2-512": "sha512",
+  "hmac-sha1": "sha1",
+  "hmac-md5": "md5",
+  "hmac-sha2-256-96": "sha256",
+  "hmac-sha2-512-96": "sha512",
+  "hmac-ripemd160": "ripemd160",
+  "hmac-sha1-96": "sha1",
+  "hmac-md5-96": "md5"
+};
+
+/**
+ * Maps a session's algorithm settings to ssh2's `algorithms` option, or
+ * undefined to keep ssh2's defaults. Throws when a custom list has nothing
+ * this runtime can negotiate.
+ */
+export function buildSsh2Algorithms(
+  settings: SshAlgorithmSettings | undefined
+): Algorithms | undefined {
+  if (!settings || settings.preset === "default") {
+    return undefined;
+  }
+  const lists: Partial<Record<SshAlgorithmCategory, AlgorithmList<string>>> = {};
+  for (const category of SSH_ALGORITHM_CATEGORIES) {
+    if (settings.preset === "custom") {
+      const names = settings.custom?.[category] ?? [];
+      if (names.length === 0) {
+        continue;
+      }
+      const available = names.filter((name) => isAvailable(category, name));
+      if (available.length === 0) {
+        throw new Error(
+          `None of the custom ${CATEGORY_LABELS[category]} algorithms are supported here: ${names.join(", ")}.`
+        );
+      }
+      lists[category] = available;
+      continue;
+    }
+    const append =
+      settings.preset === "legacy"
+        ? LEGACY_ADDITIONS[category].filter((name) => isAvailable(category, name))
+        : [];
+    const remove = settings.preset === "modern" ? MODERN_REMOVALS[category] : [];
+    if (append.length > 0 || remove.length > 0) {
+      lists[category] = { append, prepend: [], remove };
+    }
+  }
+  // Names were checked against SSH_ALGORITHM_NAMES when the session was saved.
+  return lists as Algorithms;
+}
+
+/**
+ * Equivalent `-o` options for the system ssh fallback.
+ */
+export function buildNativeAlgorithmOptions(settings: SshAlgorithmSettings | undefined): string[] {
+  if (!settings || settings.preset === "default") {
+    return [];
+  }
+  const options: string[] = [];
+  for (const category of SSH_ALGORITHM_CATEGORIES) {
+    let value: string | null = null;
+    if (settings.preset === "custom") {
+      const names = settings.custom?.[category] ?? [];
+      value = names.length > 0 ? names.join(",") : null;
+    } else if (settings.preset === "legacy") {
+      // Recent OpenSSH builds refuse to start when ssh-dss is named at all.
+      const names = LEGACY_ADDITIONS[category].filter((name) => name !== "ssh-dss");
+      value = names.length > 0 ? `+${names.join(",")}` : null;
+    } else {
+      const names = MODERN_REMOVALS[category];
+      value = names.length > 0 ? `-${names.join(",")}` : null;
+    }
+    if (value) {
+      options.push("-o", `${OPENSSH_KEYWORDS[category]}=${value}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Appends a preset hint to ssh2's "no matching ..." negotiation errors.
+ */
+export function describeAlgorithmMismatch(message: string): string {
+  if (!/no matching .*(algorithm|format|cipher|mac)/i.test(message)) {
+    return message;
+  }
+  return `${message}. The server may only offer older algorithms; try the "Legacy compatible" algorithm preset.`;
+}
+
+function isAvailable(category: SshAlgorithmCategory, name: string): boolean {
+  if (category === "cipher") {
+    const sslName = CIPHER_SSL_NAMES[name];
+    return Boolean(sslName) && getCiphers().includes(sslName);
+  }
+  if (category === "hmac") {
+    const hashName = MAC_HASH_NAMES[name];
+    return Boolean(hashName) && getHashes().includes(hashName);
+  }
+  return true;
+}
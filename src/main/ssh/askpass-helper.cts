@@ -0,0 +1,31 @@
+// Run by system ssh as SSH_ASKPASS, through the launcher AskpassBroker writes. Relays
+// the prompt to the TermDock main process and prints the answer for ssh to read;
+// exits non-zero when there is none, which ssh treats as a cancelled prompt.
+import { connect } from "node:net";
+
+const socket = connect(process.env.TERMDOCK_ASKPASS_SOCKET ?? "");
+let response = "";
+
+socket.setEncoding("utf-8");
+socket.on("connect", () => {
+  const request = { token: process.env.TERMDOCK_ASKPASS_TOKEN, prompt: process.argv[2] ?? "" };
+  socket.write(`${JSON.stringify(request)}\n`);
+});
+socket.on("data", (chunk: string) => {
+  response += chunk;
+});
+socket.on("end", () => {
+  try {
+    const { answer } = JSON.parse(response) as { answer?: unknown };
+    if (typeof answer === "string") {
+      process.stdout.write(`${answer}\n`);
+      return;
+    }
+  } catch {
+    // Malformed replies count as no answer.
+  }
+  process.exitCode = 1;
+});
+socket.on("error", () => {
+  process.exitCode = 1;
+});
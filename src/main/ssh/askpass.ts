@@ -0,0 +1,146 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { createServer } from "node:net";
+import type { Server, Socket } from "node:net";
+import { tmpdir } from "node:os";
+import { join, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Scripts run by Electron's bundled node cannot be read from inside app.asar.
+const HELPER_SCRIPT_PATH = fileURLToPath(new URL("./askpass-helper.cjs", import.meta.url)).replace(
+  `${sep}app.asar${sep}`,
+  `${sep}app.asar.unpacked${sep}`
+);
+
+const POSIX_LAUNCHER = `#!/bin/sh
+ELECTRON_RUN_AS_NODE=1 exec "$TERMDOCK_ASKPASS_NODE" "$TERMDOCK_ASKPASS_SCRIPT" "$@"
+`;
+
+const WINDOWS_LAUNCHER = `@echo off\r
+set ELECTRON_RUN_AS_NODE=1\r
+"%TERMDOCK_ASKPASS_NODE%" "%TERMDOCK_ASKPASS_SCRIPT%" %*\r
+`;
+
+/** Answers one ssh prompt, e.g. "alice@host's password:"; null cancels it. */
+export type AskpassResponder = (prompt: string) => Promise<string | null>;
+
+export interface AskpassRegistration {
+  // Merged into the environment of the ssh process the responder serves.
+  env: Record<string, string>;
+  dispose(): void;
+}
+
+/**
+ * Lets system ssh ask the main process for passwords and passphrases through
+ * SSH_ASKPASS, so secrets from the CredentialStore never reach disk or argv.
+ * ssh runs a launcher script, which starts askpass-helper with Electron's node;
+ * the helper relays the prompt over a local socket, identified by a per-process token.
+ */
+export class AskpassBroker {
+  private readonly responders = new Map<string, AskpassResponder>();
+  private server: Server | undefined;
+  private listening: Promise<string> | undefined;
+  private launcher: Promise<string> | undefined;
+
+  constructor(private readonly launcherDirectory: string) {}
+
+  async register(respond: AskpassResponder): Promise<AskpassRegistration> {
+    const [socketPath, launcherPath] = await Promise.all([this.listen(), this.writeLauncher()]);
+    const token = randomUUID();
+    this.responders.set(token, respond);
+    return {
+      env: {
+        SSH_ASKPASS: launcherPath,
+        // OpenSSH 8.4+; older clients keep prompting in the terminal.
+        SSH_ASKPASS_REQUIRE: "force",
+        TERMDOCK_ASKPASS_NODE: process.execPath,
+        TERMDOCK_ASKPASS_SCRIPT: HELPER_SCRIPT_PATH,
+        TERMDOCK_ASKPASS_SOCKET: socketPath,
+        TERMDOCK_ASKPASS_TOKEN: token
+      },
+      dispose: () => {
+        this.responders.delete(token);
+      }
+    };
+  }
+
+  close(): void {
+    this.server?.close();
+    this.server = undefined;
+    this.listening = undefined;
+  }
+
+  private listen(): Promise<string> {
+    this.listening ??= new Promise<string>((resolve, reject) => {
+      // Kept short: Unix socket paths are limited to about 100 bytes.
+      const name = `termdock-${randomBytes(6).toString("hex")}`;
+      const socketPath =
+        process.platform === "win32" ? `\\\\.\\pipe\\${name}` : join(tmpdir(), `${name}.sock`);
+      const server = createServer((socket) => this.handle(socket));
+      server.once("error", (error) => {
+        this.listening = undefined;
+        reject(error);
+      });
+      server.listen(socketPath, () => {
+        this.server = server;
+        resolve(socketPath);
+      });
+      server.unref();
+    });
+    return this.listening;
+  }
+
+  private writeLauncher(): Promise<string> {
+    this.launcher ??= (async () => {
+      const isWindows = process.platform === "win32";
+      const launcherPath = join(this.launcherDirectory, isWindows ? "askpass.cmd" : "askpass.sh");
+      await mkdir(this.launcherDirectory, { recursive: true });
+      await writeFile(launcherPath, isWindows ? WINDOWS_LAUNCHER : POSIX_LAUNCHER, {
+        encoding: "utf-8",
+        mode: 0o700
+      });
+      return launcherPath;
+    })().catch((error: Error) => {
+      this.launcher = undefined;
+      throw error;
+    });
+    return this.launcher;
+  }
+
+  private handle(socket: Socket): void {
+    let buffered = "";
+    let answered = false;
+    const reply = (answer: string | null) => {
+      socket.end(`${JSON.stringify({ answer })}\n`);
+    };
+
+    socket.setEncoding("utf-8");
+    socket.on("error", () => {
+      // The helper exits when ssh gives up; nothing to report.
+    });
+    socket.on("data", (chunk: string) => {
+      buffered += chunk;
+      const newline = buffered.indexOf("\n");
+      if (answered || newline === -1) {
+        return;
+      }
+      answered = true;
+      let request: { token?: unknown; prompt?: unknown };
+      try {
+        request = JSON.parse(buffered.slice(0, newline)) as typeof request;
+      } catch {
+        reply(null);
+        return;
+      }
+      const respond =
+        typeof request.token === "string" ? this.responders.get(request.token) : undefined;
+      if (!respond) {
+        reply(null);
+        return;
+      }
+      respond(typeof request.prompt === "string" ? request.prompt : "").then(reply, () =>
+        reply(null)
+      );
+    });
+  }
+}
@@ -0,0 +1,302 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import ssh2 from "ssh2";
+import type { AnyAuthMethod, AuthHandlerMiddleware, AuthenticationType } from "ssh2";
+
+import type { SessionAuthMethod, SessionAuthType } from "../../shared/session.js";
+import { resolveAgentSocket } from "./agent.js";
+import { createCertificateKey, loadSessionCertificate } from "./certificate.js";
+
+// ssh2's error once the auth handler has nothing left to offer.
+const ALL_METHODS_FAILED = "All configured authentication methods failed";
+
+const SERVER_METHOD_NAMES: Record<SessionAuthMethod, AuthenticationType> = {
+  agent: "publickey",
+  privateKey: "publickey",
+  password: "password",
+  keyboardInteractive: "keyboard-interactive"
+};
+
+export type FallbackSecretKind = "password" | "passphrase";
+
+// Fallback secrets share the CredentialStore with session secrets under prefixed ids.
+export function toFallbackSecretId(sessionId: string, kind: FallbackSecretKind): string {
+  return `auth:${kind}:${sessionId}`;
+}
+
+/** Order a session authenticates in: its auth type, the fallbacks, then keyboard-interactive. */
+export function resolveAuthOrder(
+  authType: SessionAuthType,
+  fallbackAuthMethods: SessionAuthMethod[] | undefined
+): SessionAuthMethod[] {
+  const methods: SessionAuthMethod[] = [authType, ...(fallbackAuthMethods ?? [])];
+  return methods.includes("keyboardInteractive") ? methods : [...methods, "keyboardInteractive"];
+}
+
+/** `-o PreferredAuthentications=...` for the system ssh fallback; empty keeps ssh's default. */
+export function buildNativeAuthOptions(
+  authType: SessionAuthType,
+  fallbackAuthMethods: SessionAuthMethod[] | undefined
+): string[] {
+  if (!fallbackAuthMethods?.length) {
+    return [];
+  }
+  const names = resolveAuthOrder(authType, fallbackAuthMethods).map(
+    (method) => SERVER_METHOD_NAMES[method]
+  );
+  return ["-o", `PreferredAuthentications=${[...new Set(names)].join(",")}`];
+}
+
+export interface AuthPlanOptions {
+  username: string;
+  authType: SessionAuthType;
+  fallbackAuthMethods?: SessionAuthMethod[];
+  privateKeyPath?: string;
+  certificatePath?: string;
+  // Only called when the plan contains the method needing the secret.
+  getPassword: () => Promise<string | null | undefined>;
+  getPassphrase: () => Promise<string | null | undefined>;
+}
+
+export interface AuthAttempt {
+  label: string;
+  // e.g. "accepted", "rejected by the server", "no password saved".
+  outcome: string;
+  accepted: boolean;
+  // False for methods skipped without asking the server.
+  offered: boolean;
+  durationMs?: number;
+}
+
+interface AuthStep {
+  method: SessionAuthMethod;
+  label: string;
+  attempt?: AuthenticationType | AnyAuthMethod;
+  // Why the step cannot be attempted, e.g. a missing secret.
+  unavailable?: string;
+}
+
+/**
+ * Resolves the credentials of every method a session tries. Methods missing
+ * something are kept in the plan so failures can say why they were skipped;
+ * when no configured method is usable at all, this throws instead.
+ */
+export async function buildAuthPlan(options: AuthPlanOptions): Promise<AuthPlan> {
+  const { username } = options;
+  const steps: AuthStep[] = [];
+  let password: string | undefined;
+
+  for (const method of resolveAuthOrder(options.authType, options.fallbackAuthMethods)) {
+    if (method === "agent") {
+      try {
+        steps.push({
+          method,
+          label: "SSH agent",
+          attempt: { type: "agent", username, agent: resolveAgentSocket() }
+        });
+      } catch (error) {
+        steps.push({ method, label: "SSH agent", unavailable: (error as Error).message });
+      }
+      continue;
+    }
+
+    if (method === "password") {
+      password = (await options.getPassword())?.trim() || undefined;
+      steps.push(
+        password
+          ? { method, label: "password", attempt: { type: "password", username, password } }
+          : { method, label: "password", unavailable: "no password saved" }
+      );
+      continue;
+    }
+
+    if (method === "keyboardInteractive") {
+      steps.push({ method, label: "keyboard-interactive", attempt: "keyboard-interactive" });
+      continue;
+    }
+
+    steps.push(...(await buildPrivateKeySteps(options)));
+  }
+
+  const configured = steps.filter(
+    (step) =>
+      step.method === options.authType || options.fallbackAuthMethods?.includes(step.method)
+  );
+  if (configured.every((step) => step.unavailable)) {
+    throw new Error(`No usable authentication method: ${describeSteps(configured)}.`);
+  }
+  return new AuthPlan(steps, password);
+}
+
+async function buildPrivateKeySteps(options: AuthPlanOptions): Promise<AuthStep[]> {
+  const method: SessionAuthMethod = "privateKey";
+  const keyPath = options.privateKeyPath?.trim();
+  if (!keyPath) {
+    return [{ method, label: "private key", unavailable: "no key file set" }];
+  }
+  const label = `private key ${keyPath}`;
+  let content: string;
+  try {
+    content = await readFile(expandHomePath(keyPath), "utf-8");
+  } catch (error) {
+    return [{ method, label, unavailable: (error as Error).message }];
+  }
+  const passphrase = (await options.getPassphrase())?.trim() || undefined;
+  const key = ssh2.utils.parseKey(content, passphrase);
+  if (key instanceof Error) {
+    return [{ method, label, unavailable: key.message }];
+  }
+
+  const steps: AuthStep[] = [];
+  try {
+    const certificate = await loadSessionCertificate(keyPath, options.certificatePath);
+    if (certificate) {
+      steps.push({
+        method,
+        label: `certificate ${certificate.info.path}`,
+        attempt: {
+          type: "publickey",
+          username: options.username,
+          key: createCertificateKey(key, certificate)
+        }
+      });
+    }
+  } catch (error) {
+    steps.push({ method, label: "certificate", unavailable: (error as Error).message });
+  }
+  steps.push({ method, label, attempt: { type: "publickey", username: options.username, key } });
+  return steps;
+}
+
+/**
+ * Feeds a session's methods to ssh2 one at a time through `authHandler` and
+ * records what happened to each, for the status line and for failures.
+ */
+export class AuthPlan {
+  readonly authHandler: AuthHandlerMiddleware;
+  private readonly outcomes = new Map<number, string>();
+  private readonly offeredAt = new Map<number, number>();
+  private readonly durations = new Map<number, number>();
+  // Methods the server accepted while asking for more (partial success).
+  private readonly accepted: string[] = [];
+  private index = -1;
+  private pendingError: string | undefined;
+
+  constructor(
+    private readonly steps: AuthStep[],
+    // Stored password, also used to answer a lone keyboard-interactive password prompt.
+    readonly password: string | undefined
+  ) {
+    this.authHandler = (authsLeft, partialSuccess, next) => {
+      this.settleCurrent(partialSuccess);
+      // ssh2 reads `false` as "nothing left to try"; its typings omit it.
+      const offer = next as (auth: AuthenticationType | AnyAuthMethod | false) => void;
+      for (;;) {
+        this.index += 1;
+        const step = this.steps[this.index];
+        if (!step) {
+          offer(false);
+          return;
+        }
+        if (step.unavailable) {
+          this.outcomes.set(this.index, step.unavailable);
+          continue;
+        }
+        if (authsLeft?.length && !authsLeft.includes(SERVER_METHOD_NAMES[step.method])) {
+          this.outcomes.set(this.index, "not offered by the server");
+          continue;
+        }
+        this.offeredAt.set(this.index, Date.now());
+        offer(step.attempt ?? false);
+        return;
+      }
+    };
+  }
+
+  /** The method (or chain, after partial successes) that let the client in. */
+  succeededWith(): string | null {
+    const step = this.steps[this.index];
+    return step ? [...this.accepted, step.label].join(" + ") : null;
+  }
+
+  /**
+   * ssh2 reports agent and signing problems as errors, then moves on to the
+   * next method. Returns true for those so callers keep the connection going.
+   */
+  noteError(error: Error & { level?: string }): boolean {
+    const recoverable =
+      error.level === "agent" ||
+      (error.level === "client-authentication" && error.message !== ALL_METHODS_FAILED);
+    if (recoverable) {
+      this.pendingError = error.message;
+    }
+    return recoverable;
+  }
+
+  /** Replaces ssh2's generic auth failure with every method tried and why it failed. */
+  describeFailure(message: string): string {
+    if (message !== ALL_METHODS_FAILED) {
+      return message;
+    }
+    this.settleCurrent(false);
+    return `Authentication failed: ${describeSteps(this.steps, this.outcomes)}.`;
+  }
+
+  /**
+   * The methods reached so far and what became of each, for connection
+   * diagnostics. `authenticated` tells whether the last one let the client in.
+   */
+  describeAttempts(authenticated: boolean): AuthAttempt[] {
+    return this.steps.slice(0, this.index + 1).map((step, index) => {
+      const offeredAt = this.offeredAt.get(index);
+      const outcome =
+        this.outcomes.get(index) ??
+        (authenticated ? "accepted" : "still pending when the test ended");
+      return {
+        label: step.label,
+        outcome,
+        accepted: outcome === "accepted" || this.accepted.includes(step.label),
+        offered: offeredAt !== undefined,
+        durationMs:
+          this.durations.get(index) ??
+          (offeredAt === undefined ? undefined : Date.now() - offeredAt)
+      };
+    });
+  }
+
+  private settleCurrent(partialSuccess: boolean): void {
+    const step = this.steps[this.index];
+    if (!step || this.outcomes.has(this.index)) {
+      return;
+    }
+    const offeredAt = this.offeredAt.get(this.index);
+    if (offeredAt !== undefined) {
+      this.durations.set(this.index, Date.now() - offeredAt);
+    }
+    if (partialSuccess) {
+      this.accepted.push(step.label);
+      this.outcomes.set(this.index, "accepted, but the server requires another method");
+    } else {
+      this.outcomes.set(this.index, this.pendingError ?? "rejected by the server");
+    }
+    this.pendingError = undefined;
+  }
+}
+
+function describeSteps(steps: AuthStep[], outcomes?: Map<number, string>): string {
+  return steps
+    .map((step, index) => {
+      const outcome = outcomes ? outcomes.get(index) ?? "not tried" : step.unavailable;
+      return `${step.label} (${outcome})`;
+    })
+    .join(", ");
+}
+
+function expandHomePath(filePath: string): string {
+  if (filePath.startsWith("~/")) {
+    return join(homedir(), filePath.slice(2));
+  }
+  return filePath;
+}
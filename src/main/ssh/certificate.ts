@@ -0,0 +1,221 @@
+import { access, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { ParsedKey } from "ssh2";
+
+import type { SessionRecord } from "../../shared/session.js";
+import type { SshCertificateInfo } from "../../shared/ssh-certificate.js";
+
+const CERTIFICATE_SUFFIX = "-cert-v01@openssh.com";
+const USER_CERTIFICATE = 1;
+const NO_EXPIRY = 0xffff_ffff_ffff_ffffn;
+
+// Public key fields between the nonce and the serial, per certified key type.
+const KEY_FIELD_COUNTS: Record<string, number> = {
+  "ssh-ed25519": 1,
+  "ecdsa-sha2-nistp256": 2,
+  "ecdsa-sha2-nistp384": 2,
+  "ecdsa-sha2-nistp521": 2,
+  "ssh-rsa": 2
+};
+
+export interface LoadedCertificate {
+  info: SshCertificateInfo;
+  // Key type the certificate certifies, e.g. "ssh-ed25519".
+  keyType: string;
+  blob: Buffer;
+  // The certified public key in SSH wire format, to match against the private key.
+  publicKey: Buffer;
+}
+
+/**
+ * Reads a session's user certificate: the configured file, otherwise
+ * `<privateKeyPath>-cert.pub` when it exists. Null when there is none.
+ */
+export async function loadSessionCertificate(
+  privateKeyPath: string | undefined,
+  certificatePath: string | undefined
+): Promise<LoadedCertificate | null> {
+  let filePath: string;
+  if (certificatePath?.trim()) {
+    filePath = expandHomePath(certificatePath.trim());
+  } else if (privateKeyPath?.trim()) {
+    filePath = `${expandHomePath(privateKeyPath.trim())}-cert.pub`;
+    try {
+      await access(filePath);
+    } catch {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    throw new Error(`Cannot read certificate ${filePath}: ${(error as Error).message}`);
+  }
+  return parseOpenSshCertificate(content, filePath);
+}
+
+function parseOpenSshCertificate(content: string, filePath: string): LoadedCertificate {
+  const [type, encoded] = content.trim().split(/\s+/);
+  if (!type?.endsWith(CERTIFICATE_SUFFIX) || !encoded) {
+    throw new Error(`${filePath} is not an OpenSSH certificate.`);
+  }
+  const keyType = type.slice(0, -CERTIFICATE_SUFFIX.length);
+  const keyFieldCount = KEY_FIELD_COUNTS[keyType];
+  if (keyFieldCount === undefined) {
+    throw new Error(`Unsupported certificate type ${type} in ${filePath}.`);
+  }
+
+  const blob = Buffer.from(encoded, "base64");
+  const reader = new WireReader(blob, filePath);
+  if (reader.readString().toString("latin1") !== type) {
+    throw new Error(`Certificate type in ${filePath} does not match its header.`);
+  }
+  reader.readString();
+  const keyFields: Buffer[] = [];
+  for (let index = 0; index < keyFieldCount; index += 1) {
+    keyFields.push(reader.readString());
+  }
+  const serial = reader.readUInt64();
+  if (reader.readUInt32() !== USER_CERTIFICATE) {
+    throw new Error(`${filePath} is a host certificate, not a user certificate.`);
+  }
+  const keyId = reader.readString().toString("utf-8");
+  const principalsReader = new WireReader(reader.readString(), filePath);
+  const principals: string[] = [];
+  while (!principalsReader.done()) {
+    principals.push(principalsReader.readString().toString("utf-8"));
+  }
+  const validAfter = reader.readUInt64();
+  const validBefore = reader.readUInt64();
+
+  return {
+    info: {
+      path: filePath,
+      type,
+      keyId,
+      serial: serial.toString(),
+      principals,
+      validAfter: validAfter === 0n ? null : Number(validAfter) * 1000,
+      validBefore: validBefore === NO_EXPIRY ? null : Number(validBefore) * 1000
+    },
+    keyType,
+    blob,
+    publicKey: Buffer.concat([encodeString(keyType), ...keyFields.map(encodeString)])
+  };
+}
+
+/** Warning shown before connecting when the certificate is not valid right now. */
+function describeCertificateValidity(
+  info: SshCertificateInfo,
+  now = Date.now()
+): string | null {
+  const label = info.keyId ? `Certificate "${info.keyId}"` : "Certificate";
+  if (info.validBefore !== null && now >= info.validBefore) {
+    return `${label} expired at ${new Date(info.validBefore).toLocaleString()}; the server will likely reject it.`;
+  }
+  if (info.validAfter !== null && now < info.validAfter) {
+    return `${label} is not valid until ${new Date(info.validAfter).toLocaleString()}.`;
+  }
+  return null;
+}
+
+/** Validity warning for a session's certificate; read errors surface when connecting. */
+export async function checkSessionCertificate(
+  session: Pick<
+    SessionRecord,
+    "authType" | "fallbackAuthMethods" | "privateKeyPath" | "certificatePath"
+  >
+): Promise<string | null> {
+  if (session.authType !== "privateKey" && !session.fallbackAuthMethods?.includes("privateKey")) {
+    return null;
+  }
+  try {
+    const certificate = await loadSessionCertificate(
+      session.privateKeyPath,
+      session.certificatePath
+    );
+    return certificate ? describeCertificateValidity(certificate.info) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wraps the session's private key so ssh2 presents the certificate in its
+ * place while still signing with the key. ssh2 names the certified key's
+ * algorithm inside the signature through patches/ssh2@1.17.0.patch.
+ */
+export function createCertificateKey(privateKey: ParsedKey, certificate: LoadedCertificate): ParsedKey {
+  if (!privateKey.getPublicSSH().equals(certificate.publicKey)) {
+    throw new Error("does not match the private key");
+  }
+
+  // RSA certificates are offered with SHA-512 signatures like OpenSSH does.
+  const isRsa = certificate.keyType === "ssh-rsa";
+  return Object.create(privateKey, {
+    type: { value: isRsa ? `rsa-sha2-512${CERTIFICATE_SUFFIX}` : certificate.info.type },
+    getPublicSSH: { value: () => certificate.blob },
+    sign: { value: (data: Buffer) => privateKey.sign(data, isRsa ? "sha512" : undefined) }
+  });
+}
+
+class WireReader {
+  private offset = 0;
+
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly filePath: string
+  ) {}
+
+  done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  readUInt32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readUInt64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  readString(): Buffer {
+    const length = this.readUInt32();
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error(`Certificate ${this.filePath} is truncated or corrupt.`);
+    }
+  }
+}
+
+function encodeString(value: string | Buffer): Buffer {
+  const data = typeof value === "string" ? Buffer.from(value, "utf-8") : value;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+function expandHomePath(filePath: string): string {
+  if (filePath.startsWith("~/")) {
+    return join(homedir(), filePath.slice(2));
+  }
+  return filePath;
+}
@@ -0,0 +1,39 @@
+import type { ConnectConfig } from "ssh2";
+
+import type { ConnectionPolicy } from "../../shared/connection-policy.js";
+
+/**
+ * The policy's timeouts as ssh2 options. Sessions pass their resolved policy,
+ * so every option is set; the connection test passes only the connect timeout
+ * and keeps its own keepalive defaults.
+ */
+export function buildSsh2TimingOptions(
+  policy: ConnectionPolicy
+): Pick<ConnectConfig, "readyTimeout" | "keepaliveInterval" | "keepaliveCountMax"> {
+  return {
+    ...(policy.connectTimeoutSeconds !== undefined
+      ? { readyTimeout: policy.connectTimeoutSeconds * 1000 }
+      : {}),
+    ...(policy.keepaliveIntervalSeconds !== undefined
+      ? { keepaliveInterval: policy.keepaliveIntervalSeconds * 1000 }
+      : {}),
+    ...(policy.keepaliveCountMax !== undefined
+      ? { keepaliveCountMax: policy.keepaliveCountMax }
+      : {})
+  };
+}
+
+/** The same timeouts as system ssh `-o` options, for the fallback and config export. */
+export function buildNativeTimingOptions(policy: ConnectionPolicy): string[] {
+  const options: string[] = [];
+  if (policy.connectTimeoutSeconds !== undefined) {
+    options.push("-o", `ConnectTimeout=${policy.connectTimeoutSeconds}`);
+  }
+  if (policy.keepaliveIntervalSeconds !== undefined) {
+    options.push("-o", `ServerAliveInterval=${policy.keepaliveIntervalSeconds}`);
+  }
+  if (policy.keepaliveCountMax !== undefined) {
+    options.push("-o", `ServerAliveCountMax=${policy.keepaliveCountMax}`);
+  }
+  return options;
+}
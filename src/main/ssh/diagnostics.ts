@@ -0,0 +1,336 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import type { Socket } from "node:net";
+
+import type {
+  ConnectionDiagnosticStep,
+  SessionTestConnectionResult
+} from "../../shared/session.js";
+import type { AuthAttempt } from "./auth-methods.js";
+import { computeHostKeyFingerprint, readHostKeyType } from "./known-hosts-file.js";
+import { connectThroughProxy, formatProxyLabel, openSessionSocket } from "./proxy.js";
+import type { ProxyEndpoint } from "./proxy.js";
+
+export type DiagnosticStage =
+  | "dns"
+  | "proxy"
+  | "tcp"
+  | "jump"
+  | "banner"
+  | "algorithms"
+  | "hostKey"
+  | "auth";
+
+const STAGE_LABELS: Record<DiagnosticStage, string> = {
+  dns: "DNS resolution",
+  proxy: "Proxy",
+  tcp: "TCP connect",
+  jump: "Jump hosts",
+  banner: "Server banner",
+  algorithms: "Algorithm negotiation",
+  hostKey: "Host key",
+  auth: "Authentication"
+};
+
+const STALLED_AUTH_HINT =
+  "The server stalled while authenticating; a slow PAM, LDAP or DNS lookup on the server is the usual cause.";
+
+// First match wins; stages without a match get no hint.
+const STAGE_HINTS: Array<{ stages: DiagnosticStage[]; pattern: RegExp; hint: string }> = [
+  {
+    stages: ["dns"],
+    pattern: /ENOTFOUND|EAI_NONAME|EAI_AGAIN|ENODATA/,
+    hint: "The name does not resolve from this computer. Check it for typos, or connect the VPN whose DNS knows it."
+  },
+  {
+    stages: ["tcp", "proxy"],
+    pattern: /ECONNREFUSED/,
+    hint: "The host is up but nothing listens on this port. Check the port number and that the service (e.g. sshd) is running."
+  },
+  {
+    stages: ["tcp", "proxy"],
+    pattern: /EHOSTUNREACH|ENETUNREACH/,
+    hint: "There is no route to the host from here. Check the VPN and the network the host is in."
+  },
+  {
+    stages: ["tcp", "proxy"],
+    pattern: /timed out|ETIMEDOUT/i,
+    hint: "Packets are being dropped, usually by a firewall or security group, or because the host is down."
+  },
+  {
+    stages: ["proxy"],
+    pattern: /authentication|407/i,
+    hint: "Check the proxy username and password in the proxy settings."
+  },
+  {
+    stages: ["jump"],
+    pattern: /.*/,
+    hint: "Run the connection test on the failing jump host's own session to see which of its stages fails."
+  },
+  {
+    stages: ["banner"],
+    pattern: /.*/,
+    hint: "TCP connected but no SSH banner arrived. The port may serve something other than SSH, or the server dropped the client (MaxStartups, fail2ban, hosts.deny)."
+  },
+  {
+    stages: ["algorithms"],
+    pattern: /no matching/i,
+    hint: 'The server only offers algorithms this session does not allow. Try the "Legacy compatible" algorithm preset, or add one of the offered ones under custom algorithms.'
+  },
+  {
+    stages: ["hostKey"],
+    pattern: /was not trusted/,
+    hint: "Test again and trust the key if its fingerprint matches the one the server's administrator gives you."
+  },
+  {
+    stages: ["auth"],
+    pattern: /timed out|no answer/i,
+    hint: STALLED_AUTH_HINT
+  }
+];
+
+// Per auth method: [label prefix, outcome pattern, hint].
+const AUTH_HINTS: Array<[string, RegExp, string]> = [
+  [
+    "password",
+    /rejected/,
+    "Check the username and password. The server may also refuse password logins (PasswordAuthentication no)."
+  ],
+  [
+    "private key",
+    /rejected/,
+    "The key's public half is not in ~/.ssh/authorized_keys of this user, or the username is wrong."
+  ],
+  [
+    "certificate",
+    /rejected/,
+    "The server does not trust the certificate: check its TrustedUserCAKeys and that a principal matches the username."
+  ],
+  ["SSH agent", /SSH_AUTH_SOCK|agent/i, "Start an SSH agent and load a key with ssh-add."],
+  ["SSH agent", /rejected/, "None of the agent's keys is authorized for this user."],
+  ["", /still pending/, STALLED_AUTH_HINT],
+  [
+    "",
+    /not offered by the server/,
+    "The server does not allow this method for this user (see AuthenticationMethods in its sshd_config)."
+  ]
+];
+
+/**
+ * Records the stages of a connection test with their timings, so a failure
+ * says where it happened instead of only ssh2's last error. Stages run one
+ * at a time: `begin` opens one, `pass` or `fail` closes it.
+ */
+export class ConnectionDiagnostics {
+  private readonly steps: ConnectionDiagnosticStep[] = [];
+  private current: { stage: DiagnosticStage; startedAt: number } | undefined;
+
+  constructor(private readonly target: string) {}
+
+  get openStage(): DiagnosticStage | undefined {
+    return this.current?.stage;
+  }
+
+  begin(stage: DiagnosticStage): void {
+    this.current = { stage, startedAt: Date.now() };
+  }
+
+  pass(detail: string): void {
+    this.close("ok", detail);
+  }
+
+  /** Fails the open stage; returns false when none is open. */
+  fail(detail: string): boolean {
+    return this.close("failed", detail);
+  }
+
+  skip(stage: DiagnosticStage, detail: string): void {
+    this.steps.push({ label: STAGE_LABELS[stage], status: "skipped", detail });
+  }
+
+  /** Closes the authentication stage with one step per method the plan reached. */
+  recordAuth(attempts: AuthAttempt[]): void {
+    if (this.current?.stage !== "auth") {
+      return;
+    }
+    if (attempts.length === 0) {
+      this.fail("No answer from the server before the test ended.");
+      return;
+    }
+    this.current = undefined;
+    for (const attempt of attempts) {
+      const status = attempt.accepted ? "ok" : attempt.offered ? "failed" : "skipped";
+      this.steps.push({
+        label: `Auth: ${attempt.label}`,
+        status,
+        detail: attempt.outcome,
+        durationMs: attempt.durationMs,
+        hint: attempt.accepted ? undefined : findAuthHint(attempt)
+      });
+    }
+  }
+
+  finish(ok: boolean, message: string): SessionTestConnectionResult {
+    if (!ok && this.current) {
+      this.fail(message);
+    }
+    const steps = [...this.steps];
+    return { ok, message, steps, report: this.formatReport(ok, message, steps) };
+  }
+
+  private close(status: "ok" | "failed", detail: string): boolean {
+    const current = this.current;
+    if (!current) {
+      return false;
+    }
+    this.current = undefined;
+    this.steps.push({
+      label: STAGE_LABELS[current.stage],
+      status,
+      detail,
+      durationMs: Date.now() - current.startedAt,
+      hint: status === "failed" ? findStageHint(current.stage, detail) : undefined
+    });
+    return true;
+  }
+
+  private formatReport(ok: boolean, message: string, steps: ConnectionDiagnosticStep[]): string {
+    const lines = [
+      `TermDock connection test: ${this.target}`,
+      `Time: ${new Date().toISOString()}`,
+      `Result: ${ok ? "OK" : "FAILED"} - ${message}`,
+      ""
+    ];
+    for (const [index, step] of steps.entries()) {
+      const timing = step.durationMs === undefined ? "" : ` (${step.durationMs} ms)`;
+      lines.push(`${index + 1}. [${step.status}] ${step.label}${timing}: ${step.detail}`);
+      if (step.hint) {
+        lines.push(`   Hint: ${step.hint}`);
+      }
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Opens the TCP connection of a test as separate DNS and TCP stages, or as a
+ * proxy stage when a proxy does the resolving and dialing. Throws once the
+ * failed stage is recorded.
+ */
+export async function dialWithDiagnostics(
+  diagnostics: ConnectionDiagnostics,
+  proxy: ProxyEndpoint | null,
+  host: string,
+  port: number
+): Promise<Socket> {
+  if (proxy) {
+    diagnostics.skip("dns", `Resolved by the ${formatProxyLabel(proxy)}.`);
+    diagnostics.begin("proxy");
+    try {
+      const socket = await connectThroughProxy(proxy, host, port);
+      diagnostics.pass(`${formatProxyLabel(proxy)} opened a tunnel to ${host}:${port}.`);
+      return socket;
+    } catch (error) {
+      diagnostics.fail((error as Error).message);
+      throw error;
+    }
+  }
+
+  let address = host;
+  if (isIP(host)) {
+    diagnostics.skip("dns", `${host} is an IP address.`);
+  } else {
+    diagnostics.begin("dns");
+    try {
+      const addresses = await lookup(host, { all: true });
+      address = addresses[0].address;
+      diagnostics.pass(`${host} -> ${addresses.map((entry) => entry.address).join(", ")}`);
+    } catch (error) {
+      diagnostics.fail(`${host}: ${(error as Error).message}`);
+      throw new Error(`Unable to resolve ${host}: ${(error as Error).message}`);
+    }
+  }
+
+  diagnostics.begin("tcp");
+  try {
+    const socket = await openSessionSocket(null, address, port);
+    diagnostics.pass(`Connected to ${formatAddress(address)}:${port}.`);
+    return socket;
+  } catch (error) {
+    diagnostics.fail((error as Error).message);
+    throw error;
+  }
+}
+
+/** Follows ssh2's debug output for the parts of the handshake it has no events for. */
+export class HandshakeTrace {
+  ident: string | undefined;
+  private readonly negotiated = new Map<string, string>();
+  private readonly offered = new Map<string, string>();
+
+  constructor(private readonly onIdent: (ident: string) => void) {}
+
+  readonly debug = (line: string): void => {
+    // util.inspect() quotes the ident; double quotes when it contains a single one.
+    const ident = /^Remote ident: (['"])(.*)\1$/.exec(line);
+    if (ident) {
+      this.ident = ident[2];
+      this.onIdent(ident[2]);
+      return;
+    }
+    const offer = /^Handshake: \(remote\) (.+?): (.+)$/.exec(line);
+    if (offer) {
+      this.offered.set(offer[1].toLowerCase(), offer[2]);
+      return;
+    }
+    const pick = /^Handshake: (KEX algorithm|Host key format|[CS]->[CS] (?:cipher|MAC)): (.+)$/i.exec(
+      line
+    );
+    if (pick) {
+      this.negotiated.set(pick[1].toLowerCase(), pick[2]);
+    }
+  };
+
+  describeNegotiated(): string {
+    const pick = (name: string) => this.negotiated.get(name) ?? "?";
+    const bothWays = (clientToServer: string, serverToClient: string) =>
+      clientToServer === serverToClient ? clientToServer : `${clientToServer} / ${serverToClient}`;
+    return [
+      `kex ${pick("kex algorithm")}`,
+      `host key ${pick("host key format")}`,
+      `cipher ${bothWays(pick("c->s cipher"), pick("s->c cipher"))}`,
+      `mac ${bothWays(pick("c->s mac"), pick("s->c mac"))}`
+    ].join(", ");
+  }
+
+  describeServerOffer(): string {
+    return [
+      ["kex", this.offered.get("kex method")],
+      ["host keys", this.offered.get("host key format")],
+      ["ciphers", this.offered.get("c->s cipher")],
+      ["macs", this.offered.get("c->s mac")]
+    ]
+      .filter(([, list]) => list)
+      .map(([name, list]) => `${name} ${list}`)
+      .join("; ");
+  }
+}
+
+export function describeHostKey(key: Buffer): string {
+  return `${readHostKeyType(key)} ${computeHostKeyFingerprint(key)}`;
+}
+
+function findStageHint(stage: DiagnosticStage, detail: string): string | undefined {
+  return STAGE_HINTS.find((entry) => entry.stages.includes(stage) && entry.pattern.test(detail))
+    ?.hint;
+}
+
+function findAuthHint(attempt: AuthAttempt): string | undefined {
+  return AUTH_HINTS.find(
+    ([prefix, pattern]) => attempt.label.startsWith(prefix) && pattern.test(attempt.outcome)
+  )?.[2];
+}
+
+function formatAddress(address: string): string {
+  return isIP(address) === 6 ? `[${address}]` : address;
+}
@@ -0,0 +1,230 @@
+import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { WebContents } from "electron";
+import type { HostVerifier } from "ssh2";
+
+import type { HostKeyPrompt, KnownHostEntry } from "../../shared/known-hosts.js";
+import type { KnownHostsStore } from "../storage/known-hosts-store.js";
+import {
+  computeHostKeyFingerprint,
+  formatKnownHostTarget,
+  formatOpenSshKnownHosts,
+  parseOpenSshKnownHosts,
+  readHostKeyType
+} from "./known-hosts-file.js";
+
+export const HOST_KEY_PROMPT_CHANNEL = "knownHosts:prompt";
+
+const KEYSCAN_TIMEOUT_MS = 15_000;
+const PREFERRED_KEY_TYPES = ["ssh-ed25519", "ecdsa-sha2-nistp256", "ssh-rsa"];
+
+export interface HostKeyTarget {
+  host: string;
+  port: number;
+  sender: WebContents;
+  tabId?: string;
+  // Invoked around waiting on the user so callers can pause their own handshake timers.
+  onPrompt?: () => void;
+  onPromptSettled?: () => void;
+}
+
+export interface HostKeyCheck {
+  hostVerifier: HostVerifier;
+  getRejectionReason(): string | null;
+}
+
+type HostKeyVerdict = { ok: true } | { ok: false; reason: string };
+
+export class HostKeyVerifier {
+  private readonly pendingPrompts = new Map<string, (accepted: boolean) => void>();
+
+  constructor(
+    private readonly store: KnownHostsStore,
+    private readonly nativeKnownHostsPath: string
+  ) {}
+
+  createCheck(target: HostKeyTarget): HostKeyCheck {
+    let rejectionReason: string | null = null;
+    return {
+      hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+        void this.verify(target, key)
+          .then((verdict) => {
+            rejectionReason = verdict.ok ? null : verdict.reason;
+            verify(verdict.ok);
+          })
+          .catch((error: Error) => {
+            rejectionReason = error.message || "Host key verification failed.";
+            verify(false);
+          });
+      },
+      getRejectionReason: () => rejectionReason
+    };
+  }
+
+  respond(requestId: string, accepted: boolean): boolean {
+    const resolve = this.pendingPrompts.get(requestId);
+    if (!resolve) {
+      return false;
+    }
+    this.pendingPrompts.delete(requestId);
+    resolve(accepted);
+    return true;
+  }
+
+  /**
+   * Ensures the system ssh fallback verifies against TermDock's store instead of
+   * trusting on first use. Returns the path of the generated known_hosts file.
+   */
+  async prepareNativeKnownHosts(target: HostKeyTarget): Promise<string> {
+    const known = await this.store.findByTarget(target.host, target.port);
+    if (known.length === 0) {
+      const scannedKeys = await scanHostKeys(target.host, target.port);
+      const candidate = pickPreferredKey(scannedKeys);
+      if (!candidate) {
+        throw new Error(
+          `Unable to read host key of ${formatKnownHostTarget(target.host, target.port)} via ssh-keyscan.`
+        );
+      }
+      const verdict = await this.verify(target, Buffer.from(candidate.publicKey, "base64"));
+      if (!verdict.ok) {
+        throw new Error(verdict.reason);
+      }
+    }
+
+    const entries = await this.store.list();
+    await mkdir(dirname(this.nativeKnownHostsPath), { recursive: true });
+    await writeFile(this.nativeKnownHostsPath, formatOpenSshKnownHosts(entries), "utf-8");
+    return this.nativeKnownHostsPath;
+  }
+
+  private async verify(target: HostKeyTarget, keyBlob: Buffer): Promise<HostKeyVerdict> {
+    const keyType = readHostKeyType(keyBlob);
+    const publicKey = keyBlob.toString("base64");
+    const fingerprint = computeHostKeyFingerprint(keyBlob);
+    const label = formatKnownHostTarget(target.host, target.port);
+    const known = await this.store.findByTarget(target.host, target.port);
+
+    if (known.some((entry) => entry.publicKey === publicKey)) {
+      return { ok: true };
+    }
+
+    // Any key on record for host:port makes a different one a change, whatever its type.
+    if (known.length > 0) {
+      this.emitPrompt(target.sender, {
+        requestId: randomUUID(),
+        tabId: target.tabId,
+        kind: "changed",
+        host: target.host,
+        port: target.port,
+        keyType,
+        fingerprint,
+        knownFingerprints: collectFingerprints(known)
+      });
+      return {
+        ok: false,
+        reason:
+          `REMOTE HOST IDENTIFICATION HAS CHANGED for ${label} (${keyType} ${fingerprint}). ` +
+          "Connection blocked: someone could be eavesdropping on you (man-in-the-middle attack). " +
+          "Remove the old entry in Known Hosts only if the key change is expected."
+      };
+    }
+
+    target.onPrompt?.();
+    const accepted = await this.requestConfirmation(target, {
+      requestId: randomUUID(),
+      tabId: target.tabId,
+      kind: "unknown",
+      host: target.host,
+      port: target.port,
+      keyType,
+      fingerprint,
+      knownFingerprints: []
+    });
+    target.onPromptSettled?.();
+    if (!accepted) {
+      return {
+        ok: false,
+        reason: `Host key of ${label} (${keyType} ${fingerprint}) was not trusted.`
+      };
+    }
+
+    await this.store.add({
+      host: target.host,
+      port: target.port,
+      keyType,
+      publicKey,
+      source: "termdock"
+    });
+    return { ok: true };
+  }
+
+  private requestConfirmation(target: HostKeyTarget, prompt: HostKeyPrompt): Promise<boolean> {
+    if (target.sender.isDestroyed()) {
+      return Promise.resolve(false);
+    }
+    return new Promise<boolean>((resolve) => {
+      const onDestroyed = () => {
+        this.respond(prompt.requestId, false);
+      };
+      this.pendingPrompts.set(prompt.requestId, (accepted) => {
+        target.sender.off("destroyed", onDestroyed);
+        resolve(accepted);
+      });
+      target.sender.once("destroyed", onDestroyed);
+      this.emitPrompt(target.sender, prompt);
+    });
+  }
+
+  private emitPrompt(sender: WebContents, prompt: HostKeyPrompt): void {
+    if (sender.isDestroyed()) {
+      return;
+    }
+    sender.send(HOST_KEY_PROMPT_CHANNEL, prompt);
+  }
+}
+
+function collectFingerprints(entries: KnownHostEntry[]): string[] {
+  return entries.map((entry) => `${entry.keyType} ${entry.fingerprint}`);
+}
+
+function pickPreferredKey(
+  keys: Array<{ keyType: string; publicKey: string }>
+): { keyType: string; publicKey: string } | null {
+  for (const keyType of PREFERRED_KEY_TYPES) {
+    const hit = keys.find((key) => key.keyType === keyType);
+    if (hit) {
+      return hit;
+    }
+  }
+  return keys[0] ?? null;
+}
+
+function scanHostKeys(
+  host: string,
+  port: number
+): Promise<Array<{ keyType: string; publicKey: string }>> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("ssh-keyscan", ["-T", "10", "-p", `${port}`, host], {
+      stdio: ["ignore", "pipe", "pipe"],
+      windowsHide: true
+    });
+    let stdout = "";
+    const timer = setTimeout(() => {
+      child.kill("SIGTERM");
+    }, KEYSCAN_TIMEOUT_MS);
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString("utf-8");
+    });
+    child.once("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`ssh-keyscan failed: ${error.message}`));
+    });
+    child.once("close", () => {
+      clearTimeout(timer);
+      resolve(parseOpenSshKnownHosts(stdout).entries);
+    });
+  });
+}
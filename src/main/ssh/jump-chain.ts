@@ -0,0 +1,229 @@
+import type { WebContents } from "electron";
+import { Client } from "ssh2";
+import type { ClientChannel, ConnectConfig } from "ssh2";
+
+import type { SessionRecord } from "../../shared/session.js";
+import type { CredentialStore } from "../security/credential-store.js";
+import type { SessionStore } from "../storage/session-store.js";
+import type { AuthPlan } from "./auth-methods.js";
+import type { HostKeyVerifier } from "./host-key-verifier.js";
+import { AuthCancelledError } from "./keyboard-interactive.js";
+import type { KeyboardInteractivePrompter } from "./keyboard-interactive.js";
+import { suspendReadyTimeout } from "./ready-timeout.js";
+import { buildSessionConnectConfig } from "./session-config.js";
+
+export interface JumpHop {
+  session: SessionRecord;
+  config: ConnectConfig;
+  auth: AuthPlan;
+}
+
+export interface JumpChainOptions {
+  hostKeyVerifier: HostKeyVerifier;
+  keyboardInteractive: KeyboardInteractivePrompter;
+  sender: WebContents;
+  tabId?: string;
+  onPrompt?: () => void;
+  onPromptSettled?: () => void;
+  onHopConnecting?: (hop: JumpHop, index: number) => void;
+}
+
+export interface JumpChain {
+  // Stream to the final target, passed to the target client as ssh2's `sock`.
+  sock: ClientChannel;
+  clients: Client[];
+}
+
+export class JumpHostError extends Error {
+  constructor(
+    readonly hopIndex: number,
+    readonly hopCount: number,
+    hopSession: SessionRecord,
+    reason: string
+  ) {
+    super(
+      `Jump host ${hopIndex + 1}/${hopCount} "${hopSession.name}" ` +
+        `(${hopSession.username}@${hopSession.host}:${hopSession.port}) failed: ${reason}`
+    );
+    this.name = "JumpHostError";
+  }
+}
+
+/**
+ * Expands a session's jump list into the ordered hops to dial, first hop first.
+ * A jump session's own jump hosts are dialed before it, like nested ProxyJump.
+ */
+export async function resolveJumpSessions(
+  sessionStore: SessionStore,
+  jumpSessionIds: string[] | undefined,
+  ownerSessionId?: string
+): Promise<SessionRecord[]> {
+  const hops: SessionRecord[] = [];
+  const visiting = new Set<string>(ownerSessionId ? [ownerSessionId] : []);
+
+  const visit = async (ids: string[] | undefined): Promise<void> => {
+    for (const id of ids ?? []) {
+      if (visiting.has(id)) {
+        throw new Error("Jump host chain contains a loop. Check the sessions' jump hosts.");
+      }
+      const session = await sessionStore.getById(id);
+      if (!session) {
+        throw new Error("A jump host session of this chain no longer exists.");
+      }
+      if (session.protocol) {
+        throw new Error(`Jump host "${session.name}" is a ${session.protocol} session; only SSH sessions can be jump hosts.`);
+      }
+      visiting.add(id);
+      await visit(session.jumpSessionIds);
+      visiting.delete(id);
+      hops.push(session);
+    }
+  };
+
+  await visit(jumpSessionIds);
+  return hops;
+}
+
+export async function buildJumpHops(
+  sessions: SessionRecord[],
+  credentialStore: CredentialStore
+): Promise<JumpHop[]> {
+  const hops: JumpHop[] = [];
+  for (const [index, session] of sessions.entries()) {
+    try {
+      const { config, auth } = await buildSessionConnectConfig(session, credentialStore);
+      // Forwarding the agent to a bastion is never needed to reach the next hop.
+      config.agentForward = false;
+      hops.push({ session, config, auth });
+    } catch (error) {
+      throw new JumpHostError(index, sessions.length, session, (error as Error).message);
+    }
+  }
+  return hops;
+}
+
+/**
+ * Connects every hop in order, each one through a `forwardOut` stream of the
+ * previous hop, and returns a stream to `target` through the last hop. The first
+ * hop keeps any `sock` already set on its config (e.g. a proxy tunnel).
+ */
+export async function openJumpChain(
+  hops: JumpHop[],
+  target: { host: string; port: number },
+  options: JumpChainOptions
+): Promise<JumpChain> {
+  const clients: Client[] = [];
+  let sock: ClientChannel | undefined;
+
+  for (const [index, hop] of hops.entries()) {
+    const client = new Client();
+    clients.push(client);
+    const next = hops[index + 1]?.session ?? target;
+    options.onHopConnecting?.(hop, index);
+    try {
+      await connectHop(
+        client,
+        { ...hop.config, sock: sock ?? hop.config.sock },
+        hop,
+        options
+      );
+      sock = await forwardOut(client, next.host, next.port);
+    } catch (error) {
+      closeJumpClients(clients);
+      if (error instanceof AuthCancelledError) {
+        throw error;
+      }
+      throw new JumpHostError(index, hops.length, hop.session, (error as Error).message);
+    }
+  }
+
+  if (!sock) {
+    throw new Error("Jump host chain is empty.");
+  }
+  return { sock, clients };
+}
+
+export function closeJumpClients(clients: Client[]): void {
+  for (const client of [...clients].reverse()) {
+    client.end();
+  }
+}
+
+function connectHop(
+  client: Client,
+  config: ConnectConfig,
+  hop: JumpHop,
+  options: JumpChainOptions
+): Promise<void> {
+  const { session, auth } = hop;
+  return new Promise((resolve, reject) => {
+    const onPrompt = () => {
+      suspendReadyTimeout(client);
+      options.onPrompt?.();
+    };
+    const hostKeyCheck = options.hostKeyVerifier.createCheck({
+      host: session.host,
+      port: session.port,
+      sender: options.sender,
+      tabId: options.tabId,
+      onPrompt,
+      onPromptSettled: options.onPromptSettled
+    });
+    client.on(
+      "keyboard-interactive",
+      options.keyboardInteractive.createListener({
+        host: session.host,
+        port: session.port,
+        username: session.username,
+        sender: options.sender,
+        tabId: options.tabId,
+        password: auth.password,
+        onPrompt,
+        onPromptSettled: options.onPromptSettled,
+        onCancel: () => {
+          settle(new AuthCancelledError());
+          client.end();
+        }
+      })
+    );
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    };
+
+    client.once("ready", () => settle());
+    client.on("error", (error: Error) => {
+      if (auth.noteError(error)) {
+        return;
+      }
+      settle(
+        new Error(
+          hostKeyCheck.getRejectionReason() ??
+            auth.describeFailure(error.message || "Connection failed.")
+        )
+      );
+    });
+    client.once("close", () => settle(new Error("Connection closed by remote host.")));
+    client.connect({ ...config, hostVerifier: hostKeyCheck.hostVerifier, tryKeyboard: true });
+  });
+}
+
+function forwardOut(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut("127.0.0.1", 0, host, port, (error, stream) => {
+      if (error) {
+        reject(new Error(`Unable to open a tunnel to ${host}:${port}: ${error.message}`));
+        return;
+      }
+      resolve(stream);
+    });
+  });
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+
+import type { WebContents } from "electron";
+import type { KeyboardInteractiveCallback, Prompt } from "ssh2";
+
+import type { KeyboardInteractivePrompt } from "../../shared/keyboard-interactive.js";
+
+export const KEYBOARD_INTERACTIVE_PROMPT_CHANNEL = "auth:keyboardInteractivePrompt";
+
+export interface KeyboardInteractiveTarget {
+  host: string;
+  port: number;
+  username: string;
+  sender: WebContents;
+  tabId?: string;
+  // Answers the first lone hidden "Password:" prompt without asking, once.
+  password?: string;
+  onPrompt?: () => void;
+  onPromptSettled?: () => void;
+  // The user dismissed the prompt; the caller should abort the connection.
+  onCancel: () => void;
+}
+
+export class AuthCancelledError extends Error {
+  constructor() {
+    super("Authentication cancelled.");
+    this.name = "AuthCancelledError";
+  }
+}
+
+export type KeyboardInteractiveListener = (
+  name: string,
+  instructions: string,
+  lang: string,
+  prompts: Prompt[],
+  finish: KeyboardInteractiveCallback
+) => void;
+
+export class KeyboardInteractivePrompter {
+  private readonly pendingPrompts = new Map<string, (responses: string[] | null) => void>();
+
+  /**
+   * Returns a listener for ssh2's `keyboard-interactive` event. Callers must also
+   * set `tryKeyboard: true`, otherwise ssh2 never offers the method.
+   */
+  createListener(target: KeyboardInteractiveTarget): KeyboardInteractiveListener {
+    let storedPassword = target.password;
+    return (name, instructions, _lang, prompts, finish) => {
+      if (storedPassword && isLonePasswordPrompt(prompts)) {
+        const password = storedPassword;
+        storedPassword = undefined;
+        finish([password]);
+        return;
+      }
+
+      target.onPrompt?.();
+      void this.requestResponses(target, {
+        requestId: randomUUID(),
+        tabId: target.tabId,
+        host: target.host,
+        port: target.port,
+        username: target.username,
+        name,
+        instructions,
+        prompts: prompts.map((prompt) => ({
+          prompt: prompt.prompt,
+          echo: prompt.echo === true
+        }))
+      }).then((responses) => {
+        target.onPromptSettled?.();
+        if (!responses) {
+          target.onCancel();
+          return;
+        }
+        finish(responses);
+      });
+    };
+  }
+
+  respond(requestId: string, responses: string[] | null): boolean {
+    const resolve = this.pendingPrompts.get(requestId);
+    if (!resolve) {
+      return false;
+    }
+    this.pendingPrompts.delete(requestId);
+    resolve(responses);
+    return true;
+  }
+
+  private requestResponses(
+    target: KeyboardInteractiveTarget,
+    prompt: KeyboardInteractivePrompt
+  ): Promise<string[] | null> {
+    if (target.sender.isDestroyed()) {
+      return Promise.resolve(null);
+    }
+    return new Promise<string[] | null>((resolve) => {
+      const onDestroyed = () => {
+        this.respond(prompt.requestId, null);
+      };
+      this.pendingPrompts.set(prompt.requestId, (responses) => {
+        target.sender.off("destroyed", onDestroyed);
+        resolve(responses);
+      });
+      target.sender.once("destroyed", onDestroyed);
+      target.sender.send(KEYBOARD_INTERACTIVE_PROMPT_CHANNEL, prompt);
+    });
+  }
+}
+
+function isLonePasswordPrompt(prompts: Prompt[]): boolean {
+  return prompts.length === 1 && prompts[0].echo !== true && /password/i.test(prompts[0].prompt);
+}
@@ -0,0 +1,101 @@
+import { createHash } from "node:crypto";
+
+export interface ParsedKnownHostLine {
+  host: string;
+  port: number;
+  keyType: string;
+  publicKey: string;
+}
+
+export interface ParsedKnownHostsFile {
+  entries: ParsedKnownHostLine[];
+  skipped: number;
+}
+
+export function parseOpenSshKnownHosts(content: string): ParsedKnownHostsFile {
+  const entries: ParsedKnownHostLine[] = [];
+  let skipped = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const fields = line.split(/\s+/);
+    // Markers (@cert-authority / @revoked) and hashed hosts cannot be mapped to a session target.
+    if (fields[0].startsWith("@") || fields[0].startsWith("|") || fields.length < 3) {
+      skipped += 1;
+      continue;
+    }
+    const [hostField, keyType, publicKey] = fields;
+    if (!isValidKeyBlob(publicKey, keyType)) {
+      skipped += 1;
+      continue;
+    }
+    for (const hostPattern of hostField.split(",")) {
+      const target = parseKnownHostPattern(hostPattern);
+      if (!target) {
+        skipped += 1;
+        continue;
+      }
+      entries.push({
+        host: target.host,
+        port: target.port,
+        keyType,
+        publicKey
+      });
+    }
+  }
+
+  return { entries, skipped };
+}
+
+export function formatOpenSshKnownHosts(
+  entries: Array<Pick<ParsedKnownHostLine, "host" | "port" | "keyType" | "publicKey">>
+): string {
+  const lines = entries.map(
+    (entry) => `${formatKnownHostTarget(entry.host, entry.port)} ${entry.keyType} ${entry.publicKey}`
+  );
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+export function formatKnownHostTarget(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+export function computeHostKeyFingerprint(keyBlob: Buffer): string {
+  const digest = createHash("sha256").update(keyBlob).digest("base64").replace(/=+$/, "");
+  return `SHA256:${digest}`;
+}
+
+export function readHostKeyType(keyBlob: Buffer): string {
+  if (keyBlob.length < 4) {
+    return "unknown";
+  }
+  const length = keyBlob.readUInt32BE(0);
+  if (length <= 0 || length > keyBlob.length - 4) {
+    return "unknown";
+  }
+  return keyBlob.subarray(4, 4 + length).toString("ascii");
+}
+
+function parseKnownHostPattern(pattern: string): { host: string; port: number } | null {
+  if (!pattern || pattern.startsWith("!") || /[*?]/.test(pattern)) {
+    return null;
+  }
+  const bracketed = pattern.match(/^\[([^\]]+)\]:(\d+)$/);
+  if (bracketed) {
+    const port = Number.parseInt(bracketed[2], 10);
+    return Number.isFinite(port) && port > 0 && port <= 65535
+      ? { host: bracketed[1].toLowerCase(), port }
+      : null;
+  }
+  return { host: pattern.toLowerCase(), port: 22 };
+}
+
+function isValidKeyBlob(publicKey: string, keyType: string): boolean {
+  if (!/^[A-Za-z0-9+/]+=*$/.test(publicKey)) {
+    return false;
+  }
+  return readHostKeyType(Buffer.from(publicKey, "base64")) === keyType;
+}
@@ -0,0 +1,141 @@
+import { spawn } from "node:child_process";
+import { createRequire } from "node:module";
+
+import type { SFTPWrapper } from "ssh2";
+
+// Enough of ssh's stderr to explain why SFTP did not start.
+const STDERR_TAIL_CHARS = 4096;
+
+type SftpConstructor = new (
+  client: { _protocol: SftpTransport },
+  channel: SftpChannelInfo,
+  config: Record<string, unknown>
+) => SFTPWrapper & SftpInternals;
+
+interface SftpTransport {
+  _remoteIdentRaw: string;
+  channelData(channelId: number, data: Buffer): void;
+  channelClose(channelId: number): void;
+}
+
+interface SftpChannelState {
+  id: number;
+  window: number;
+  packetSize: number;
+  state: string;
+}
+
+interface SftpChannelInfo {
+  type: string;
+  incoming: SftpChannelState;
+  outgoing: SftpChannelState;
+}
+
+interface SftpInternals {
+  push(data: Buffer | null): void;
+  _init(): void;
+  // Set while the outgoing window is exhausted; `_chunkcb` flushes what was held back.
+  _waitWindow: boolean;
+  _chunkcb?: () => void;
+}
+
+let SftpClass: SftpConstructor | undefined;
+
+export interface NativeSftpOptions {
+  // ssh options and destination; `-s <destination> sftp` is appended.
+  args: string[];
+  destination: string;
+  env?: NodeJS.ProcessEnv;
+  onClose?: () => void;
+}
+
+/**
+ * Opens SFTP through system ssh: ssh2's SFTP client speaks the protocol over the
+ * stdio of `ssh -s <destination> sftp`, which ssh itself authenticates. Used by
+ * tabs that fell back to system ssh because ssh2 could not connect.
+ *
+ * Relies on ssh2's internal SFTP class, which is why ssh2 is pinned to an
+ * exact version in package.json.
+ */
+export function openNativeSftp(options: NativeSftpOptions): Promise<SFTPWrapper> {
+  if (!SftpClass) {
+    const require = createRequire(import.meta.url);
+    SftpClass = (require("ssh2/lib/protocol/SFTP.js") as { SFTP: SftpConstructor }).SFTP;
+  }
+
+  const child = spawn("ssh", [...options.args, "-T", "-s", options.destination, "sftp"], {
+    env: options.env,
+    stdio: ["pipe", "pipe", "pipe"]
+  });
+  // ssh handles the transport's flow control; the window only closes while
+  // ssh's stdin is full, so SFTP holds requests back like on a real channel.
+  const channel: SftpChannelInfo = {
+    type: "sftp",
+    incoming: { id: 0, window: Infinity, packetSize: Infinity, state: "open" },
+    outgoing: { id: 0, window: Infinity, packetSize: Infinity, state: "open" }
+  };
+  const sftp = new SftpClass(
+    {
+      _protocol: {
+        _remoteIdentRaw: "",
+        channelData: (_channelId, data) => {
+          if (!child.stdin.destroyed && !child.stdin.write(data)) {
+            channel.outgoing.window = 0;
+          }
+        },
+        channelClose: () => {
+          channel.outgoing.state = "closed";
+          child.stdin.end();
+          child.kill("SIGTERM");
+        }
+      }
+    },
+    channel,
+    {}
+  );
+
+  child.stdin.on("drain", () => {
+    channel.outgoing.window = Infinity;
+    if (sftp._waitWindow) {
+      sftp._waitWindow = false;
+      sftp._chunkcb?.();
+    }
+  });
+  // ssh exits once stdin is closed; a write racing that must not crash the app.
+  child.stdin.on("error", () => undefined);
+
+  let stderr = "";
+  child.stderr.setEncoding("utf-8");
+  child.stderr.on("data", (chunk: string) => {
+    stderr = (stderr + chunk).slice(-STDERR_TAIL_CHARS);
+  });
+  child.stdout.on("data", (chunk: Buffer) => {
+    sftp.push(chunk);
+  });
+  child.on("close", () => {
+    channel.outgoing.state = "closed";
+    sftp.push(null);
+    sftp.emit("close");
+    options.onClose?.();
+  });
+
+  return new Promise<SFTPWrapper>((resolve, reject) => {
+    const fail = (error: Error) => {
+      sftp.removeListener("ready", succeed);
+      reject(error);
+    };
+    const succeed = () => {
+      child.removeListener("close", onEarlyClose);
+      child.removeListener("error", fail);
+      resolve(sftp);
+    };
+    const onEarlyClose = () => {
+      const detail = stderr.trim().split(/\r?\n/).pop();
+      fail(new Error(`System ssh could not start SFTP${detail ? `: ${detail}` : "."}`));
+    };
+    sftp.once("ready", succeed);
+    child.once("close", onEarlyClose);
+    child.once("error", fail);
+    sftp._init();
+  });
+}
@@ -0,0 +1,165 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { SessionRecord } from "../../shared/session.js";
+import type { SshConfigExportPreview } from "../../shared/ssh-config.js";
+import { buildNativeAlgorithmOptions } from "./algorithms.js";
+import { buildNativeAuthOptions } from "./auth-methods.js";
+import { buildNativeTimingOptions } from "./connection-policy.js";
+
+export const MANAGED_SECTION_BEGIN = "# >>> TermDock managed sessions >>>";
+export const MANAGED_SECTION_END = "# <<< TermDock managed sessions <<<";
+
+/**
+ * Renders one Host block per session. Jump hosts that are exported too are
+ * referenced by alias, others inline as user@host:port.
+ */
+export function renderOpenSshConfig(
+  sessions: SessionRecord[],
+  allSessions: SessionRecord[]
+): SshConfigExportPreview {
+  const warnings: string[] = [];
+  const sshSessions = sessions.filter((session) => {
+    if (session.protocol) {
+      warnings.push(`${session.name}: ${session.protocol} sessions have no OpenSSH equivalent and were left out.`);
+    }
+    return !session.protocol;
+  });
+  const aliases = assignAliases(sshSessions);
+  const blocks = sshSessions.map((session) => {
+    const lines = [`Host ${aliases.get(session.id)}`];
+    lines.push(`  HostName ${session.host}`);
+    lines.push(`  User ${session.username}`);
+    if (session.port !== 22) {
+      lines.push(`  Port ${session.port}`);
+    }
+    const usesKeyFile =
+      session.authType === "privateKey" || session.fallbackAuthMethods?.includes("privateKey");
+    if (usesKeyFile && session.privateKeyPath) {
+      lines.push(`  IdentityFile ${quoteValue(session.privateKeyPath)}`);
+      if (session.certificatePath) {
+        lines.push(`  CertificateFile ${quoteValue(session.certificatePath)}`);
+      }
+      // Agent keys stay usable when the agent is one of the session's methods.
+      if (session.authType !== "agent" && !session.fallbackAuthMethods?.includes("agent")) {
+        lines.push("  IdentitiesOnly yes");
+      }
+    }
+    const authOptions = buildNativeAuthOptions(session.authType, session.fallbackAuthMethods);
+    if (authOptions.length > 0) {
+      lines.push(`  ${authOptions[1].replace("=", " ")}`);
+    }
+    if (session.agentForward) {
+      lines.push("  ForwardAgent yes");
+    }
+    const nativeOptions = [
+      ...buildNativeAlgorithmOptions(session.algorithms),
+      ...buildNativeTimingOptions(session.connectionPolicy ?? {})
+    ];
+    for (let index = 1; index < nativeOptions.length; index += 2) {
+      lines.push(`  ${nativeOptions[index].replace("=", " ")}`);
+    }
+    if (session.jumpSessionIds?.length) {
+      const hops = session.jumpSessionIds.map((jumpId) => {
+        const alias = aliases.get(jumpId);
+        if (alias) {
+          return alias;
+        }
+        const jumpSession = allSessions.find((item) => item.id === jumpId);
+        return jumpSession
+          ? `${jumpSession.username}@${formatAddressHost(jumpSession.host)}:${jumpSession.port}`
+          : null;
+      });
+      if (hops.includes(null)) {
+        warnings.push(`${session.name}: a jump host no longer exists and was left out.`);
+      }
+      const present = hops.filter((hop): hop is string => hop !== null);
+      if (present.length > 0) {
+        lines.push(`  ProxyJump ${present.join(",")}`);
+      }
+    }
+    for (const tunnel of session.tunnels ?? []) {
+      const bind = `${formatAddressHost(tunnel.bindHost)}:${tunnel.bindPort}`;
+      if (tunnel.kind === "dynamic") {
+        lines.push(`  DynamicForward ${bind}`);
+      } else {
+        const keyword = tunnel.kind === "remote" ? "RemoteForward" : "LocalForward";
+        lines.push(`  ${keyword} ${bind} ${formatAddressHost(tunnel.targetHost)}:${tunnel.targetPort}`);
+      }
+    }
+    if (session.proxyMode === "custom" && session.proxy) {
+      warnings.push(`${session.name}: its custom proxy has no portable OpenSSH equivalent and was left out.`);
+    }
+    return lines.join("\n");
+  });
+  return { content: blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "", warnings };
+}
+
+/**
+ * Replaces the TermDock section of an existing config (or appends one),
+ * leaving every hand-written line outside the markers untouched.
+ */
+export async function mergeIntoOpenSshConfig(
+  targetPath: string,
+  content: string
+): Promise<{ replacedManagedSection: boolean }> {
+  let existing = "";
+  try {
+    existing = await readFile(targetPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const section = `${MANAGED_SECTION_BEGIN}\n${content}${MANAGED_SECTION_END}\n`;
+  const begin = existing.indexOf(MANAGED_SECTION_BEGIN);
+  const end = existing.indexOf(MANAGED_SECTION_END, begin);
+  if (begin >= 0 && end < 0) {
+    throw new Error(`${targetPath} has a TermDock start marker without an end marker; fix it by hand first.`);
+  }
+  if (begin >= 0) {
+    const afterEnd = existing.indexOf("\n", end);
+    const rest = afterEnd >= 0 ? existing.slice(afterEnd + 1) : "";
+    await writeOpenSshConfig(targetPath, `${existing.slice(0, begin)}${section}${rest}`);
+    return { replacedManagedSection: true };
+  }
+  const separator = existing.length === 0 ? "" : existing.endsWith("\n") ? "\n" : "\n\n";
+  await writeOpenSshConfig(targetPath, `${existing}${separator}${section}`);
+  return { replacedManagedSection: false };
+}
+
+// Writes through a temp file so a failed write never truncates the user's config.
+export async function writeOpenSshConfig(targetPath: string, content: string): Promise<void> {
+  await mkdir(dirname(targetPath), { recursive: true, mode: 0o700 });
+  const tempPath = `${targetPath}.termdock-${process.pid}.tmp`;
+  await writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+  await rename(tempPath, targetPath);
+}
+
+function assignAliases(sessions: SessionRecord[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const used = new Set<string>();
+  for (const session of sessions) {
+    const base =
+      session.name
+        .trim()
+        .replace(/[\s,]+/g, "-")
+        .replace(/[^\w.@:-]/g, "") || session.host;
+    let alias = base;
+    for (let suffix = 2; used.has(alias.toLowerCase()); suffix += 1) {
+      alias = `${base}-${suffix}`;
+    }
+    used.add(alias.toLowerCase());
+    aliases.set(session.id, alias);
+  }
+  return aliases;
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// IPv6 literals need brackets wherever a port follows.
+function formatAddressHost(host: string): string {
+  return host.includes(":") ? `[${host}]` : host;
+}
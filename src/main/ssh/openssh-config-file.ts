@@ -0,0 +1,231 @@
+import { readdir, readFile } from "node:fs/promises";
+import { homedir, userInfo } from "node:os";
+import { isAbsolute, join, parse as parsePath, resolve as resolvePath, sep } from "node:path";
+
+const MAX_INCLUDE_DEPTH = 16;
+
+interface OpenSshHostBlock {
+  // null for Match blocks, which are not evaluated.
+  patterns: string[] | null;
+  options: Map<string, string[]>;
+  sourcePath: string;
+}
+
+export interface ParsedOpenSshConfig {
+  blocks: OpenSshHostBlock[];
+  warnings: string[];
+}
+
+export interface ResolvedOpenSshHost {
+  alias: string;
+  host: string;
+  port: number;
+  username: string;
+  identityFile?: string;
+  certificateFile?: string;
+  proxyJump?: string;
+  sourcePath: string;
+}
+
+export function defaultOpenSshConfigPath(): string {
+  return join(homedir(), ".ssh", "config");
+}
+
+/**
+ * Reads an OpenSSH client config, inlining `Include` files in place the way
+ * ssh does. Options before the first Host line apply to every host.
+ */
+export async function readOpenSshConfig(configPath: string): Promise<ParsedOpenSshConfig> {
+  const parsed: ParsedOpenSshConfig = { blocks: [], warnings: [] };
+  const global: OpenSshHostBlock = { patterns: ["*"], options: new Map(), sourcePath: configPath };
+  parsed.blocks.push(global);
+  await parseFile(configPath, global, parsed, 0);
+  return parsed;
+}
+
+/** Lists concrete Host aliases (no wildcards or negations) with their effective settings. */
+export function resolveOpenSshHosts(config: ParsedOpenSshConfig): ResolvedOpenSshHost[] {
+  const seen = new Set<string>();
+  const hosts: ResolvedOpenSshHost[] = [];
+  for (const block of config.blocks) {
+    for (const pattern of block.patterns ?? []) {
+      if (/[*?!]/.test(pattern) || seen.has(pattern.toLowerCase())) {
+        continue;
+      }
+      seen.add(pattern.toLowerCase());
+      hosts.push(resolveAlias(config, pattern, block.sourcePath));
+    }
+  }
+  return hosts;
+}
+
+function resolveAlias(
+  config: ParsedOpenSshConfig,
+  alias: string,
+  sourcePath: string
+): ResolvedOpenSshHost {
+  // ssh keeps the first value obtained for each option.
+  const effective = new Map<string, string[]>();
+  for (const block of config.blocks) {
+    if (!block.patterns || !matchesHostPatterns(alias, block.patterns)) {
+      continue;
+    }
+    for (const [key, value] of block.options) {
+      if (!effective.has(key)) {
+        effective.set(key, value);
+      }
+    }
+  }
+  const first = (key: string) => effective.get(key)?.[0];
+  const port = Number.parseInt(first("port") ?? "", 10);
+  const proxyJump = first("proxyjump");
+  return {
+    alias,
+    host: expandHostTokens(first("hostname") ?? alias, alias),
+    port: Number.isInteger(port) && port > 0 && port <= 65535 ? port : 22,
+    username: first("user") ?? userInfo().username,
+    identityFile: first("identityfile"),
+    certificateFile: first("certificatefile"),
+    proxyJump: proxyJump && proxyJump.toLowerCase() !== "none" ? proxyJump : undefined,
+    sourcePath
+  };
+}
+
+async function parseFile(
+  filePath: string,
+  enclosing: OpenSshHostBlock,
+  parsed: ParsedOpenSshConfig,
+  depth: number
+): Promise<void> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if (depth === 0) {
+      throw error;
+    }
+    parsed.warnings.push(`Cannot read included file ${filePath}: ${(error as Error).message}`);
+    return;
+  }
+
+  let current = enclosing;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const tokens = tokenizeLine(rawLine);
+    if (tokens.length === 0) {
+      continue;
+    }
+    const keyword = tokens[0].toLowerCase();
+    const args = tokens.slice(1);
+    if (keyword === "host") {
+      current = { patterns: args, options: new Map(), sourcePath: filePath };
+      parsed.blocks.push(current);
+      continue;
+    }
+    if (keyword === "match") {
+      current = { patterns: null, options: new Map(), sourcePath: filePath };
+      parsed.blocks.push(current);
+      continue;
+    }
+    if (keyword === "include") {
+      if (depth >= MAX_INCLUDE_DEPTH) {
+        parsed.warnings.push(`Include nesting too deep in ${filePath}; stopped following.`);
+        continue;
+      }
+      for (const pattern of args) {
+        for (const includedPath of await expandIncludePattern(pattern)) {
+          // Host lines inside the included file stay scoped to it.
+          await parseFile(includedPath, current, parsed, depth + 1);
+        }
+      }
+      continue;
+    }
+    if (args.length > 0) {
+      const existing = current.options.get(keyword);
+      if (keyword === "identityfile" && existing) {
+        existing.push(...args);
+      } else if (!existing) {
+        current.options.set(keyword, args);
+      }
+    }
+  }
+}
+
+function tokenizeLine(rawLine: string): string[] {
+  const line = rawLine.trim();
+  if (!line || line.startsWith("#")) {
+    return [];
+  }
+  // "Keyword value" and "Keyword=value" are both valid.
+  const match = line.match(/^(\S+?)\s*(?:=\s*|\s+)(.*)$/);
+  if (!match) {
+    return [line];
+  }
+  const tokens = [match[1]];
+  const argPattern = /"([^"]*)"|(\S+)/g;
+  for (const arg of match[2].matchAll(argPattern)) {
+    tokens.push(arg[1] ?? arg[2]);
+  }
+  return tokens;
+}
+
+// Relative Include paths are relative to ~/.ssh; globs are expanded per path segment.
+async function expandIncludePattern(pattern: string): Promise<string[]> {
+  const expanded = pattern.startsWith("~/") ? join(homedir(), pattern.slice(2)) : pattern;
+  const absolute = isAbsolute(expanded) ? expanded : join(homedir(), ".ssh", expanded);
+  if (!/[*?]/.test(absolute)) {
+    return [absolute];
+  }
+  // The root is "/" on POSIX and a drive or UNC share on Windows.
+  const resolved = resolvePath(absolute);
+  const { root } = parsePath(resolved);
+  const segments = resolved.slice(root.length).split(sep).filter(Boolean);
+  let candidates = [root];
+  for (const segment of segments) {
+    if (!/[*?]/.test(segment)) {
+      candidates = candidates.map((base) => join(base, segment));
+      continue;
+    }
+    const matcher = globToRegExp(segment, false);
+    const next: string[] = [];
+    for (const base of candidates) {
+      try {
+        const names = (await readdir(base)).filter((name) => matcher.test(name)).sort();
+        next.push(...names.map((name) => join(base, name)));
+      } catch {
+        // Missing directories simply match nothing, as in ssh.
+      }
+    }
+    candidates = next;
+  }
+  return candidates;
+}
+
+function matchesHostPatterns(alias: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const entry of patterns.flatMap((pattern) => pattern.split(","))) {
+    const negated = entry.startsWith("!");
+    const pattern = negated ? entry.slice(1) : entry;
+    if (!globToRegExp(pattern, true).test(alias)) {
+      continue;
+    }
+    if (negated) {
+      return false;
+    }
+    matched = true;
+  }
+  return matched;
+}
+
+function globToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
+
+function expandHostTokens(hostName: string, alias: string): string {
+  return hostName.replace(/%%|%h/g, (token) => (token === "%h" ? alias : "%"));
+}
@@ -0,0 +1,131 @@
+import type { SessionRecord } from "../../shared/session.js";
+import type {
+  SshConfigImportCandidate,
+  SshConfigImportPreview,
+  SshConfigImportResult
+} from "../../shared/ssh-config.js";
+import type { SessionStore } from "../storage/session-store.js";
+import { readOpenSshConfig, resolveOpenSshHosts } from "./openssh-config-file.js";
+
+export async function previewSshConfigImport(
+  sourcePath: string,
+  sessionStore: SessionStore
+): Promise<SshConfigImportPreview> {
+  const config = await readOpenSshConfig(sourcePath);
+  const sessions = await sessionStore.list();
+  const candidates: SshConfigImportCandidate[] = resolveOpenSshHosts(config).map((host) => ({
+    ...host,
+    duplicateSessionId: findSessionByTarget(sessions, host.host, host.port, host.username)?.id
+  }));
+  return { sourcePath, candidates, warnings: config.warnings };
+}
+
+/**
+ * Creates sessions for the chosen aliases. Duplicates of existing sessions are
+ * skipped but still usable as ProxyJump hops of imported entries.
+ */
+export async function importSshConfigSessions(
+  sourcePath: string,
+  aliases: string[],
+  sessionStore: SessionStore
+): Promise<SshConfigImportResult> {
+  const preview = await previewSshConfigImport(sourcePath, sessionStore);
+  const selected = preview.candidates.filter((candidate) => aliases.includes(candidate.alias));
+  const warnings = [...preview.warnings];
+  const sessionIdsByAlias = new Map<string, string>();
+  const created: SessionRecord[] = [];
+  let duplicates = 0;
+
+  for (const candidate of selected) {
+    const existingId =
+      candidate.duplicateSessionId ??
+      findSessionByTarget(created, candidate.host, candidate.port, candidate.username)?.id;
+    if (existingId) {
+      duplicates += 1;
+      sessionIdsByAlias.set(candidate.alias.toLowerCase(), existingId);
+      continue;
+    }
+    const session = await sessionStore.create({
+      name: candidate.alias,
+      host: candidate.host,
+      port: candidate.port,
+      username: candidate.username,
+      authType: candidate.identityFile ? "privateKey" : "agent",
+      privateKeyPath: candidate.identityFile,
+      certificatePath: candidate.identityFile ? candidate.certificateFile : undefined,
+      favorite: false
+    });
+    created.push(session);
+    sessionIdsByAlias.set(candidate.alias.toLowerCase(), session.id);
+  }
+
+  // Jumps are linked in a second pass so hops may appear anywhere in the file.
+  const sessions = await sessionStore.list();
+  for (const candidate of selected) {
+    const session = created.find(
+      (item) => item.id === sessionIdsByAlias.get(candidate.alias.toLowerCase())
+    );
+    if (!session || !candidate.proxyJump) {
+      continue;
+    }
+    const jumpSessionIds: string[] = [];
+    for (const hop of candidate.proxyJump.split(",")) {
+      const hopId = resolveJumpHop(hop.trim(), sessionIdsByAlias, sessions);
+      if (!hopId) {
+        warnings.push(
+          `ProxyJump "${hop.trim()}" of ${candidate.alias} matches no session; add the jump host manually.`
+        );
+        continue;
+      }
+      jumpSessionIds.push(hopId);
+    }
+    if (jumpSessionIds.length > 0) {
+      const updated = await sessionStore.update(session.id, { jumpSessionIds });
+      created[created.indexOf(session)] = updated;
+    }
+  }
+
+  return { created, duplicates, warnings };
+}
+
+function resolveJumpHop(
+  hop: string,
+  sessionIdsByAlias: Map<string, string>,
+  sessions: SessionRecord[]
+): string | undefined {
+  const match = hop.replace(/^ssh:\/\//, "").match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, username, rawHost, rawPort] = match;
+  const host = rawHost.replace(/^\[|\]$/g, "");
+  const byAlias = sessionIdsByAlias.get(host.toLowerCase());
+  if (byAlias && !username && !rawPort) {
+    return byAlias;
+  }
+  const port = rawPort ? Number.parseInt(rawPort, 10) : 22;
+  return (
+    sessions.find(
+      (session) =>
+        session.host.toLowerCase() === host.toLowerCase() &&
+        session.port === port &&
+        (!username || session.username === username)
+    )?.id ??
+    sessions.find((session) => session.name.toLowerCase() === host.toLowerCase())?.id ??
+    byAlias
+  );
+}
+
+function findSessionByTarget(
+  sessions: SessionRecord[],
+  host: string,
+  port: number,
+  username: string
+): SessionRecord | undefined {
+  return sessions.find(
+    (session) =>
+      session.host.toLowerCase() === host.toLowerCase() &&
+      session.port === port &&
+      session.username === username
+  );
+}
@@ -0,0 +1,287 @@
+import { isIP, connect as connectTcp } from "node:net";
+import type { Socket } from "node:net";
+
+import type { ProxyConfig, SessionProxyMode } from "../../shared/proxy.js";
+import type { SessionRecord } from "../../shared/session.js";
+import type { CredentialStore } from "../security/credential-store.js";
+import type { ProxySettingsStore } from "../storage/proxy-settings-store.js";
+import { createSocketReader } from "./socket-reader.js";
+import type { SocketReader } from "./socket-reader.js";
+
+const PROXY_HANDSHAKE_TIMEOUT_MS = 10_000;
+const MAX_HTTP_RESPONSE_HEADER_BYTES = 16 * 1024;
+
+// Proxy passwords share the CredentialStore with session secrets under prefixed ids.
+export const GLOBAL_PROXY_SECRET_ID = "proxy:global";
+
+export function toSessionProxySecretId(sessionId: string): string {
+  return `proxy:session:${sessionId}`;
+}
+
+export interface ProxyEndpoint extends ProxyConfig {
+  password?: string;
+}
+
+export interface ProxyResolveContext {
+  proxySettingsStore: ProxySettingsStore;
+  credentialStore: CredentialStore;
+}
+
+/**
+ * Picks the proxy used to dial a session's host. `customPassword` is the stored
+ * (or, in connection tests, typed) password of a "custom" session proxy.
+ */
+export async function resolveProxyEndpoint(
+  proxyMode: SessionProxyMode | undefined,
+  proxy: ProxyConfig | undefined,
+  customPassword: string | null | undefined,
+  context: ProxyResolveContext
+): Promise<ProxyEndpoint | null> {
+  if (proxyMode === "direct") {
+    return null;
+  }
+  if (proxyMode === "custom") {
+    if (!proxy) {
+      throw new Error("Session proxy is not configured.");
+    }
+    return { ...proxy, password: customPassword || undefined };
+  }
+  const settings = await context.proxySettingsStore.get();
+  if (!settings.enabled || !settings.proxy) {
+    return null;
+  }
+  const password = settings.hasPassword
+    ? await context.credentialStore.getSessionSecret(GLOBAL_PROXY_SECRET_ID)
+    : null;
+  return { ...settings.proxy, password: password || undefined };
+}
+
+export async function resolveSessionProxyEndpoint(
+  session: SessionRecord,
+  context: ProxyResolveContext
+): Promise<ProxyEndpoint | null> {
+  const password =
+    session.proxyMode === "custom" && session.hasProxyPassword
+      ? await context.credentialStore.getSessionSecret(toSessionProxySecretId(session.id))
+      : null;
+  return resolveProxyEndpoint(session.proxyMode, session.proxy, password, context);
+}
+
+export function formatProxyLabel(proxy: ProxyConfig): string {
+  return `${proxy.type === "http" ? "HTTP" : "SOCKS5"} proxy ${proxy.host}:${proxy.port}`;
+}
+
+/**
+ * Opens a TCP socket to `host:port` tunnelled through the proxy, ready to be
+ * handed to ssh2 as its `sock`.
+ */
+export async function connectThroughProxy(
+  proxy: ProxyEndpoint,
+  host: string,
+  port: number
+): Promise<Socket> {
+  const socket = await openTcpSocket(proxy.host, proxy.port, `proxy ${proxy.host}:${proxy.port}`);
+  socket.setTimeout(PROXY_HANDSHAKE_TIMEOUT_MS, () => {
+    socket.destroy(new Error("Proxy handshake timed out."));
+  });
+  const reader = createSocketReader(socket, "Proxy closed the connection.");
+  try {
+    if (proxy.type === "http") {
+      await negotiateHttpConnect(socket, reader, proxy, host, port);
+    } else {
+      await negotiateSocks5(socket, reader, proxy, host, port);
+    }
+  } catch (error) {
+    socket.destroy();
+    throw new Error(`${formatProxyLabel(proxy)}: ${(error as Error).message}`);
+  }
+  socket.setTimeout(0);
+  reader.release();
+  return socket;
+}
+
+/**
+ * Opens a plain TCP socket to `host:port`, through the proxy when there is one.
+ * Used by telnet and raw TCP sessions, which have no SSH client to do the dialing.
+ */
+export async function openSessionSocket(
+  proxy: ProxyEndpoint | null,
+  host: string,
+  port: number
+): Promise<Socket> {
+  if (proxy) {
+    return connectThroughProxy(proxy, host, port);
+  }
+  return openTcpSocket(host, port, `${host}:${port}`);
+}
+
+function openTcpSocket(host: string, port: number, label: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connectTcp({ host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`Timed out connecting to ${label}.`));
+    }, PROXY_HANDSHAKE_TIMEOUT_MS);
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      reject(new Error(`Unable to reach ${label}: ${error.message}`));
+    };
+    socket.once("connect", () => {
+      clearTimeout(timer);
+      socket.off("error", onError);
+      resolve(socket);
+    });
+    socket.once("error", onError);
+  });
+}
+
+async function negotiateSocks5(
+  socket: Socket,
+  reader: SocketReader,
+  proxy: ProxyEndpoint,
+  host: string,
+  port: number
+): Promise<void> {
+  const wantsAuth = Boolean(proxy.username);
+  // Greeting: offer "no auth", plus username/password (RFC 1929) when configured.
+  socket.write(Buffer.from(wantsAuth ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+  const [version, method] = await reader.read(2);
+  if (version !== 0x05) {
+    throw new Error("Not a SOCKS5 proxy.");
+  }
+  if (method === 0xff) {
+    throw new Error(
+      wantsAuth
+        ? "Proxy rejected all authentication methods."
+        : "Proxy requires authentication. Set a proxy username and password."
+    );
+  }
+  if (method === 0x02) {
+    const username = Buffer.from(proxy.username ?? "", "utf-8");
+    const password = Buffer.from(proxy.password ?? "", "utf-8");
+    if (username.length > 255 || password.length > 255) {
+      throw new Error("Proxy username or password is too long.");
+    }
+    socket.write(
+      Buffer.concat([
+        Buffer.from([0x01, username.length]),
+        username,
+        Buffer.from([password.length]),
+        password
+      ])
+    );
+    const [, status] = await reader.read(2);
+    if (status !== 0x00) {
+      throw new Error("Proxy authentication failed.");
+    }
+  } else if (method !== 0x00) {
+    throw new Error(`Proxy selected unsupported authentication method ${method}.`);
+  }
+
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), encodeSocksAddress(host, port)]));
+  const [, reply, , addressType] = await reader.read(4);
+  if (reply !== 0x00) {
+    throw new Error(describeSocksReply(reply));
+  }
+  // Skip the bound address; it is irrelevant for outbound tunnels.
+  if (addressType === 0x01) {
+    await reader.read(4 + 2);
+  } else if (addressType === 0x04) {
+    await reader.read(16 + 2);
+  } else if (addressType === 0x03) {
+    const [length] = await reader.read(1);
+    await reader.read(length + 2);
+  } else {
+    throw new Error("Proxy returned an invalid address type.");
+  }
+}
+
+function encodeSocksAddress(host: string, port: number): Buffer {
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port, 0);
+  const ipVersion = isIP(host);
+  if (ipVersion === 4) {
+    return Buffer.concat([
+      Buffer.from([0x01]),
+      Buffer.from(host.split(".").map((part) => Number.parseInt(part, 10))),
+      portBytes
+    ]);
+  }
+  if (ipVersion === 6) {
+    return Buffer.concat([Buffer.from([0x04]), encodeIpv6(host), portBytes]);
+  }
+  // Let the proxy resolve host names so DNS follows the proxy's network.
+  const hostBytes = Buffer.from(host, "utf-8");
+  if (hostBytes.length > 255) {
+    throw new Error("Host name is too long for SOCKS5.");
+  }
+  return Buffer.concat([Buffer.from([0x03, hostBytes.length]), hostBytes, portBytes]);
+}
+
+function encodeIpv6(host: string): Buffer {
+  const [head, tail = ""] = host.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = host.includes("::") && tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...Array<string>(Math.max(0, missing)).fill("0"), ...tailGroups];
+  const bytes = Buffer.alloc(16);
+  groups.slice(0, 8).forEach((group, index) => {
+    bytes.writeUInt16BE(Number.parseInt(group || "0", 16), index * 2);
+  });
+  return bytes;
+}
+
+function describeSocksReply(reply: number): string {
+  switch (reply) {
+    case 0x02:
+      return "Connection not allowed by proxy ruleset.";
+    case 0x03:
+      return "Network unreachable from proxy.";
+    case 0x04:
+      return "Host unreachable from proxy.";
+    case 0x05:
+      return "Connection refused by target host.";
+    case 0x06:
+      return "TTL expired.";
+    case 0x07:
+      return "Proxy does not support CONNECT.";
+    default:
+      return `Proxy connect failed (SOCKS5 reply ${reply}).`;
+  }
+}
+
+async function negotiateHttpConnect(
+  socket: Socket,
+  reader: SocketReader,
+  proxy: ProxyEndpoint,
+  host: string,
+  port: number
+): Promise<void> {
+  const authority = isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+  const headers = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  if (proxy.username) {
+    const credentials = Buffer.from(`${proxy.username}:${proxy.password ?? ""}`, "utf-8");
+    headers.push(`Proxy-Authorization: Basic ${credentials.toString("base64")}`);
+  }
+  socket.write(`${headers.join("\r\n")}\r\n\r\n`);
+
+  const response = (await reader.readUntil("\r\n\r\n", MAX_HTTP_RESPONSE_HEADER_BYTES)).toString(
+    "latin1"
+  );
+  const statusLine = response.split("\r\n")[0] ?? "";
+  const match = statusLine.match(/^HTTP\/1\.[01] (\d{3})/);
+  if (!match) {
+    throw new Error("Not an HTTP proxy.");
+  }
+  const status = Number.parseInt(match[1], 10);
+  if (status === 407) {
+    throw new Error(
+      proxy.username
+        ? "Proxy authentication failed."
+        : "Proxy requires authentication. Set a proxy username and password."
+    );
+  }
+  if (status < 200 || status >= 300) {
+    throw new Error(`Proxy refused CONNECT: ${statusLine.slice(9).trim()}`);
+  }
+}
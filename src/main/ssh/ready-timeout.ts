@@ -0,0 +1,13 @@
+import type { Client } from "ssh2";
+
+/**
+ * ssh2 counts time spent waiting on the user (host key or keyboard-interactive
+ * prompts) against `readyTimeout`. Clear its internal timer while a person answers.
+ */
+export function suspendReadyTimeout(client: Client): void {
+  const internal = client as Client & { _readyTimeout?: ReturnType<typeof setTimeout> };
+  if (internal._readyTimeout !== undefined) {
+    clearTimeout(internal._readyTimeout);
+    internal._readyTimeout = undefined;
+  }
+}
@@ -0,0 +1,63 @@
+import type { ConnectConfig } from "ssh2";
+
+import { resolveConnectionPolicy } from "../../shared/connection-policy.js";
+import type { SessionRecord } from "../../shared/session.js";
+import type { CredentialStore } from "../security/credential-store.js";
+import { resolveAgentSocket } from "./agent.js";
+import { buildSsh2Algorithms } from "./algorithms.js";
+import { buildAuthPlan, toFallbackSecretId } from "./auth-methods.js";
+import type { AuthPlan } from "./auth-methods.js";
+import { buildSsh2TimingOptions } from "./connection-policy.js";
+
+export interface SessionConnectConfig {
+  config: ConnectConfig;
+  // Per connection attempt: tracks which auth methods were tried.
+  auth: AuthPlan;
+}
+
+// The session secret belongs to the auth type; fallbacks keep theirs under prefixed ids.
+export function resolveSessionSecretIds(
+  session: Pick<SessionRecord, "id" | "authType">
+): { password: string; passphrase: string } {
+  return {
+    password:
+      session.authType === "password" ? session.id : toFallbackSecretId(session.id, "password"),
+    passphrase:
+      session.authType === "privateKey" ? session.id : toFallbackSecretId(session.id, "passphrase")
+  };
+}
+
+/**
+ * Builds the ssh2 config for a saved session, reading its secrets from the
+ * CredentialStore. Shared by terminal tabs and by jump hosts in a chain.
+ */
+export async function buildSessionConnectConfig(
+  session: SessionRecord,
+  credentialStore: CredentialStore
+): Promise<SessionConnectConfig> {
+  const config: ConnectConfig = {
+    host: session.host,
+    port: session.port,
+    username: session.username,
+    ...buildSsh2TimingOptions(resolveConnectionPolicy(session.connectionPolicy)),
+    algorithms: buildSsh2Algorithms(session.algorithms)
+  };
+
+  if (session.agentForward) {
+    config.agent = resolveAgentSocket();
+    config.agentForward = true;
+  }
+
+  const secretIds = resolveSessionSecretIds(session);
+  const auth = await buildAuthPlan({
+    username: session.username,
+    authType: session.authType,
+    fallbackAuthMethods: session.fallbackAuthMethods,
+    privateKeyPath: session.privateKeyPath,
+    certificatePath: session.certificatePath,
+    getPassword: () => credentialStore.getSessionSecret(secretIds.password),
+    getPassphrase: () => credentialStore.getSessionSecret(secretIds.passphrase)
+  });
+  config.authHandler = auth.authHandler;
+  return { config, auth };
+}
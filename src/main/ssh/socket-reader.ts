@@ -0,0 +1,95 @@
+import type { Socket } from "node:net";
+
+export interface SocketReader {
+  read(size: number): Promise<Buffer>;
+  readUntil(delimiter: string, maxBytes: number): Promise<Buffer>;
+  // Stops consuming data and puts unread bytes back for the next reader.
+  // The error listener stays attached so late socket errors are never unhandled.
+  release(): void;
+}
+
+/**
+ * Buffers a socket's data so a handshake can be read in exact pieces, then
+ * hands the socket on with whatever the peer sent past the handshake.
+ */
+export function createSocketReader(socket: Socket, closedMessage: string): SocketReader {
+  let buffered = Buffer.alloc(0);
+  let failure: Error | null = null;
+  let waiter: { check: () => boolean; reject: (error: Error) => void } | null = null;
+
+  const poll = () => {
+    if (waiter?.check()) {
+      waiter = null;
+    }
+  };
+  const fail = (error: Error) => {
+    failure ??= error;
+    waiter?.reject(failure);
+    waiter = null;
+  };
+  const onData = (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    poll();
+  };
+  const onClose = () => fail(new Error(closedMessage));
+  const onError = (error: Error) => fail(error);
+
+  socket.on("data", onData);
+  socket.on("close", onClose);
+  socket.on("error", onError);
+
+  const take = (size: number): Buffer => {
+    const chunk = buffered.subarray(0, size);
+    buffered = buffered.subarray(size);
+    return chunk;
+  };
+
+  const waitFor = (extract: () => Buffer | null): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+      const check = () => {
+        try {
+          const result = extract();
+          if (result) {
+            resolve(result);
+            return true;
+          }
+          return false;
+        } catch (error) {
+          reject(error as Error);
+          return true;
+        }
+      };
+      if (check()) {
+        return;
+      }
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      waiter = { check, reject };
+    });
+
+  return {
+    read: (size) => waitFor(() => (buffered.length >= size ? take(size) : null)),
+    readUntil: (delimiter, maxBytes) =>
+      waitFor(() => {
+        const index = buffered.indexOf(delimiter);
+        if (index >= 0) {
+          return take(index + delimiter.length);
+        }
+        if (buffered.length > maxBytes) {
+          throw new Error("Response is too large.");
+        }
+        return null;
+      }),
+    release: () => {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+      socket.pause();
+      if (buffered.length > 0) {
+        socket.unshift(buffered);
+        buffered = Buffer.alloc(0);
+      }
+    }
+  };
+}
@@ -0,0 +1,12 @@
+import "ssh2";
+
+// Methods patches/ssh2@1.17.0.patch adds to ssh2.
+declare module "ssh2" {
+  interface Client {
+    /**
+     * Sends the keepalive@openssh.com request ssh2's keepalive uses and calls
+     * `onReply` once the server answers. False when the connection is not open.
+     */
+    ping(onReply: () => void): boolean;
+  }
+}
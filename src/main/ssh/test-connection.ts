@@ -1,63 +1,302 @@
-import { readFile } from "node:fs/promises";
-import { homedir } from "node:os";
-import { join } from "node:path";
+import type { Socket } from "node:net";
 
+import type { WebContents } from "electron";
 import { Client } from "ssh2";
 import type { ConnectConfig } from "ssh2";
 
+import { DEFAULT_SESSION_PORTS } from "../../shared/session.js";
 import type {
   SessionCreateInput,
   SessionTestConnectionResult
 } from "../../shared/session.js";
+import type { CredentialStore } from "../security/credential-store.js";
+import { normalizeProxyConfig } from "../storage/proxy-settings-store.js";
+import type { ProxySettingsStore } from "../storage/proxy-settings-store.js";
+import {
+  normalizeAlgorithmSettings,
+  normalizeConnectionPolicy,
+  normalizeFallbackAuthMethods
+} from "../storage/session-store.js";
+import type { SessionStore } from "../storage/session-store.js";
+import { resolveAgentSocket } from "./agent.js";
+import { buildSsh2Algorithms, describeAlgorithmMismatch } from "./algorithms.js";
+import { buildAuthPlan } from "./auth-methods.js";
+import type { AuthPlan } from "./auth-methods.js";
+import { checkSessionCertificate } from "./certificate.js";
+import { buildSsh2TimingOptions } from "./connection-policy.js";
+import {
+  ConnectionDiagnostics,
+  describeHostKey,
+  dialWithDiagnostics,
+  HandshakeTrace
+} from "./diagnostics.js";
+import type { HostKeyVerifier } from "./host-key-verifier.js";
+import type { KeyboardInteractivePrompter } from "./keyboard-interactive.js";
+import {
+  buildJumpHops,
+  closeJumpClients,
+  openJumpChain,
+  resolveJumpSessions
+} from "./jump-chain.js";
+import type { JumpHop } from "./jump-chain.js";
+import { resolveProxyEndpoint, resolveSessionProxyEndpoint } from "./proxy.js";
+import type { ProxyEndpoint } from "./proxy.js";
+import { suspendReadyTimeout } from "./ready-timeout.js";
+
+const TEST_TIMEOUT_MS = 12_000;
+
+export interface TestConnectionContext {
+  hostKeyVerifier: HostKeyVerifier;
+  keyboardInteractive: KeyboardInteractivePrompter;
+  sessionStore: SessionStore;
+  credentialStore: CredentialStore;
+  proxySettingsStore: ProxySettingsStore;
+  sender: WebContents;
+}
 
 export async function testSshConnection(
-  input: SessionCreateInput
+  input: SessionCreateInput,
+  context: TestConnectionContext
 ): Promise<SessionTestConnectionResult> {
+  let config: ConnectConfig;
+  let auth: AuthPlan;
+  let certificateWarning: string | null;
+  let jumpHops: JumpHop[];
+  let proxy: ProxyEndpoint | null;
   try {
-    const config = await buildConnectConfig(input);
+    ({ config, auth } = await buildConnectConfig(input));
+    certificateWarning = await checkSessionCertificate(input);
+    jumpHops = await buildJumpHops(
+      await resolveJumpSessions(context.sessionStore, input.jumpSessionIds),
+      context.credentialStore
+    );
+    proxy = jumpHops[0]
+      ? await resolveSessionProxyEndpoint(jumpHops[0].session, context)
+      : await resolveProxyEndpoint(
+          input.proxyMode,
+          input.proxyMode === "custom" && input.proxy ? normalizeProxyConfig(input.proxy) : undefined,
+          input.proxyPassword?.trim(),
+          context
+        );
+  } catch (error) {
+    return {
+      ok: false,
+      message: (error as Error).message || "Connection failed."
+    };
+  }
 
-    return await new Promise<SessionTestConnectionResult>((resolve) => {
-      const client = new Client();
-      let settled = false;
-      const timeout = setTimeout(() => {
-        finalize(false, "Connection timed out.");
-      }, 12_000);
+  const targetLabel = jumpHops.length > 0 ? "Target host" : null;
+  const firstHop = jumpHops[0];
+  const diagnostics = new ConnectionDiagnostics(
+    `${config.username}@${config.host}:${config.port}` +
+      (jumpHops.length > 0 ? ` via ${jumpHops.map((hop) => hop.session.name).join(" -> ")}` : "")
+  );
+  const withWarning = (message: string) =>
+    certificateWarning ? `${message} ${certificateWarning}` : message;
 
-      const finalize = (ok: boolean, message: string) => {
-        if (settled) {
-          return;
-        }
-        settled = true;
-        clearTimeout(timeout);
-        client.end();
-        resolve({ ok, message });
-      };
+  let socket: Socket;
+  try {
+    socket = await dialWithDiagnostics(
+      diagnostics,
+      proxy,
+      firstHop?.session.host ?? config.host ?? "",
+      firstHop?.session.port ?? config.port ?? 22
+    );
+  } catch (error) {
+    return diagnostics.finish(false, withWarning((error as Error).message || "Connection failed."));
+  }
 
-      client.on("ready", () => {
-        finalize(true, "Connection successful.");
+  return new Promise<SessionTestConnectionResult>((resolve) => {
+    const client = new Client();
+    let jumpClients: Client[] = [];
+    let stageLabel = targetLabel;
+    let settled = false;
+    let hostKeyPrompted = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const armTimeout = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        finalize(false, withStage(stageLabel, "Connection timed out."));
+      }, Math.max(TEST_TIMEOUT_MS, (config.readyTimeout ?? 0) + 2_000));
+    };
+    const hostKeyCheck = context.hostKeyVerifier.createCheck({
+      host: config.host ?? "",
+      port: config.port ?? 22,
+      sender: context.sender,
+      onPrompt: () => {
+        hostKeyPrompted = true;
+        clearTimeout(timeout);
+        suspendReadyTimeout(client);
+      },
+      onPromptSettled: armTimeout
+    });
+    const trace = new HandshakeTrace((ident) => {
+      diagnostics.pass(ident);
+      diagnostics.begin("algorithms");
+    });
+    config.debug = trace.debug;
+    // Algorithms are settled once ssh2 asks about the host key.
+    config.hostVerifier = (key: Buffer, verify: (valid: boolean) => void) => {
+      diagnostics.pass(trace.describeNegotiated());
+      diagnostics.begin("hostKey");
+      hostKeyCheck.hostVerifier(key, (valid: boolean) => {
+        if (valid) {
+          const trust = hostKeyPrompted ? "trusted after confirmation" : "matches Known Hosts";
+          diagnostics.pass(`${describeHostKey(key)}, ${trust}`);
+          diagnostics.begin("auth");
+        } else {
+          diagnostics.fail(hostKeyCheck.getRejectionReason() ?? describeHostKey(key));
+        }
+        verify(valid);
       });
+    };
+    config.tryKeyboard = true;
+    client.on(
+      "keyboard-interactive",
+      context.keyboardInteractive.createListener({
+        host: config.host ?? "",
+        port: config.port ?? 22,
+        username: config.username ?? "",
+        sender: context.sender,
+        password: auth.password,
+        onPrompt: () => {
+          clearTimeout(timeout);
+          suspendReadyTimeout(client);
+        },
+        onPromptSettled: armTimeout,
+        onCancel: () => finalize(false, "Authentication cancelled.")
+      })
+    );
+    armTimeout();
 
-      client.on("error", (error: Error) => {
-        finalize(false, error.message || "Connection failed.");
-      });
+    const finalize = (ok: boolean, message: string) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      diagnostics.recordAuth(auth.describeAttempts(ok));
+      client.end();
+      closeJumpClients(jumpClients);
+      resolve(diagnostics.finish(ok, withWarning(message)));
+    };
 
-      client.on("close", () => {
-        if (!settled) {
-          finalize(false, "Connection closed by remote host.");
-        }
-      });
+    client.on("ready", () => {
+      const method = auth.succeededWith();
+      finalize(
+        true,
+        (jumpHops.length > 0
+          ? `Connection successful via ${jumpHops.length} jump host(s)`
+          : "Connection successful") + (method ? ` (authenticated with ${method}).` : ".")
+      );
+    });
 
-      client.connect(config);
+    client.on("error", (error: Error & { level?: string }) => {
+      if (auth.noteError(error)) {
+        return;
+      }
+      if (error.level === "handshake" && diagnostics.openStage === "algorithms") {
+        const offer = trace.describeServerOffer();
+        diagnostics.fail(offer ? `${error.message}. Server offers ${offer}.` : error.message);
+      }
+      finalize(
+        false,
+        withStage(
+          targetLabel,
+          hostKeyCheck.getRejectionReason() ??
+            describeAlgorithmMismatch(auth.describeFailure(error.message || "Connection failed."))
+        )
+      );
     });
-  } catch (error) {
-    return {
-      ok: false,
-      message: (error as Error).message || "Connection failed."
+
+    client.on("close", () => {
+      if (!settled) {
+        finalize(false, withStage(targetLabel, "Connection closed by remote host."));
+      }
+    });
+
+    const dial = async () => {
+      (firstHop?.config ?? config).sock = socket;
+      if (jumpHops.length > 0) {
+        diagnostics.begin("jump");
+        try {
+          const chain = await openJumpChain(
+            jumpHops,
+            { host: config.host ?? "", port: config.port ?? 22 },
+            {
+              hostKeyVerifier: context.hostKeyVerifier,
+              keyboardInteractive: context.keyboardInteractive,
+              sender: context.sender,
+              onPrompt: () => clearTimeout(timeout),
+              onPromptSettled: armTimeout,
+              onHopConnecting: (hop, index) => {
+                stageLabel = `Jump host ${index + 1}/${jumpHops.length} "${hop.session.name}"`;
+              }
+            }
+          );
+          if (settled) {
+            closeJumpClients(chain.clients);
+            return;
+          }
+          jumpClients = chain.clients;
+          config.sock = chain.sock;
+          stageLabel = targetLabel;
+          diagnostics.pass(
+            `Reached ${config.host}:${config.port} through ${jumpHops.length} jump host(s).`
+          );
+        } catch (error) {
+          finalize(false, (error as Error).message);
+          return;
+        }
+      }
+      diagnostics.begin("banner");
+      client.connect(config);
     };
+    void dial();
+  });
+}
+
+/**
+ * Telnet and raw TCP sessions have no handshake to check beyond the TCP
+ * connection, so the test only opens (and closes) a socket to the address.
+ */
+export async function testTcpConnection(
+  input: SessionCreateInput,
+  context: TestConnectionContext
+): Promise<SessionTestConnectionResult> {
+  const host = input.host?.trim();
+  if (!host) {
+    return { ok: false, message: "Host is required." };
+  }
+  const port = input.port ?? DEFAULT_SESSION_PORTS[input.protocol ?? "ssh"];
+  let proxy: ProxyEndpoint | null;
+  try {
+    proxy = await resolveProxyEndpoint(
+      input.proxyMode,
+      input.proxyMode === "custom" && input.proxy ? normalizeProxyConfig(input.proxy) : undefined,
+      input.proxyPassword?.trim(),
+      context
+    );
+  } catch (error) {
+    return { ok: false, message: (error as Error).message };
+  }
+  const diagnostics = new ConnectionDiagnostics(`${input.protocol}://${host}:${port}`);
+  try {
+    const socket = await dialWithDiagnostics(diagnostics, proxy, host, port);
+    socket.destroy();
+  } catch (error) {
+    return diagnostics.finish(false, (error as Error).message || "Connection failed.");
   }
+  return diagnostics.finish(true, `Connection successful (port ${port} is open).`);
+}
+
+function withStage(stageLabel: string | null, message: string): string {
+  return stageLabel ? `${stageLabel}: ${message}` : message;
 }
 
-async function buildConnectConfig(input: SessionCreateInput): Promise<ConnectConfig> {
+async function buildConnectConfig(
+  input: SessionCreateInput
+): Promise<{ config: ConnectConfig; auth: AuthPlan }> {
   if (!input.host?.trim() || !input.username?.trim()) {
     throw new Error("Host and username are required.");
   }
@@ -68,35 +307,30 @@ async function buildConnectConfig(input: SessionCreateInput): Promise<ConnectCon
     username: input.username.trim(),
     readyTimeout: 10_000,
     keepaliveInterval: 15_000,
-    keepaliveCountMax: 2
+    keepaliveCountMax: 2,
+    // Sessions that allow a slower handshake are tested with their own limit.
+    ...buildSsh2TimingOptions({
+      connectTimeoutSeconds: normalizeConnectionPolicy(input.connectionPolicy)?.connectTimeoutSeconds
+    }),
+    algorithms: buildSsh2Algorithms(normalizeAlgorithmSettings(input.algorithms))
   };
 
-  if (input.authType === "password") {
-    if (!input.secret?.trim()) {
-      throw new Error("Password is required.");
-    }
-    config.password = input.secret.trim();
-    return config;
-  }
-
-  if (!input.privateKeyPath?.trim()) {
-    throw new Error("Private key path is required.");
+  if (input.agentForward) {
+    config.agent = resolveAgentSocket();
+    config.agentForward = true;
   }
 
-  const privateKeyPath = expandHomePath(input.privateKeyPath.trim());
-  config.privateKey = await readFile(privateKeyPath, "utf-8");
-
-  if (input.secret?.trim()) {
-    config.passphrase = input.secret.trim();
-  }
-
-  return config;
-}
-
-function expandHomePath(filePath: string): string {
-  if (filePath.startsWith("~/")) {
-    return join(homedir(), filePath.slice(2));
-  }
-  return filePath;
+  const auth = await buildAuthPlan({
+    username: input.username.trim(),
+    authType: input.authType,
+    fallbackAuthMethods: normalizeFallbackAuthMethods(input.fallbackAuthMethods, input.authType),
+    privateKeyPath: input.privateKeyPath,
+    certificatePath: input.certificatePath,
+    getPassword: async () =>
+      input.authType === "password" ? input.secret : input.fallbackPassword,
+    getPassphrase: async () =>
+      input.authType === "privateKey" ? input.secret : input.fallbackPassphrase
+  });
+  config.authHandler = auth.authHandler;
+  return { config, auth };
 }
-
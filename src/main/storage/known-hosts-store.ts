@@ -0,0 +1,151 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+
+import type { KnownHostEntry, KnownHostSource } from "../../shared/known-hosts.js";
+import { computeHostKeyFingerprint } from "../ssh/known-hosts-file.js";
+
+interface KnownHostsDbSchema {
+  hosts: KnownHostEntry[];
+}
+
+export interface KnownHostInput {
+  host: string;
+  port: number;
+  keyType: string;
+  publicKey: string;
+  source: KnownHostSource;
+}
+
+function compareKnownHosts(left: KnownHostEntry, right: KnownHostEntry): number {
+  const byHost = left.host.localeCompare(right.host);
+  if (byHost !== 0) {
+    return byHost;
+  }
+  if (left.port !== right.port) {
+    return left.port - right.port;
+  }
+  return left.keyType.localeCompare(right.keyType);
+}
+
+export class KnownHostsStore {
+  private readonly dbPath: string;
+  // Read-modify-write changes run one at a time so none overwrites another's entries.
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async list(): Promise<KnownHostEntry[]> {
+    const db = await this.readDb();
+    return [...db.hosts].sort(compareKnownHosts);
+  }
+
+  async findByTarget(host: string, port: number): Promise<KnownHostEntry[]> {
+    const db = await this.readDb();
+    const normalizedHost = normalizeHost(host);
+    return db.hosts.filter((entry) => entry.host === normalizedHost && entry.port === port);
+  }
+
+  add(input: KnownHostInput): Promise<KnownHostEntry> {
+    return this.enqueue(async () => {
+      const db = await this.readDb();
+      const entry = this.toEntry(input);
+      const existing = db.hosts.find((item) => isSameKey(item, entry));
+      if (existing) {
+        return existing;
+      }
+      db.hosts.push(entry);
+      await this.writeDb(db);
+      return entry;
+    });
+  }
+
+  addMany(inputs: KnownHostInput[]): Promise<{ added: number; duplicates: number }> {
+    return this.enqueue(async () => {
+      const db = await this.readDb();
+      let added = 0;
+      let duplicates = 0;
+      for (const input of inputs) {
+        const entry = this.toEntry(input);
+        if (db.hosts.some((item) => isSameKey(item, entry))) {
+          duplicates += 1;
+          continue;
+        }
+        db.hosts.push(entry);
+        added += 1;
+      }
+      if (added > 0) {
+        await this.writeDb(db);
+      }
+      return { added, duplicates };
+    });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.readDb();
+      const nextHosts = db.hosts.filter((entry) => entry.id !== id);
+      if (nextHosts.length === db.hosts.length) {
+        throw new Error("Known host entry not found");
+      }
+      db.hosts = nextHosts;
+      await this.writeDb(db);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    // A failed change rejects its own caller only; the next one still runs.
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private toEntry(input: KnownHostInput): KnownHostEntry {
+    return {
+      id: randomUUID(),
+      host: normalizeHost(input.host),
+      port: input.port,
+      keyType: input.keyType,
+      publicKey: input.publicKey,
+      fingerprint: computeHostKeyFingerprint(Buffer.from(input.publicKey, "base64")),
+      source: input.source,
+      addedAt: new Date().toISOString()
+    };
+  }
+
+  private async readDb(): Promise<KnownHostsDbSchema> {
+    try {
+      const content = await readFile(this.dbPath, "utf-8");
+      const parsed = JSON.parse(content) as KnownHostsDbSchema;
+      return {
+        hosts: Array.isArray(parsed.hosts) ? parsed.hosts : []
+      };
+    } catch (error) {
+      // The file is created by the first write; writing it here could race a queued change.
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { hosts: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async writeDb(db: KnownHostsDbSchema): Promise<void> {
+    await mkdir(dirname(this.dbPath), { recursive: true });
+    await writeFile(this.dbPath, JSON.stringify(db, null, 2), "utf-8");
+  }
+}
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase();
+}
+
+function isSameKey(left: KnownHostEntry, right: KnownHostEntry): boolean {
+  return (
+    left.host === right.host &&
+    left.port === right.port &&
+    left.keyType === right.keyType &&
+    left.publicKey === right.publicKey
+  );
+}
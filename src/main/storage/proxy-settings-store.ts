@@ -0,0 +1,73 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { GlobalProxySettings, ProxyConfig } from "../../shared/proxy.js";
+
+const EMPTY_DB: GlobalProxySettings = { enabled: false, proxy: null, hasPassword: false };
+
+export class ProxySettingsStore {
+  private readonly dbPath: string;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async get(): Promise<GlobalProxySettings> {
+    return this.readDb();
+  }
+
+  async update(patch: {
+    enabled: boolean;
+    proxy: ProxyConfig | null;
+    hasPassword?: boolean;
+  }): Promise<GlobalProxySettings> {
+    const existing = await this.readDb();
+    const proxy = patch.proxy ? normalizeProxyConfig(patch.proxy) : null;
+    const updated: GlobalProxySettings = {
+      enabled: patch.enabled && proxy !== null,
+      proxy,
+      hasPassword: patch.hasPassword ?? existing.hasPassword
+    };
+    await this.writeDb(updated);
+    return updated;
+  }
+
+  private async readDb(): Promise<GlobalProxySettings> {
+    try {
+      const content = await readFile(this.dbPath, "utf-8");
+      const parsed = JSON.parse(content) as Partial<GlobalProxySettings>;
+      return {
+        enabled: parsed.enabled === true,
+        proxy: parsed.proxy ?? null,
+        hasPassword: parsed.hasPassword === true
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        await this.writeDb(EMPTY_DB);
+        return { ...EMPTY_DB };
+      }
+      throw error;
+    }
+  }
+
+  private async writeDb(db: GlobalProxySettings): Promise<void> {
+    await mkdir(dirname(this.dbPath), { recursive: true });
+    await writeFile(this.dbPath, JSON.stringify(db, null, 2), "utf-8");
+  }
+}
+
+export function normalizeProxyConfig(proxy: ProxyConfig): ProxyConfig {
+  const host = proxy.host.trim();
+  if (!host) {
+    throw new Error("Proxy host is required.");
+  }
+  if (!Number.isInteger(proxy.port) || proxy.port <= 0 || proxy.port > 65535) {
+    throw new Error("Proxy port must be between 1 and 65535.");
+  }
+  return {
+    type: proxy.type === "http" ? "http" : "socks5",
+    host,
+    port: proxy.port,
+    username: proxy.username?.trim() || undefined
+  };
+}
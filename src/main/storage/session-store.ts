@@ -2,11 +2,32 @@ import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { dirname } from "node:path";
 import { randomUUID } from "node:crypto";
 
+import { CONNECTION_POLICY_LIMITS } from "../../shared/connection-policy.js";
 import type {
+  ConnectionPolicy,
+  ConnectionPolicyNumberField
+} from "../../shared/connection-policy.js";
+import type { ExpectRule, ExpectRuleInput } from "../../shared/expect.js";
+import type { ProxyConfig, SessionProxyMode } from "../../shared/proxy.js";
+import { DEFAULT_SESSION_PORTS, SESSION_ENCODING_LABELS } from "../../shared/session.js";
+import type {
+  SessionAuthMethod,
+  SessionAuthType,
   SessionCreateInput,
+  SessionEncoding,
+  SessionPersistence,
+  SessionProtocol,
   SessionRecord,
   SessionUpdateInput
 } from "../../shared/session.js";
+import { SSH_ALGORITHM_CATEGORIES, SSH_ALGORITHM_NAMES } from "../../shared/ssh-algorithms.js";
+import type { SshAlgorithmCategory, SshAlgorithmSettings } from "../../shared/ssh-algorithms.js";
+import type {
+  TunnelDefinition,
+  TunnelDefinitionInput,
+  TunnelKind
+} from "../../shared/tunnel.js";
+import { normalizeProxyConfig } from "./proxy-settings-store.js";
 
 interface SessionDbSchema {
   sessions: SessionRecord[];
@@ -14,6 +35,12 @@ interface SessionDbSchema {
 
 const EMPTY_DB: SessionDbSchema = { sessions: [] };
 
+const AUTH_METHODS: SessionAuthMethod[] = ["agent", "privateKey", "password", "keyboardInteractive"];
+
+const PROTOCOLS: SessionProtocol[] = ["ssh", "telnet", "raw"];
+
+const PERSISTENCE_MODES: SessionPersistence[] = ["off", "tmux", "tmuxControl", "screen"];
+
 function compareSessionRecency(left: SessionRecord, right: SessionRecord): number {
   const leftRecent = left.lastConnectedAt ?? "";
   const rightRecent = right.lastConnectedAt ?? "";
@@ -43,14 +70,33 @@ export class SessionStore {
   async create(input: SessionCreateInput): Promise<SessionRecord> {
     const db = await this.readDb();
     const now = new Date().toISOString();
+    const id = randomUUID();
+    const sessionProxy = normalizeSessionProxy(input.proxyMode, input.proxy);
+    const protocol = normalizeProtocol(input.protocol);
     const session: SessionRecord = {
-      id: randomUUID(),
+      id,
       name: input.name.trim(),
+      protocol,
       host: input.host.trim(),
-      port: input.port ?? 22,
+      port: input.port ?? DEFAULT_SESSION_PORTS[protocol ?? "ssh"],
       username: input.username.trim(),
       authType: input.authType,
+      fallbackAuthMethods: normalizeFallbackAuthMethods(input.fallbackAuthMethods, input.authType),
       privateKeyPath: input.privateKeyPath?.trim() || undefined,
+      certificatePath: input.certificatePath?.trim() || undefined,
+      agentForward: input.agentForward || undefined,
+      jumpSessionIds: normalizeJumpSessionIds(input.jumpSessionIds, id),
+      ...sessionProxy,
+      tunnels: normalizeTunnels(input.tunnels),
+      dedicatedConnection: input.dedicatedConnection || undefined,
+      algorithms: normalizeAlgorithmSettings(input.algorithms),
+      connectionPolicy: normalizeConnectionPolicy(input.connectionPolicy),
+      environment: normalizeEnvironment(input.environment),
+      startDirectory: input.startDirectory?.trim() || undefined,
+      startupCommands: normalizeStartupCommands(input.startupCommands),
+      persistence: normalizePersistence(input.persistence),
+      encoding: normalizeEncoding(input.encoding),
+      expectRules: normalizeExpectRules(input.expectRules, undefined),
       groupId: input.groupId?.trim() || undefined,
       remark: input.remark?.trim() || undefined,
       favorite: input.favorite ?? false,
@@ -78,17 +124,89 @@ export class SessionStore {
         : patch.privateKeyPath.trim() || undefined;
     const normalizedGroupId =
       patch.groupId === undefined ? existing.groupId : patch.groupId.trim() || undefined;
+    const sessionProxy =
+      patch.proxyMode === undefined && patch.proxy === undefined
+        ? { proxyMode: existing.proxyMode, proxy: existing.proxy }
+        : normalizeSessionProxy(
+            patch.proxyMode ?? existing.proxyMode,
+            patch.proxy ?? existing.proxy
+          );
     const normalizedRemark =
       patch.remark === undefined ? existing.remark : patch.remark.trim() || undefined;
+    const authType = patch.authType ?? existing.authType;
 
     const updated: SessionRecord = {
       ...existing,
       name: patch.name?.trim() ?? existing.name,
+      protocol: patch.protocol === undefined ? existing.protocol : normalizeProtocol(patch.protocol),
       host: patch.host?.trim() ?? existing.host,
       port: patch.port ?? existing.port,
       username: patch.username?.trim() ?? existing.username,
-      authType: patch.authType ?? existing.authType,
+      authType,
+      // Re-normalized on auth type changes so the new primary method drops out of the list.
+      fallbackAuthMethods: normalizeFallbackAuthMethods(
+        patch.fallbackAuthMethods ?? existing.fallbackAuthMethods,
+        authType
+      ),
+      hasFallbackPassword:
+        patch.fallbackPassword === undefined
+          ? existing.hasFallbackPassword
+          : patch.fallbackPassword.trim().length > 0 || undefined,
+      hasFallbackPassphrase:
+        patch.fallbackPassphrase === undefined
+          ? existing.hasFallbackPassphrase
+          : patch.fallbackPassphrase.trim().length > 0 || undefined,
       privateKeyPath: normalizedPrivateKeyPath,
+      certificatePath:
+        patch.certificatePath === undefined
+          ? existing.certificatePath
+          : patch.certificatePath.trim() || undefined,
+      agentForward:
+        patch.agentForward === undefined ? existing.agentForward : patch.agentForward || undefined,
+      jumpSessionIds:
+        patch.jumpSessionIds === undefined
+          ? existing.jumpSessionIds
+          : normalizeJumpSessionIds(patch.jumpSessionIds, id),
+      ...sessionProxy,
+      hasProxyPassword:
+        patch.proxyPassword === undefined
+          ? existing.hasProxyPassword
+          : patch.proxyPassword.trim().length > 0 || undefined,
+      tunnels: patch.tunnels === undefined ? existing.tunnels : normalizeTunnels(patch.tunnels),
+      dedicatedConnection:
+        patch.dedicatedConnection === undefined
+          ? existing.dedicatedConnection
+          : patch.dedicatedConnection || undefined,
+      algorithms:
+        patch.algorithms === undefined
+          ? existing.algorithms
+          : normalizeAlgorithmSettings(patch.algorithms),
+      connectionPolicy:
+        patch.connectionPolicy === undefined
+          ? existing.connectionPolicy
+          : normalizeConnectionPolicy(patch.connectionPolicy),
+      environment:
+        patch.environment === undefined
+          ? existing.environment
+          : normalizeEnvironment(patch.environment),
+      startDirectory:
+        patch.startDirectory === undefined
+          ? existing.startDirectory
+          : patch.startDirectory.trim() || undefined,
+      startupCommands:
+        patch.startupCommands === undefined
+          ? existing.startupCommands
+          : normalizeStartupCommands(patch.startupCommands),
+      persistence:
+        patch.persistence === undefined
+          ? existing.persistence
+          : normalizePersistence(patch.persistence),
+      encoding:
+        patch.encoding === undefined ? existing.encoding : normalizeEncoding(patch.encoding),
+      expectRules:
+        patch.expectRules === undefined
+          ? existing.expectRules
+          : normalizeExpectRules(patch.expectRules, existing.expectRules),
       groupId: normalizedGroupId,
       remark: normalizedRemark,
       favorite: patch.favorite ?? existing.favorite,
@@ -108,7 +226,18 @@ export class SessionStore {
     if (nextSessions.length === db.sessions.length) {
       throw new Error("Session not found");
     }
-    db.sessions = nextSessions;
+    // Drop the removed session from other sessions' jump chains.
+    db.sessions = nextSessions.map((session) =>
+      session.jumpSessionIds?.includes(id)
+        ? {
+            ...session,
+            jumpSessionIds: normalizeJumpSessionIds(
+              session.jumpSessionIds.filter((jumpId) => jumpId !== id),
+              session.id
+            )
+          }
+        : session
+    );
     await this.writeDb(db);
   }
 
@@ -149,3 +278,236 @@ export class SessionStore {
     await writeFile(this.dbPath, JSON.stringify(db, null, 2), "utf-8");
   }
 }
+
+// SSH is stored as no protocol so records written before telnet support stay as they are.
+function normalizeProtocol(protocol: SessionProtocol | undefined): SessionProtocol | undefined {
+  if (protocol === undefined || protocol === "ssh") {
+    return undefined;
+  }
+  if (!PROTOCOLS.includes(protocol)) {
+    throw new Error(`Unsupported session protocol: ${protocol}`);
+  }
+  return protocol;
+}
+
+function normalizePersistence(
+  persistence: SessionPersistence | undefined
+): SessionRecord["persistence"] {
+  if (persistence === undefined || persistence === "off") {
+    return undefined;
+  }
+  if (!PERSISTENCE_MODES.includes(persistence)) {
+    throw new Error(`Unsupported persistent terminal mode: ${persistence}`);
+  }
+  return persistence;
+}
+
+function normalizeEncoding(encoding: SessionEncoding | undefined): SessionRecord["encoding"] {
+  if (encoding === undefined || encoding === "utf-8") {
+    return undefined;
+  }
+  if (!Object.hasOwn(SESSION_ENCODING_LABELS, encoding)) {
+    throw new Error(`Unsupported character encoding: ${encoding}`);
+  }
+  return encoding;
+}
+
+function normalizeJumpSessionIds(
+  jumpSessionIds: string[] | undefined,
+  ownerId: string
+): string[] | undefined {
+  const normalized = [
+    ...new Set(
+      (jumpSessionIds ?? []).map((id) => id.trim()).filter((id) => id && id !== ownerId)
+    )
+  ];
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function normalizeSessionProxy(
+  proxyMode: SessionProxyMode | undefined,
+  proxy: ProxyConfig | undefined
+): Pick<SessionRecord, "proxyMode" | "proxy"> {
+  if (proxyMode === "direct") {
+    return { proxyMode, proxy: undefined };
+  }
+  if (proxyMode === "custom") {
+    if (!proxy) {
+      throw new Error("Proxy host is required.");
+    }
+    return { proxyMode, proxy: normalizeProxyConfig(proxy) };
+  }
+  // "global" is the default and is not stored.
+  return { proxyMode: undefined, proxy: undefined };
+}
+
+function normalizeTunnels(
+  tunnels: TunnelDefinitionInput[] | undefined
+): TunnelDefinition[] | undefined {
+  const normalized = (tunnels ?? []).map((tunnel): TunnelDefinition => {
+    const kind: TunnelKind =
+      tunnel.kind === "remote" || tunnel.kind === "dynamic" ? tunnel.kind : "local";
+    const base = {
+      id: tunnel.id || randomUUID(),
+      kind,
+      bindHost: tunnel.bindHost.trim() || "127.0.0.1",
+      bindPort: normalizeTunnelPort(tunnel.bindPort, "Tunnel listen port"),
+      autoStart: tunnel.autoStart || undefined
+    };
+    if (kind === "dynamic") {
+      return { ...base, targetHost: "", targetPort: 0 };
+    }
+    const targetHost = tunnel.targetHost.trim();
+    if (!targetHost) {
+      throw new Error("Tunnel target host is required.");
+    }
+    return {
+      ...base,
+      targetHost,
+      targetPort: normalizeTunnelPort(tunnel.targetPort, "Tunnel target port")
+    };
+  });
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+export function normalizeAlgorithmSettings(
+  settings: SshAlgorithmSettings | undefined
+): SshAlgorithmSettings | undefined {
+  // "default" is not stored.
+  if (!settings || settings.preset === "default") {
+    return undefined;
+  }
+  if (settings.preset === "legacy" || settings.preset === "modern") {
+    return { preset: settings.preset };
+  }
+  const custom: Partial<Record<SshAlgorithmCategory, string[]>> = {};
+  for (const category of SSH_ALGORITHM_CATEGORIES) {
+    const names = [
+      ...new Set((settings.custom?.[category] ?? []).map((name) => name.trim()).filter(Boolean))
+    ];
+    const unknown = names.find((name) => !SSH_ALGORITHM_NAMES[category].includes(name));
+    if (unknown) {
+      throw new Error(`Unsupported SSH algorithm: ${unknown}`);
+    }
+    if (names.length > 0) {
+      custom[category] = names;
+    }
+  }
+  return Object.keys(custom).length > 0 ? { preset: "custom", custom } : undefined;
+}
+
+export function normalizeConnectionPolicy(
+  policy: ConnectionPolicy | undefined
+): ConnectionPolicy | undefined {
+  const normalized: ConnectionPolicy = {};
+  for (const [field, limits] of Object.entries(CONNECTION_POLICY_LIMITS) as Array<
+    [ConnectionPolicyNumberField, (typeof CONNECTION_POLICY_LIMITS)[ConnectionPolicyNumberField]]
+  >) {
+    const value = policy?.[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Number.isInteger(value) || value < limits.min || value > limits.max) {
+      throw new Error(
+        `${limits.label} must be a whole number from ${limits.min} to ${limits.max}.`
+      );
+    }
+    normalized[field] = value;
+  }
+  if (
+    normalized.reconnectDelaySeconds !== undefined &&
+    normalized.reconnectMaxDelaySeconds !== undefined &&
+    normalized.reconnectMaxDelaySeconds < normalized.reconnectDelaySeconds
+  ) {
+    throw new Error("Maximum reconnect delay cannot be shorter than the reconnect delay.");
+  }
+  if (typeof policy?.autoReconnect === "boolean") {
+    normalized.autoReconnect = policy.autoReconnect;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+function normalizeEnvironment(
+  environment: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  const normalized: Record<string, string> = {};
+  for (const [rawName, value] of Object.entries(environment ?? {})) {
+    const name = rawName.trim();
+    if (!name) {
+      continue;
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    normalized[name] = value;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+export function normalizeFallbackAuthMethods(
+  methods: SessionAuthMethod[] | undefined,
+  authType: SessionAuthType
+): SessionAuthMethod[] | undefined {
+  const normalized: SessionAuthMethod[] = [];
+  for (const method of methods ?? []) {
+    if (!AUTH_METHODS.includes(method)) {
+      throw new Error(`Unsupported authentication method: ${method}`);
+    }
+    if (method !== authType && !normalized.includes(method)) {
+      normalized.push(method);
+    }
+  }
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function normalizeStartupCommands(commands: string[] | undefined): string[] | undefined {
+  const normalized = (commands ?? []).map((command) => command.trim()).filter(Boolean);
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+// Rules are never dropped: callers pair the result with the input by index to store secrets.
+function normalizeExpectRules(
+  rules: ExpectRuleInput[] | undefined,
+  existing: ExpectRule[] | undefined
+): ExpectRule[] | undefined {
+  const normalized = (rules ?? []).map((rule, index): ExpectRule => {
+    const label = `Expect rule ${index + 1}`;
+    if (!rule.pattern) {
+      throw new Error(`${label}: pattern is required.`);
+    }
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      throw new Error(`${label}: ${(error as Error).message}`);
+    }
+    if (
+      !Number.isInteger(rule.timeoutSeconds) ||
+      rule.timeoutSeconds < 1 ||
+      rule.timeoutSeconds > 600
+    ) {
+      throw new Error(`${label}: timeout must be between 1 and 600 seconds.`);
+    }
+    const id = rule.id || randomUUID();
+    const sendSecret = rule.sendSecret === true;
+    const previous = existing?.find((item) => item.id === id);
+    const hasSecret =
+      rule.secret === undefined ? previous?.hasSecret : rule.secret.trim().length > 0;
+    return {
+      id,
+      pattern: rule.pattern,
+      send: sendSecret ? "" : rule.send,
+      sendSecret: sendSecret || undefined,
+      hasSecret: (sendSecret && hasSecret) || undefined,
+      pressEnter: rule.pressEnter !== false,
+      timeoutSeconds: rule.timeoutSeconds
+    };
+  });
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function normalizeTunnelPort(port: number, label: string): number {
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`${label} must be between 1 and 65535.`);
+  }
+  return port;
+}
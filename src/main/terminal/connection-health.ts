@@ -0,0 +1,102 @@
+import type { TerminalHealth } from "../../shared/terminal.js";
+
+const SAMPLE_INTERVAL_MS = 3_000;
+// An unanswered probe older than this marks the connection as stalled.
+const STALL_AFTER_MS = 5_000;
+
+export interface HealthProbe {
+  /** Sends one probe and calls `onReply` when the peer answers; false if it could not be sent. */
+  send(onReply: () => void): boolean;
+  giveUpAfterMs?: number;
+}
+
+/**
+ * Samples one terminal connection: byte counts and rates always, and round-trip
+ * time when the transport can be probed. Samples that would not change what a
+ * tab shows are not reported.
+ */
+export class ConnectionHealthMonitor {
+  private bytesIn = 0;
+  private bytesOut = 0;
+  private sampledIn = 0;
+  private sampledOut = 0;
+  private sampledAt = Date.now();
+  private rttMs: number | undefined;
+  private probeSentAt: number | undefined;
+  private lastReport = "";
+  private readonly timer: ReturnType<typeof setInterval>;
+  private stopped = false;
+
+  constructor(
+    private readonly report: (health: TerminalHealth) => void,
+    private readonly probe?: HealthProbe
+  ) {
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    this.sendProbe();
+  }
+
+  noteReceived(bytes: number): void {
+    this.bytesIn += bytes;
+  }
+
+  noteSent(bytes: number): void {
+    this.bytesOut += bytes;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearInterval(this.timer);
+  }
+
+  private sendProbe(): void {
+    if (!this.probe || this.probeSentAt !== undefined) {
+      return;
+    }
+    const sentAt = Date.now();
+    const sent = this.probe.send(() => {
+      if (this.stopped || this.probeSentAt !== sentAt) {
+        return;
+      }
+      const wasStalled = Date.now() - sentAt >= STALL_AFTER_MS;
+      this.rttMs = Date.now() - sentAt;
+      this.probeSentAt = undefined;
+      // Clear the stalled warning right away instead of at the next sample.
+      if (wasStalled) {
+        this.sample();
+      }
+    });
+    if (sent) {
+      this.probeSentAt = sentAt;
+    }
+  }
+
+  private sample(): void {
+    if (this.stopped) {
+      return;
+    }
+    const now = Date.now();
+    const seconds = Math.max((now - this.sampledAt) / 1000, 0.001);
+    const pendingFor = this.probeSentAt === undefined ? 0 : now - this.probeSentAt;
+    const stalled = pendingFor >= STALL_AFTER_MS;
+    const health: TerminalHealth = {
+      rttMs: this.rttMs,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      inRate: Math.round((this.bytesIn - this.sampledIn) / seconds),
+      outRate: Math.round((this.bytesOut - this.sampledOut) / seconds),
+      ...(stalled
+        ? { stalledForMs: pendingFor, giveUpAfterMs: this.probe?.giveUpAfterMs }
+        : {})
+    };
+    this.sampledIn = this.bytesIn;
+    this.sampledOut = this.bytesOut;
+    this.sampledAt = now;
+
+    const key = JSON.stringify(health);
+    if (key !== this.lastReport) {
+      this.lastReport = key;
+      this.report(health);
+    }
+    this.sendProbe();
+  }
+}
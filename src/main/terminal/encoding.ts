@@ -0,0 +1,68 @@
+import type { SessionEncoding } from "../../shared/session.js";
+
+export interface TerminalDecoder {
+  // Holds back a character split across chunks until the rest of it arrives.
+  write(chunk: Buffer): string;
+}
+
+// Per charset: the bytes of every character it can represent outside ASCII.
+const encodeTables = new Map<SessionEncoding, Map<string, number[]>>();
+
+export function createTerminalDecoder(encoding: SessionEncoding = "utf-8"): TerminalDecoder {
+  const decoder = new TextDecoder(encoding);
+  return {
+    write: (chunk) => decoder.decode(chunk, { stream: true })
+  };
+}
+
+export function decodeTerminalText(bytes: Buffer, encoding: SessionEncoding = "utf-8"): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/** Keyboard input in the session's charset; characters it cannot represent become "?". */
+export function encodeTerminalInput(data: string, encoding: SessionEncoding = "utf-8"): Buffer {
+  if (encoding === "utf-8") {
+    return Buffer.from(data, "utf-8");
+  }
+  const table = getEncodeTable(encoding);
+  const bytes: number[] = [];
+  for (const char of data) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else {
+      bytes.push(...(table.get(char) ?? [0x3f]));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * The platform only ships decoders for legacy charsets, so the encoder is the
+ * decoder run backwards over every one- and two-byte sequence. Built on first
+ * use; the first sequence decoding to a character wins.
+ */
+function getEncodeTable(encoding: SessionEncoding): Map<string, number[]> {
+  const cached = encodeTables.get(encoding);
+  if (cached) {
+    return cached;
+  }
+  const table = new Map<string, number[]>();
+  const decoder = new TextDecoder(encoding);
+  const add = (bytes: number[]) => {
+    const text = decoder.decode(Uint8Array.from(bytes));
+    if ([...text].length === 1 && text !== "\ufffd" && !table.has(text)) {
+      table.set(text, bytes);
+    }
+  };
+  for (let byte = 0x80; byte <= 0xff; byte += 1) {
+    add([byte]);
+  }
+  for (let lead = 0x81; lead <= 0xfe; lead += 1) {
+    for (let trail = 0x40; trail <= 0xfe; trail += 1) {
+      add([lead, trail]);
+    }
+  }
+  encodeTables.set(encoding, table);
+  return table;
+}
@@ -0,0 +1,124 @@
+import type { ExpectRule } from "../../shared/expect.js";
+import type { CredentialStore } from "../security/credential-store.js";
+
+// Output kept for matching; prompts are short, so older text only slows the regex down.
+const MAX_BUFFERED_CHARS = 8 * 1024;
+// CSI / OSC sequences and lone escapes, so patterns see what the user sees.
+const ANSI_ESCAPE_PATTERN =
+  /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-_]/g;
+
+// Rule secrets share the CredentialStore with session secrets under prefixed ids.
+export function toExpectRuleSecretId(sessionId: string, ruleId: string): string {
+  return `expect:${sessionId}:${ruleId}`;
+}
+
+export interface ExpectRunnerOptions {
+  sessionId: string;
+  rules: ExpectRule[];
+  credentialStore: CredentialStore;
+  // Writes a response into the shell.
+  send: (data: string) => void;
+  // Prints a status line in the tab.
+  notify: (message: string) => void;
+}
+
+/**
+ * Walks a session's expect rules in order over one shell's output: waits for
+ * the current rule's pattern, answers, then moves on to the next rule.
+ */
+export class ExpectRunner {
+  private readonly options: ExpectRunnerOptions;
+  private index = 0;
+  private buffer = "";
+  private responding = false;
+  private done = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: ExpectRunnerOptions) {
+    this.options = options;
+    this.done = options.rules.length === 0;
+    this.armTimeout();
+  }
+
+  feed(chunk: string): void {
+    if (this.done) {
+      return;
+    }
+    this.buffer = (this.buffer + chunk.replace(ANSI_ESCAPE_PATTERN, "")).slice(-MAX_BUFFERED_CHARS);
+    this.evaluate();
+  }
+
+  dispose(): void {
+    this.done = true;
+    clearTimeout(this.timer);
+  }
+
+  private evaluate(): void {
+    if (this.done || this.responding) {
+      return;
+    }
+    const rule = this.options.rules[this.index];
+    let match: RegExpExecArray | null;
+    try {
+      match = new RegExp(rule.pattern).exec(this.buffer);
+    } catch (error) {
+      this.stop(`Rule ${this.index + 1} has an invalid pattern: ${(error as Error).message}`);
+      return;
+    }
+    if (!match) {
+      return;
+    }
+    clearTimeout(this.timer);
+    // Later rules only see output that arrived after this match.
+    this.buffer = this.buffer.slice(match.index + match[0].length);
+    this.responding = true;
+    void this.respond(rule);
+  }
+
+  private async respond(rule: ExpectRule): Promise<void> {
+    let response = rule.send;
+    if (rule.sendSecret) {
+      const secret = await this.options.credentialStore
+        .getSessionSecret(toExpectRuleSecretId(this.options.sessionId, rule.id))
+        .catch(() => null);
+      if (this.done) {
+        return;
+      }
+      if (!secret) {
+        this.stop(`Secret for rule ${this.index + 1} not found in secure storage.`);
+        return;
+      }
+      response = secret;
+    }
+    if (this.done) {
+      return;
+    }
+    this.options.send(rule.pressEnter ? `${response}\r` : response);
+    this.responding = false;
+    this.index += 1;
+    if (this.index >= this.options.rules.length) {
+      this.dispose();
+      return;
+    }
+    this.armTimeout();
+    this.evaluate();
+  }
+
+  private armTimeout(): void {
+    if (this.done) {
+      return;
+    }
+    const rule = this.options.rules[this.index];
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.stop(
+        `Rule ${this.index + 1} timed out after ${rule.timeoutSeconds}s waiting for /${rule.pattern}/; remaining rules skipped.`
+      );
+    }, rule.timeoutSeconds * 1000);
+  }
+
+  private stop(message: string): void {
+    this.dispose();
+    this.options.notify(message);
+  }
+}
@@ -0,0 +1,113 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import type { Stats } from "node:fs";
+import { lstat, mkdir, readdir, realpath, rename, rmdir, stat, unlink } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { Attributes, FileEntry } from "ssh2";
+
+type Callback<T> = (error: Error | undefined, value: T) => void;
+type DoneCallback = (error?: Error | null) => void;
+
+/** The part of ssh2's SFTPWrapper behind the SFTP panel; local tabs get a disk-backed one. */
+export interface FileChannel {
+  realpath(path: string, callback: Callback<string>): void;
+  stat(path: string, callback: Callback<Attributes>): void;
+  readdir(path: string, callback: Callback<FileEntry[]>): void;
+  mkdir(path: string, callback: DoneCallback): void;
+  rename(sourcePath: string, targetPath: string, callback: DoneCallback): void;
+  unlink(path: string, callback: DoneCallback): void;
+  rmdir(path: string, callback: DoneCallback): void;
+  createReadStream(path: string): NodeJS.ReadableStream;
+  createWriteStream(path: string): NodeJS.WritableStream;
+  end(): void;
+}
+
+/**
+ * Serves the SFTP panel of local shell tabs from this machine's disk. Paths use
+ * forward slashes like remote ones, and "." is the home directory as over SFTP.
+ */
+export class LocalFileChannel implements FileChannel {
+  realpath(path: string, callback: Callback<string>): void {
+    settle(realpath(toLocalPath(path)).then(toPanelPath), callback);
+  }
+
+  stat(path: string, callback: Callback<Attributes>): void {
+    settle(stat(toLocalPath(path)).then(toAttributes), callback);
+  }
+
+  readdir(path: string, callback: Callback<FileEntry[]>): void {
+    const directory = toLocalPath(path);
+    const listing = readdir(directory).then((names) =>
+      Promise.all(
+        names.map(async (filename) => {
+          const stats = await lstat(join(directory, filename));
+          // Mirrors the first columns of `ls -l` so the link count parses like remote rows.
+          return { filename, longname: `- ${stats.nlink}`, attrs: toAttributes(stats) };
+        })
+      )
+    );
+    settle(listing, callback);
+  }
+
+  mkdir(path: string, callback: DoneCallback): void {
+    settle(mkdir(toLocalPath(path)), callback);
+  }
+
+  rename(sourcePath: string, targetPath: string, callback: DoneCallback): void {
+    settle(rename(toLocalPath(sourcePath), toLocalPath(targetPath)), callback);
+  }
+
+  unlink(path: string, callback: DoneCallback): void {
+    settle(unlink(toLocalPath(path)), callback);
+  }
+
+  rmdir(path: string, callback: DoneCallback): void {
+    settle(rmdir(toLocalPath(path)), callback);
+  }
+
+  createReadStream(path: string): NodeJS.ReadableStream {
+    return createReadStream(toLocalPath(path));
+  }
+
+  createWriteStream(path: string): NodeJS.WritableStream {
+    return createWriteStream(toLocalPath(path));
+  }
+
+  end(): void {
+    // Nothing to release; every call opens and closes its own handles.
+  }
+}
+
+function settle<T>(promise: Promise<T>, callback: Callback<T>): void {
+  promise.then(
+    (value) => callback(undefined, value),
+    // Like ssh2, errors come without a value.
+    (error: Error) => callback(error, undefined as T)
+  );
+}
+
+function toLocalPath(path: string): string {
+  if (path === "." || path === "~") {
+    return homedir();
+  }
+  if (path.startsWith("~/")) {
+    return join(homedir(), path.slice(2));
+  }
+  return path;
+}
+
+function toPanelPath(path: string): string {
+  return process.platform === "win32" ? path.replace(/\\/g, "/") : path;
+}
+
+function toAttributes(stats: Stats): Attributes {
+  return {
+    mode: stats.mode,
+    uid: stats.uid,
+    gid: stats.gid,
+    size: stats.size,
+    atime: Math.floor(stats.atimeMs / 1000),
+    mtime: Math.floor(stats.mtimeMs / 1000)
+  };
+}
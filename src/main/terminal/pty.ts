@@ -0,0 +1,68 @@
+import type { IPty, IPtyForkOptions } from "node-pty";
+
+type PtyModule = {
+  spawn(file: string, args: string[], options: IPtyForkOptions): IPty;
+};
+
+let loadedPty: Promise<PtyModule> | undefined;
+
+// node-pty is a native module; load it on first use so a broken build only affects PTY tabs.
+async function loadPty(): Promise<PtyModule> {
+  loadedPty ??= import("node-pty")
+    .then(
+      (loadedModule) =>
+        (("default" in loadedModule ? loadedModule.default : loadedModule) as unknown) as PtyModule
+    )
+    .catch((error: Error) => {
+      loadedPty = undefined;
+      throw new Error(`Pseudo-terminal support (node-pty) failed to load: ${error.message}`);
+    });
+  return loadedPty;
+}
+
+export interface PtySpawnOptions {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  cols?: number;
+  rows?: number;
+  // null hands output over as raw bytes and writes Buffers as they are.
+  encoding?: null;
+}
+
+/** Starts `file` under a pseudo-terminal sized like a freshly opened ssh2 shell. */
+export async function spawnPty(
+  file: string,
+  args: string[],
+  options: PtySpawnOptions = {}
+): Promise<IPty> {
+  const pty = await loadPty();
+  return pty.spawn(file, args, {
+    name: "xterm-256color",
+    cols: options.cols ?? 120,
+    rows: options.rows ?? 36,
+    cwd: options.cwd ?? process.cwd(),
+    env: options.env ?? process.env,
+    ...(options.encoding === null ? { encoding: null } : {})
+  });
+}
+
+export interface LoginShell {
+  file: string;
+  args: string[];
+  env: Record<string, string | undefined>;
+}
+
+/** The user's shell started as a login shell, so local tabs get the PATH a terminal app would. */
+export function resolveLoginShell(): LoginShell {
+  const env = {
+    ...process.env,
+    COLORTERM: "truecolor",
+    TERM_PROGRAM: "TermDock",
+    // Apps launched from the Finder or Start menu often have no locale set.
+    LANG: process.env.LANG || "en_US.UTF-8"
+  };
+  if (process.platform === "win32") {
+    return { file: "powershell.exe", args: ["-NoLogo"], env };
+  }
+  return { file: process.env.SHELL || "/bin/sh", args: ["-l"], env };
+}
@@ -0,0 +1,105 @@
+import type { SessionPersistence, SessionRecord } from "../../shared/session.js";
+
+/**
+ * Keystrokes typed into a freshly opened shell: change to the session's start
+ * directory, then run each startup command. Empty when there is nothing to run.
+ */
+export function buildShellStartupInput(session: SessionRecord): string {
+  const lines: string[] = [];
+  if (session.startDirectory) {
+    lines.push(`cd -- ${quoteRemotePath(session.startDirectory)}`);
+  }
+  lines.push(...(session.startupCommands ?? []));
+  return lines.map((line) => `${line}\r`).join("");
+}
+
+// Exit status of the persistent shell command when its tool is not installed.
+export const PERSISTENCE_MISSING_EXIT_CODE = 127;
+
+/**
+ * The remote command of a persistent tab: attach to its named tmux or screen
+ * session, creating it first when needed. The start directory and startup
+ * commands only apply on creation, so reattaching does not rerun them.
+ */
+export function buildPersistentShellCommand(
+  session: SessionRecord,
+  mode: Exclude<SessionPersistence, "off">,
+  name: string
+): string {
+  const tool = getPersistenceTool(mode);
+  const quotedName = quoteShellWord(name);
+  const lines = [
+    `if ! command -v ${tool} >/dev/null 2>&1; then`,
+    `  printf '%s\\r\\n' '[persistent] ${tool} is not installed on this host.'`,
+    `  exit ${PERSISTENCE_MISSING_EXIT_CODE}`,
+    "fi"
+  ];
+  const commands = session.startupCommands ?? [];
+  if (tool === "tmux") {
+    // "=" makes tmux match the name exactly instead of as a prefix.
+    const target = quoteShellWord(`=${name}`);
+    const paneTarget = quoteShellWord(`=${name}:`);
+    lines.push(`if ! tmux has-session -t ${target} 2>/dev/null; then`);
+    if (session.startDirectory) {
+      lines.push(`  cd -- ${quoteRemotePath(session.startDirectory)}`);
+    }
+    lines.push(`  tmux new-session -d -s ${quotedName}`);
+    for (const command of commands) {
+      lines.push(`  tmux send-keys -t ${paneTarget} -l ${quoteShellWord(command)}`);
+      lines.push(`  tmux send-keys -t ${paneTarget} Enter`);
+    }
+    lines.push("fi");
+    // -d detaches clients left behind by a dropped connection, so the window takes this size.
+    // Control mode talks over the channel's stdin and stdout, so it needs no terminal.
+    lines.push(`exec tmux${mode === "tmuxControl" ? " -C" : ""} attach-session -d -t ${target}`);
+  } else {
+    lines.push(`if ! screen -ls | grep -q ${quoteShellWord(`[.]${name}[[:space:]]`)}; then`);
+    if (session.startDirectory) {
+      lines.push(`  cd -- ${quoteRemotePath(session.startDirectory)}`);
+    }
+    lines.push(`  screen -dmS ${quotedName}`);
+    for (const command of commands) {
+      lines.push(`  screen -S ${quotedName} -X stuff ${quoteShellWord(`${command}\n`)}`);
+    }
+    lines.push("fi");
+    lines.push(`exec screen -d -r ${quotedName}`);
+  }
+  // Run by sh so login shells such as fish read it the same way.
+  return `sh -c ${quoteShellWord(lines.join("\n"))}`;
+}
+
+export function getPersistenceTool(mode: Exclude<SessionPersistence, "off">): "tmux" | "screen" {
+  return mode === "screen" ? "screen" : "tmux";
+}
+
+/**
+ * `-o SetEnv=...` for the system ssh fallback. OpenSSH keeps only the first
+ * SetEnv it sees, so all variables go into one option.
+ */
+export function buildNativeEnvironmentOptions(
+  environment: Record<string, string> | undefined
+): string[] {
+  const entries = Object.entries(environment ?? {});
+  if (entries.length === 0) {
+    return [];
+  }
+  const assignments = entries.map(
+    ([name, value]) => `${name}="${value.replace(/["\\]/g, "\\$&")}"`
+  );
+  return ["-o", `SetEnv=${assignments.join(" ")}`];
+}
+
+// Quotes for POSIX shells while keeping a leading "~" expandable.
+function quoteRemotePath(remotePath: string): string {
+  if (remotePath === "~") {
+    return remotePath;
+  }
+  if (remotePath.startsWith("~/")) {
+    return `~/${quoteShellWord(remotePath.slice(2))}`;
+  }
+  return quoteShellWord(remotePath);
+}
+
+function quoteShellWord(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,196 @@
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+
+const OPTION_BINARY = 0;
+const OPTION_ECHO = 1;
+const OPTION_SUPPRESS_GO_AHEAD = 3;
+const OPTION_TERMINAL_TYPE = 24;
+const OPTION_WINDOW_SIZE = 31;
+
+const TERMINAL_TYPE_IS = 0;
+const TERMINAL_TYPE_SEND = 1;
+
+// Options this client performs when asked (DO) and lets the server perform (WILL).
+const LOCAL_OPTIONS = new Set([
+  OPTION_BINARY,
+  OPTION_SUPPRESS_GO_AHEAD,
+  OPTION_TERMINAL_TYPE,
+  OPTION_WINDOW_SIZE
+]);
+const REMOTE_OPTIONS = new Set([OPTION_BINARY, OPTION_ECHO, OPTION_SUPPRESS_GO_AHEAD]);
+
+type ParserState = "data" | "command" | "option" | "subnegotiation" | "subnegotiationCommand";
+
+/**
+ * The client side of the telnet protocol (RFC 854) for terminal tabs: strips
+ * commands from received bytes, answers option negotiation, reports the
+ * terminal type and window size, and escapes outgoing keystrokes. Options are
+ * only acknowledged when their state changes, so negotiation cannot loop.
+ */
+export class TelnetProtocol {
+  private state: ParserState = "data";
+  private command = 0;
+  private subnegotiation: number[] = [];
+  private afterCarriageReturn = false;
+  private readonly localEnabled = new Set<number>();
+  private readonly remoteEnabled = new Set<number>();
+
+  constructor(
+    private readonly send: (data: Buffer) => void,
+    private readonly terminalType: string,
+    private cols: number,
+    private rows: number
+  ) {}
+
+  /** Returns the data bytes of a received chunk; commands in it are handled. */
+  receive(chunk: Buffer): Buffer {
+    const data: number[] = [];
+    for (const byte of chunk) {
+      switch (this.state) {
+        case "data":
+          if (byte === IAC) {
+            this.state = "command";
+          } else if (
+            byte === 0 &&
+            this.afterCarriageReturn &&
+            !this.remoteEnabled.has(OPTION_BINARY)
+          ) {
+            // A bare carriage return arrives as CR NUL.
+            this.afterCarriageReturn = false;
+          } else {
+            this.afterCarriageReturn = byte === 13;
+            data.push(byte);
+          }
+          break;
+        case "command":
+          this.state = "data";
+          if (byte === IAC) {
+            this.afterCarriageReturn = false;
+            data.push(IAC);
+          } else if (byte === DO || byte === DONT || byte === WILL || byte === WONT) {
+            this.command = byte;
+            this.state = "option";
+          } else if (byte === SB) {
+            this.subnegotiation = [];
+            this.state = "subnegotiation";
+          }
+          // NOP, GA, DM and the other bare commands carry nothing for a terminal.
+          break;
+        case "option":
+          this.state = "data";
+          this.negotiate(this.command, byte);
+          break;
+        case "subnegotiation":
+          if (byte === IAC) {
+            this.state = "subnegotiationCommand";
+          } else {
+            this.subnegotiation.push(byte);
+          }
+          break;
+        case "subnegotiationCommand":
+          if (byte === IAC) {
+            this.subnegotiation.push(IAC);
+            this.state = "subnegotiation";
+          } else {
+            this.state = "data";
+            if (byte === SE) {
+              this.handleSubnegotiation(this.subnegotiation);
+            }
+          }
+          break;
+      }
+    }
+    return Buffer.from(data);
+  }
+
+  /** Escapes typed bytes for the wire: IAC is doubled and a bare CR becomes CR NUL. */
+  encode(input: Buffer): Buffer {
+    const binary = this.localEnabled.has(OPTION_BINARY);
+    const data: number[] = [];
+    for (const [index, byte] of input.entries()) {
+      data.push(byte);
+      if (byte === IAC) {
+        data.push(IAC);
+      } else if (byte === 13 && !binary && input[index + 1] !== 10) {
+        data.push(0);
+      }
+    }
+    return Buffer.from(data);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.cols = cols;
+    this.rows = rows;
+    if (this.localEnabled.has(OPTION_WINDOW_SIZE)) {
+      this.sendWindowSize();
+    }
+  }
+
+  private negotiate(command: number, option: number): void {
+    switch (command) {
+      case DO:
+        if (!LOCAL_OPTIONS.has(option)) {
+          this.sendCommand(WONT, option);
+        } else if (!this.localEnabled.has(option)) {
+          this.localEnabled.add(option);
+          this.sendCommand(WILL, option);
+          if (option === OPTION_WINDOW_SIZE) {
+            this.sendWindowSize();
+          }
+        }
+        break;
+      case DONT:
+        if (this.localEnabled.delete(option)) {
+          this.sendCommand(WONT, option);
+        }
+        break;
+      case WILL:
+        if (!REMOTE_OPTIONS.has(option)) {
+          this.sendCommand(DONT, option);
+        } else if (!this.remoteEnabled.has(option)) {
+          this.remoteEnabled.add(option);
+          this.sendCommand(DO, option);
+        }
+        break;
+      case WONT:
+        if (this.remoteEnabled.delete(option)) {
+          this.sendCommand(DONT, option);
+        }
+        break;
+    }
+  }
+
+  private handleSubnegotiation(bytes: number[]): void {
+    if (
+      bytes[0] === OPTION_TERMINAL_TYPE &&
+      bytes[1] === TERMINAL_TYPE_SEND &&
+      this.localEnabled.has(OPTION_TERMINAL_TYPE)
+    ) {
+      this.sendSubnegotiation(OPTION_TERMINAL_TYPE, [
+        TERMINAL_TYPE_IS,
+        ...Buffer.from(this.terminalType, "ascii")
+      ]);
+    }
+  }
+
+  private sendWindowSize(): void {
+    const cols = Math.min(Math.max(this.cols, 0), 0xffff);
+    const rows = Math.min(Math.max(this.rows, 0), 0xffff);
+    this.sendSubnegotiation(OPTION_WINDOW_SIZE, [cols >> 8, cols & 0xff, rows >> 8, rows & 0xff]);
+  }
+
+  private sendCommand(command: number, option: number): void {
+    this.send(Buffer.from([IAC, command, option]));
+  }
+
+  private sendSubnegotiation(option: number, payload: number[]): void {
+    // Payload bytes of 255 (e.g. a window 255 columns wide) are doubled like data.
+    const escaped = payload.flatMap((byte) => (byte === IAC ? [IAC, IAC] : [byte]));
+    this.send(Buffer.from([IAC, SB, option, ...escaped, IAC, SE]));
+  }
+}
@@ -1,27 +1,27 @@
-import type { ChildProcessWithoutNullStreams } from "node:child_process";
-import { spawn } from "node:child_process";
 import { createReadStream, createWriteStream } from "node:fs";
 import {
   mkdir as mkdirLocalDirectory,
-  readFile,
   stat as statLocalFile,
   unlink as unlinkLocalFile
 } from "node:fs/promises";
+import type { Socket } from "node:net";
 import { homedir } from "node:os";
 import { basename as basenamePath, dirname as dirnamePath, join as joinPath } from "node:path";
 import { posix as posixPath } from "node:path";
 
 import type { WebContents } from "electron";
+import type { IPty } from "node-pty";
 import { Client } from "ssh2";
 import type {
   Attributes,
   ClientChannel,
   ConnectConfig,
-  FileEntryWithStats,
+  FileEntry,
   SFTPWrapper
 } from "ssh2";
 
-import type { SessionRecord } from "../../shared/session.js";
+import { resolveConnectionPolicy } from "../../shared/connection-policy.js";
+import type { SessionEncoding, SessionRecord } from "../../shared/session.js";
 import type {
   SftpDirectoryListResult,
   SftpEntry,
@@ -29,31 +29,126 @@ import type {
   SftpTransferDirection,
   SftpTransferEvent
 } from "../../shared/sftp.js";
-import type { TerminalEvent } from "../../shared/terminal.js";
+import type { TerminalConnectOptions, TerminalEvent } from "../../shared/terminal.js";
 import type { CredentialStore } from "../security/credential-store.js";
+import { buildNativeAlgorithmOptions, describeAlgorithmMismatch } from "../ssh/algorithms.js";
+import type { AskpassBroker, AskpassRegistration } from "../ssh/askpass.js";
+import { buildNativeAuthOptions } from "../ssh/auth-methods.js";
+import type { AuthPlan } from "../ssh/auth-methods.js";
+import { checkSessionCertificate } from "../ssh/certificate.js";
+import { buildNativeTimingOptions } from "../ssh/connection-policy.js";
+import type { HostKeyVerifier } from "../ssh/host-key-verifier.js";
+import {
+  buildJumpHops,
+  closeJumpClients,
+  openJumpChain,
+  resolveJumpSessions
+} from "../ssh/jump-chain.js";
+import type { JumpHop } from "../ssh/jump-chain.js";
+import { AuthCancelledError } from "../ssh/keyboard-interactive.js";
+import type { KeyboardInteractivePrompter } from "../ssh/keyboard-interactive.js";
+import { openNativeSftp } from "../ssh/native-sftp.js";
+import {
+  connectThroughProxy,
+  formatProxyLabel,
+  openSessionSocket,
+  resolveSessionProxyEndpoint
+} from "../ssh/proxy.js";
+import type { ProxyEndpoint } from "../ssh/proxy.js";
+import { suspendReadyTimeout } from "../ssh/ready-timeout.js";
+import { buildSessionConnectConfig, resolveSessionSecretIds } from "../ssh/session-config.js";
+import type { ProxySettingsStore } from "../storage/proxy-settings-store.js";
 import { SessionStore } from "../storage/session-store.js";
+import { ConnectionHealthMonitor } from "./connection-health.js";
+import type { HealthProbe } from "./connection-health.js";
+import { createTerminalDecoder, encodeTerminalInput } from "./encoding.js";
+import { ExpectRunner } from "./expect-runner.js";
+import { LocalFileChannel } from "./local-files.js";
+import type { FileChannel } from "./local-files.js";
+import { resolveLoginShell, spawnPty } from "./pty.js";
+import {
+  PERSISTENCE_MISSING_EXIT_CODE,
+  buildNativeEnvironmentOptions,
+  buildPersistentShellCommand,
+  buildShellStartupInput,
+  getPersistenceTool
+} from "./shell-startup.js";
+import { TelnetProtocol } from "./telnet.js";
+import { TmuxControlSession } from "./tmux-control.js";
 
 interface BaseTerminalConnection {
   tabId: string;
   sender: WebContents;
-  mode: "ssh2" | "native";
+  mode: "ssh2" | "native" | "local" | "telnet" | "raw";
+  closed: boolean;
+  expect?: ExpectRunner;
+  sftp?: FileChannel;
+  // Started once connected; local shells have none.
+  health?: ConnectionHealthMonitor;
+  // Charset of the remote terminal; unset means UTF-8.
+  encoding?: SessionEncoding;
+}
+
+// One ssh2 client and the tabs running shells on it. Unless the session opts out,
+// tabs of the same session share a link so only the first one authenticates.
+interface Ssh2ClientLink {
+  sessionId: string;
+  client: Client;
+  // Bastion clients carrying `client`'s socket, first hop first.
+  jumpClients: Client[];
+  proxied: boolean;
+  shared: boolean;
+  ready: boolean;
   closed: boolean;
+  // Auth method that let the link in, shown in the status of every tab on it.
+  authMethod?: string;
+  // How long ssh2's keepalive waits on a silent server before ending the link.
+  keepaliveGiveUpMs?: number;
+  tabs: Set<Ssh2TerminalConnection>;
 }
 
 interface Ssh2TerminalConnection extends BaseTerminalConnection {
   mode: "ssh2";
   client: Client;
+  link: Ssh2ClientLink;
   shell?: ClientChannel;
-  sftp?: SFTPWrapper;
   fallbackTried: boolean;
+  // Name of the remote tmux or screen session the tab attaches to.
+  persistentName?: string;
+  // Set on tabs showing a tmux window, including the control tab whose channel carries them.
+  tmux?: TmuxControlSession;
 }
 
+// System ssh running under a pseudo-terminal; SFTP goes through a second ssh process.
 interface NativeTerminalConnection extends BaseTerminalConnection {
   mode: "native";
-  process: ChildProcessWithoutNullStreams;
+  session: SessionRecord;
+  pty: IPty;
+  // Options shared by the shell and SFTP processes; the destination comes after them.
+  sshOptions: string[];
+  destination: string;
+  persistentName?: string;
 }
 
-type TerminalConnection = Ssh2TerminalConnection | NativeTerminalConnection;
+// A login shell on this machine; its SFTP panel browses the local disk.
+interface LocalTerminalConnection extends BaseTerminalConnection {
+  mode: "local";
+  pty: IPty;
+}
+
+// A telnet or raw TCP session: the socket carries the terminal stream directly.
+interface SocketTerminalConnection extends BaseTerminalConnection {
+  mode: "telnet" | "raw";
+  // Unset while the socket (or its proxy handshake) is still connecting.
+  socket?: Socket;
+  telnet?: TelnetProtocol;
+}
+
+type TerminalConnection =
+  | Ssh2TerminalConnection
+  | NativeTerminalConnection
+  | LocalTerminalConnection
+  | SocketTerminalConnection;
 
 interface ActiveUploadTransfer {
   tabId: string;
@@ -80,17 +175,37 @@ class TransferCanceledError extends Error {
   }
 }
 
+export interface TerminalLifecycleListener {
+  onSsh2Ready(tabId: string, session: SessionRecord, client: Client, sender: WebContents): void;
+  onClosed(tabId: string): void;
+}
+
 export class TerminalService {
   private readonly connections = new Map<string, TerminalConnection>();
+  private readonly sharedLinks = new Map<string, Ssh2ClientLink>();
+  private readonly lifecycleListeners: TerminalLifecycleListener[] = [];
   private readonly activeUploadTransfers = new Map<string, ActiveUploadTransfer>();
   private readonly activeDownloadTransfers = new Map<string, ActiveDownloadTransfer>();
 
   constructor(
     private readonly sessionStore: SessionStore,
-    private readonly credentialStore: CredentialStore
+    private readonly credentialStore: CredentialStore,
+    private readonly hostKeyVerifier: HostKeyVerifier,
+    private readonly proxySettingsStore: ProxySettingsStore,
+    private readonly keyboardInteractive: KeyboardInteractivePrompter,
+    private readonly askpass: AskpassBroker
   ) {}
 
-  async connect(tabId: string, sessionId: string, sender: WebContents): Promise<void> {
+  addLifecycleListener(listener: TerminalLifecycleListener): void {
+    this.lifecycleListeners.push(listener);
+  }
+
+  async connect(
+    tabId: string,
+    sessionId: string,
+    sender: WebContents,
+    options: TerminalConnectOptions = {}
+  ): Promise<void> {
     await this.close(tabId);
 
     const session = await this.sessionStore.getById(sessionId);
@@ -104,116 +219,642 @@ export class TerminalService {
       status: "connecting"
     });
 
-    await this.connectViaSsh2(tabId, session, sender);
+    if (session.protocol) {
+      await this.connectViaSocket(tabId, session, sender);
+      return;
+    }
+
+    const certificateWarning = await checkSessionCertificate(session);
+    if (certificateWarning) {
+      this.emit(sender, {
+        tabId,
+        type: "output",
+        data: `[certificate] Warning: ${certificateWarning}\r\n`
+      });
+    }
+
+    await this.connectViaSsh2(tabId, session, sender, resolvePersistentName(session, options));
   }
 
-  private async connectViaSsh2(
+  /** Shows a tmux window announced by a control-mode tab in the tab created for it. */
+  async attachTmuxWindow(tabId: string, sender: WebContents): Promise<void> {
+    const control = this.findTmuxControl(tabId);
+    if (!control?.tmux) {
+      throw new Error("This tmux window is no longer available.");
+    }
+    this.detachTmuxWindowTab(tabId);
+    const connection = this.attachSsh2Connection(tabId, sender, control.link);
+    connection.tmux = control.tmux;
+    connection.encoding = control.encoding;
+    this.emit(sender, {
+      tabId,
+      type: "status",
+      status: "connected",
+      authMethod: control.link.authMethod
+    });
+    control.tmux.attachTab(tabId);
+  }
+
+  async newTmuxWindow(tabId: string): Promise<void> {
+    const connection = this.connections.get(tabId);
+    if (connection?.mode !== "ssh2" || !connection.tmux) {
+      throw new Error("This tab is not attached to tmux in control mode.");
+    }
+    connection.tmux.newWindow();
+  }
+
+  async openLocal(tabId: string, sender: WebContents): Promise<void> {
+    await this.close(tabId);
+
+    const shell = resolveLoginShell();
+    const pty = await spawnPty(shell.file, shell.args, { cwd: homedir(), env: shell.env });
+    const connection: LocalTerminalConnection = {
+      tabId,
+      sender,
+      mode: "local",
+      pty,
+      closed: false
+    };
+    this.connections.set(tabId, connection);
+    this.emit(sender, {
+      tabId,
+      type: "status",
+      status: "connected"
+    });
+
+    pty.onData((data) => {
+      this.emit(sender, { tabId, type: "output", data });
+    });
+    pty.onExit(() => {
+      if (this.connections.get(tabId) !== connection) {
+        return;
+      }
+      this.connections.delete(tabId);
+      this.emitClosed(connection);
+    });
+  }
+
+  private async connectViaSocket(
     tabId: string,
     session: SessionRecord,
     sender: WebContents
   ): Promise<void> {
-    const connectConfig = await this.buildConnectConfig(session);
-    const client = new Client();
-    const connection: Ssh2TerminalConnection = {
+    const connection: SocketTerminalConnection = {
       tabId,
       sender,
-      mode: "ssh2",
-      client,
-      closed: false,
-      fallbackTried: false
+      mode: session.protocol === "telnet" ? "telnet" : "raw",
+      encoding: session.encoding,
+      closed: false
     };
+    // Registered before dialing so closing the tab meanwhile abandons the attempt.
     this.connections.set(tabId, connection);
 
-    client.on("ready", () => {
-      if (this.connections.get(tabId) !== connection || connection.closed) {
+    let socket: Socket;
+    try {
+      const proxy = await resolveSessionProxyEndpoint(session, {
+        proxySettingsStore: this.proxySettingsStore,
+        credentialStore: this.credentialStore
+      });
+      if (proxy) {
+        this.emit(sender, {
+          tabId,
+          type: "output",
+          data: `[proxy] Connecting via ${formatProxyLabel(proxy)}...\r\n`
+        });
+      }
+      socket = await openSessionSocket(proxy, session.host, session.port);
+    } catch (error) {
+      if (connection.closed) {
         return;
       }
-      client.shell(
-        {
-          term: "xterm-256color",
-          cols: 120,
-          rows: 36
-        },
-        (error, shell) => {
-          if (error) {
-            this.emit(sender, {
-              tabId,
-              type: "error",
-              message: error.message
-            });
-            void this.close(tabId);
-            return;
-          }
+      this.connections.delete(tabId);
+      throw error;
+    }
+    if (connection.closed) {
+      socket.destroy();
+      return;
+    }
 
-          if (this.connections.get(tabId) !== connection || connection.closed) {
-            shell.end();
-            return;
+    connection.socket = socket;
+    socket.setNoDelay(true);
+    const { keepaliveIntervalSeconds } = resolveConnectionPolicy(session.connectionPolicy);
+    // TCP keepalive only; neither protocol has an application-level probe.
+    socket.setKeepAlive(keepaliveIntervalSeconds > 0, keepaliveIntervalSeconds * 1000);
+    if (connection.mode === "telnet") {
+      connection.telnet = new TelnetProtocol(
+        (data) => {
+          if (!socket.destroyed) {
+            socket.write(data);
           }
+        },
+        "XTERM-256COLOR",
+        120,
+        36
+      );
+    }
+    connection.expect = this.createExpectRunner(
+      session,
+      (data) => this.writeSocket(connection, encodeTerminalInput(data, session.encoding)),
+      sender,
+      tabId
+    );
+    this.emit(sender, {
+      tabId,
+      type: "status",
+      status: "connected"
+    });
+    void this.markSessionConnected(session.id);
+    connection.health = this.startHealthMonitor(connection);
+
+    // Multi-byte characters may be split across packets.
+    const decoder = createTerminalDecoder(session.encoding);
+    socket.on("data", (chunk: Buffer) => {
+      connection.health?.noteReceived(chunk.length);
+      const data = decoder.write(connection.telnet ? connection.telnet.receive(chunk) : chunk);
+      if (data) {
+        this.emit(sender, { tabId, type: "output", data });
+        connection.expect?.feed(data);
+      }
+    });
+    socket.on("error", (error: Error) => {
+      if (!connection.closed) {
+        this.emit(sender, { tabId, type: "error", message: error.message });
+      }
+    });
+    socket.on("close", () => {
+      if (this.connections.get(tabId) !== connection) {
+        return;
+      }
+      this.connections.delete(tabId);
+      this.emitClosed(connection);
+    });
+    // A proxied socket comes back paused with the server's first bytes unshifted.
+    socket.resume();
+  }
 
-          connection.shell = shell;
+  private writeSocket(connection: SocketTerminalConnection, bytes: Buffer): void {
+    const { socket } = connection;
+    if (!socket || socket.destroyed) {
+      return;
+    }
+    socket.write(connection.telnet ? connection.telnet.encode(bytes) : bytes);
+  }
 
-          this.emit(sender, {
-            tabId,
-            type: "status",
-            status: "connected"
-          });
-          void this.markSessionConnected(session.id);
+  private async connectViaSsh2(
+    tabId: string,
+    session: SessionRecord,
+    sender: WebContents,
+    persistentName?: string
+  ): Promise<void> {
+    const sharedLink = session.dedicatedConnection ? undefined : this.sharedLinks.get(session.id);
+    if (sharedLink && !sharedLink.closed) {
+      const connection = this.attachSsh2Connection(
+        tabId,
+        sender,
+        sharedLink,
+        persistentName
+      );
+      this.emit(sender, {
+        tabId,
+        type: "output",
+        data: "[shared] Opening a new channel on the existing connection...\r\n"
+      });
+      // A link still handshaking opens shells for every attached tab once ready.
+      if (sharedLink.ready) {
+        this.openShell(connection, session);
+      }
+      return;
+    }
 
-          shell.on("data", (chunk: Buffer) => {
-            this.emit(sender, {
-              tabId,
-              type: "output",
-              data: chunk.toString("utf-8")
-            });
-          });
+    const client = new Client();
+    const link: Ssh2ClientLink = {
+      sessionId: session.id,
+      client,
+      jumpClients: [],
+      proxied: false,
+      shared: !session.dedicatedConnection,
+      ready: false,
+      closed: false,
+      tabs: new Set()
+    };
+    // Registered before any await so tabs opened in the same burst join this handshake.
+    if (link.shared) {
+      this.sharedLinks.set(session.id, link);
+    }
+    const connection = this.attachSsh2Connection(tabId, sender, link, persistentName);
 
-          shell.stderr.on("data", (chunk: Buffer) => {
-            this.emit(sender, {
-              tabId,
-              type: "output",
-              data: chunk.toString("utf-8")
-            });
-          });
+    let connectConfig: ConnectConfig;
+    let auth: AuthPlan;
+    let jumpHops: JumpHop[];
+    let firstSession: SessionRecord;
+    let proxy: ProxyEndpoint | null;
+    try {
+      ({ config: connectConfig, auth } = await buildSessionConnectConfig(
+        session,
+        this.credentialStore
+      ));
+      jumpHops = await buildJumpHops(
+        await resolveJumpSessions(this.sessionStore, session.jumpSessionIds, session.id),
+        this.credentialStore
+      );
+      // The proxy setting of whichever session is dialed first applies; later hops
+      // are reached through the SSH chain.
+      firstSession = jumpHops[0]?.session ?? session;
+      proxy = await resolveSessionProxyEndpoint(firstSession, {
+        proxySettingsStore: this.proxySettingsStore,
+        credentialStore: this.credentialStore
+      });
+    } catch (error) {
+      // The dialing tab reports the error through connect(); joined tabs get it as an event.
+      this.connections.delete(tabId);
+      link.tabs.delete(connection);
+      this.failLink(link, (error as Error).message);
+      throw error;
+    }
+    if (link.closed) {
+      return;
+    }
+    link.proxied = proxy !== null;
+    if (connectConfig.keepaliveInterval) {
+      link.keepaliveGiveUpMs =
+        connectConfig.keepaliveInterval * ((connectConfig.keepaliveCountMax ?? 3) + 1);
+    }
+
+    // Prompts are shown in the tab that dialed; tabs joining meanwhile just wait.
+    const hostKeyCheck = this.hostKeyVerifier.createCheck({
+      host: session.host,
+      port: session.port,
+      sender,
+      tabId,
+      onPrompt: () => {
+        suspendReadyTimeout(client);
+      }
+    });
+    connectConfig.hostVerifier = hostKeyCheck.hostVerifier;
+    connectConfig.tryKeyboard = true;
+    client.on(
+      "keyboard-interactive",
+      this.keyboardInteractive.createListener({
+        host: session.host,
+        port: session.port,
+        username: session.username,
+        sender,
+        tabId,
+        password: auth.password,
+        onPrompt: () => {
+          suspendReadyTimeout(client);
+        },
+        onCancel: () => {
+          this.closeLink(link, true);
+        }
+      })
+    );
 
-          shell.on("close", () => {
-            void this.close(tabId);
+    if (proxy || jumpHops.length > 0) {
+      try {
+        if (proxy) {
+          this.emit(sender, {
+            tabId,
+            type: "output",
+            data: `[proxy] Connecting via ${formatProxyLabel(proxy)}...\r\n`
           });
+          const proxySocket = await connectThroughProxy(proxy, firstSession.host, firstSession.port);
+          if (link.closed) {
+            proxySocket.destroy();
+            return;
+          }
+          (jumpHops[0]?.config ?? connectConfig).sock = proxySocket;
         }
-      );
+        if (jumpHops.length > 0) {
+          this.emit(sender, {
+            tabId,
+            type: "output",
+            data: `[jump] Connecting via ${jumpHops.map((hop) => hop.session.name).join(" -> ")}...\r\n`
+          });
+          const chain = await openJumpChain(
+            jumpHops,
+            { host: session.host, port: session.port },
+            {
+              hostKeyVerifier: this.hostKeyVerifier,
+              keyboardInteractive: this.keyboardInteractive,
+              sender,
+              tabId
+            }
+          );
+          if (link.closed) {
+            closeJumpClients(chain.clients);
+            return;
+          }
+          link.jumpClients = chain.clients;
+          connectConfig.sock = chain.sock;
+        }
+      } catch (error) {
+        if (link.closed) {
+          return;
+        }
+        if (error instanceof AuthCancelledError) {
+          this.closeLink(link, true);
+          return;
+        }
+        this.failLink(link, (error as Error).message);
+        return;
+      }
+    }
+
+    client.on("ready", () => {
+      if (link.closed) {
+        return;
+      }
+      link.ready = true;
+      link.authMethod = auth.succeededWith() ?? undefined;
+      for (const tab of link.tabs) {
+        this.openShell(tab, session);
+      }
     });
 
     client.on("error", (error: Error) => {
-      if (this.connections.get(tabId) !== connection || connection.closed) {
+      if (link.closed || auth.noteError(error)) {
         return;
       }
-      if (this.shouldFallbackToNative(error, session, connection)) {
+      const hostKeyRejection = hostKeyCheck.getRejectionReason();
+      if (hostKeyRejection) {
+        this.emitToLink(link, { type: "error", message: hostKeyRejection });
+        return;
+      }
+      if (link.tabs.size === 1 && this.shouldFallbackToNative(error, session, connection)) {
         void this.fallbackToNative(connection, session, error.message);
         return;
       }
-      this.emit(sender, {
-        tabId,
+      this.emitToLink(link, {
         type: "error",
-        message: error.message
+        message: describeAlgorithmMismatch(auth.describeFailure(error.message))
       });
     });
 
     client.on("close", () => {
-      if (this.connections.get(tabId) !== connection) {
-        return;
+      closeJumpClients(link.jumpClients);
+      this.unregisterLink(link);
+      for (const tab of [...link.tabs]) {
+        if (this.connections.get(tab.tabId) === tab) {
+          this.connections.delete(tab.tabId);
+          this.emitClosed(tab);
+        }
       }
-      this.emitClosed(connection);
-      this.connections.delete(tabId);
+      link.tabs.clear();
     });
 
     client.connect(connectConfig);
   }
 
+  private attachSsh2Connection(
+    tabId: string,
+    sender: WebContents,
+    link: Ssh2ClientLink,
+    persistentName?: string
+  ): Ssh2TerminalConnection {
+    const connection: Ssh2TerminalConnection = {
+      tabId,
+      sender,
+      mode: "ssh2",
+      client: link.client,
+      link,
+      closed: false,
+      fallbackTried: false,
+      persistentName
+    };
+    link.tabs.add(connection);
+    this.connections.set(tabId, connection);
+    return connection;
+  }
+
+  private openShell(connection: Ssh2TerminalConnection, session: SessionRecord): void {
+    const { tabId, sender, link, persistentName } = connection;
+    const persistence = persistentName ? session.persistence : undefined;
+    const controlMode = persistence === "tmuxControl";
+    const onChannel = (error: Error | undefined, shell: ClientChannel) => {
+      if (error) {
+        this.emit(sender, {
+          tabId,
+          type: "error",
+          message:
+            link.tabs.size > 1
+              ? `${error.message}. The server may limit sessions per connection (MaxSessions); turn on "Separate connection per tab" for this session.`
+              : error.message
+        });
+        void this.close(tabId);
+        return;
+      }
+
+      if (this.connections.get(tabId) !== connection || connection.closed) {
+        shell.end();
+        return;
+      }
+
+      connection.shell = shell;
+      connection.encoding = session.encoding;
+      if (controlMode) {
+        connection.tmux = this.startTmuxControl(connection, shell);
+      }
+      connection.expect = this.createExpectRunner(
+        session,
+        (data) => shell.write(encodeTerminalInput(data, session.encoding)),
+        sender,
+        tabId
+      );
+
+      this.emit(sender, {
+        tabId,
+        type: "status",
+        status: "connected",
+        authMethod: link.authMethod
+      });
+      void this.markSessionConnected(session.id);
+      connection.health = this.startHealthMonitor(connection, {
+        send: (onReply) => link.client.ping(onReply),
+        giveUpAfterMs: link.keepaliveGiveUpMs
+      });
+      for (const listener of this.lifecycleListeners) {
+        listener.onSsh2Ready(tabId, session, link.client, sender);
+      }
+
+      // Multi-byte characters may be split across chunks.
+      const decoder = createTerminalDecoder(session.encoding);
+      const stderrDecoder = createTerminalDecoder(session.encoding);
+      shell.on("data", (chunk: Buffer) => {
+        connection.health?.noteReceived(chunk.length);
+        if (connection.tmux) {
+          connection.tmux.feed(chunk);
+          return;
+        }
+        const data = decoder.write(chunk);
+        if (data) {
+          this.emit(sender, { tabId, type: "output", data });
+          connection.expect?.feed(data);
+        }
+      });
+
+      shell.stderr.on("data", (chunk: Buffer) => {
+        connection.health?.noteReceived(chunk.length);
+        const data = stderrDecoder.write(chunk);
+        if (data) {
+          this.emit(sender, { tabId, type: "output", data });
+          connection.expect?.feed(data);
+        }
+      });
+
+      let exitCode: number | undefined;
+      shell.on("exit", (code: number | null) => {
+        exitCode = code ?? undefined;
+      });
+
+      shell.on("close", () => {
+        if (persistence && exitCode === PERSISTENCE_MISSING_EXIT_CODE) {
+          this.emit(sender, {
+            tabId,
+            type: "persistenceMissing",
+            tool: getPersistenceTool(persistence)
+          });
+          void this.close(tabId, true);
+          return;
+        }
+        void this.close(tabId);
+      });
+
+      // A persistent session already ran its startup commands when it was created.
+      const startupInput = persistence ? "" : buildShellStartupInput(session);
+      if (startupInput) {
+        shell.write(encodeTerminalInput(startupInput, session.encoding));
+      }
+    };
+
+    const pty = { term: "xterm-256color", cols: 120, rows: 36 };
+    if (persistentName && persistence) {
+      link.client.exec(
+        buildPersistentShellCommand(session, persistence, persistentName),
+        controlMode ? { env: session.environment } : { pty, env: session.environment },
+        onChannel
+      );
+      return;
+    }
+    link.client.shell(pty, { env: session.environment }, onChannel);
+  }
+
+  private startTmuxControl(
+    control: Ssh2TerminalConnection,
+    channel: ClientChannel
+  ): TmuxControlSession {
+    const { tabId, sender } = control;
+    const tmux = new TmuxControlSession(tabId, control.encoding, {
+      send: (line) => channel.write(line),
+      output: (windowTabId, data) => {
+        this.emit(sender, { tabId: windowTabId, type: "output", data });
+      },
+      windowOpened: (windowTabId, title, focus) => {
+        this.emit(sender, {
+          tabId,
+          type: "tmuxWindow",
+          action: "opened",
+          windowTabId,
+          title,
+          ...(focus ? { focus } : {})
+        });
+      },
+      windowRenamed: (windowTabId, title) => {
+        this.emit(sender, { tabId, type: "tmuxWindow", action: "renamed", windowTabId, title });
+      },
+      windowClosed: (windowTabId) => {
+        this.detachTmuxWindowTab(windowTabId);
+        this.emit(sender, { tabId, type: "tmuxWindow", action: "closed", windowTabId });
+      }
+    });
+    tmux.resize(120, 36);
+    return tmux;
+  }
+
+  // Drops a window tab's connection without touching the tmux window behind it.
+  private detachTmuxWindowTab(tabId: string): void {
+    const connection = this.connections.get(tabId);
+    if (
+      connection?.mode !== "ssh2" ||
+      !connection.tmux ||
+      connection.tmux.controlTabId === tabId
+    ) {
+      return;
+    }
+    this.connections.delete(tabId);
+    connection.sftp?.end();
+    connection.link.tabs.delete(connection);
+    this.emitClosed(connection, true);
+  }
+
+  private findTmuxControl(windowTabId: string): Ssh2TerminalConnection | undefined {
+    for (const connection of this.connections.values()) {
+      if (
+        connection.mode === "ssh2" &&
+        connection.tmux?.controlTabId === connection.tabId &&
+        connection.tmux.hasTab(windowTabId)
+      ) {
+        return connection;
+      }
+    }
+    return undefined;
+  }
+
+  private emitToLink(link: Ssh2ClientLink, event: { type: "error"; message: string }): void {
+    for (const tab of link.tabs) {
+      this.emit(tab.sender, { tabId: tab.tabId, ...event });
+    }
+  }
+
+  // Reports a failure to every tab waiting on the link and drops them.
+  private failLink(link: Ssh2ClientLink, message: string): void {
+    this.emitToLink(link, { type: "error", message });
+    for (const tab of [...link.tabs]) {
+      if (this.connections.get(tab.tabId) === tab) {
+        this.connections.delete(tab.tabId);
+      }
+      this.emitClosed(tab);
+    }
+    this.releaseLink(link, true);
+  }
+
+  private closeLink(link: Ssh2ClientLink, cancelled = false): void {
+    for (const tab of [...link.tabs]) {
+      void this.close(tab.tabId, cancelled);
+    }
+  }
+
+  // Drops the tab's reference; the client ends once no tab uses it anymore.
+  private releaseLink(link: Ssh2ClientLink, force = false, connection?: Ssh2TerminalConnection): void {
+    if (connection) {
+      link.tabs.delete(connection);
+    }
+    if (!force && link.tabs.size > 0) {
+      return;
+    }
+    link.tabs.clear();
+    this.unregisterLink(link);
+    link.client.end();
+    closeJumpClients(link.jumpClients);
+  }
+
+  private unregisterLink(link: Ssh2ClientLink): void {
+    link.closed = true;
+    if (this.sharedLinks.get(link.sessionId) === link) {
+      this.sharedLinks.delete(link.sessionId);
+    }
+  }
+
   private shouldFallbackToNative(
     error: Error,
     session: SessionRecord,
     connection: Ssh2TerminalConnection
   ): boolean {
-    if (connection.fallbackTried || session.authType !== "privateKey") {
+    if (
+      connection.fallbackTried ||
+      connection.link.jumpClients.length > 0 ||
+      connection.link.proxied
+    ) {
       return false;
     }
     const message = error.message.toLowerCase();
@@ -242,10 +883,15 @@ export class TerminalService {
     });
     connection.shell?.end();
     connection.sftp?.end();
-    connection.client.end();
+    this.releaseLink(connection.link, true);
 
     try {
-      await this.connectViaNative(connection.tabId, session, connection.sender);
+      await this.connectViaNative(
+        connection.tabId,
+        session,
+        connection.sender,
+        connection.persistentName
+      );
     } catch (error) {
       if (this.connections.get(connection.tabId) === connection) {
         this.connections.delete(connection.tabId);
@@ -265,128 +911,270 @@ export class TerminalService {
   private async connectViaNative(
     tabId: string,
     session: SessionRecord,
-    sender: WebContents
+    sender: WebContents,
+    persistentName?: string
   ): Promise<void> {
-    if (session.authType !== "privateKey" || !session.privateKeyPath) {
-      throw new Error("System ssh fallback currently supports private key sessions only.");
+    if (session.authType === "privateKey" && !session.privateKeyPath) {
+      throw new Error("Private key path is required for key-based authentication.");
     }
-    const keyPath = expandHomePath(session.privateKeyPath);
-    const args = [
-      "-tt",
-      "-o",
-      "ConnectTimeout=15",
+    if (session.jumpSessionIds?.length) {
+      throw new Error("System ssh fallback does not support jump hosts.");
+    }
+    const owner = this.connections.get(tabId);
+    const knownHostsPath = await this.hostKeyVerifier.prepareNativeKnownHosts({
+      host: session.host,
+      port: session.port,
+      sender,
+      tabId
+    });
+    if (this.connections.get(tabId) !== owner) {
+      return;
+    }
+    const sshOptions = [
+      ...buildNativeTimingOptions(resolveConnectionPolicy(session.connectionPolicy)),
       "-o",
-      "ServerAliveInterval=15",
+      "StrictHostKeyChecking=yes",
       "-o",
-      "ServerAliveCountMax=3",
+      `UserKnownHostsFile=${knownHostsPath}`,
       "-o",
-      "StrictHostKeyChecking=accept-new",
-      "-i",
-      keyPath,
+      `GlobalKnownHostsFile=${knownHostsPath}`,
+      ...(session.authType === "privateKey" && session.privateKeyPath
+        ? ["-i", expandHomePath(session.privateKeyPath)]
+        : []),
+      ...(session.authType === "privateKey" && session.certificatePath
+        ? ["-o", `CertificateFile=${expandHomePath(session.certificatePath)}`]
+        : []),
+      ...(session.agentForward ? ["-A"] : []),
+      ...buildNativeAuthOptions(session.authType, session.fallbackAuthMethods),
+      ...buildNativeAlgorithmOptions(session.algorithms),
+      ...buildNativeEnvironmentOptions(session.environment),
       "-p",
-      `${session.port}`,
-      `${session.username}@${session.host}`
+      `${session.port}`
     ];
-    const process = spawn("ssh", args, {
-      stdio: "pipe"
+    const destination = `${session.username}@${session.host}`;
+    const askpass = await this.registerAskpass(session, sender, tabId, () => {
+      void this.close(tabId, true);
     });
+    let pty: IPty;
+    try {
+      // A persistent tab runs its attach command in place of the login shell.
+      const remoteCommand =
+        persistentName && session.persistence
+          ? [
+              "-t",
+              destination,
+              // Control mode needs the built-in client; system ssh attaches to tmux as usual.
+              buildPersistentShellCommand(
+                session,
+                session.persistence === "tmuxControl" ? "tmux" : session.persistence,
+                persistentName
+              )
+            ]
+          : [destination];
+      // Raw bytes, so the session's charset is decoded here rather than as UTF-8.
+      pty = await spawnPty("ssh", [...sshOptions, ...remoteCommand], {
+        env: { ...process.env, ...askpass.env },
+        encoding: null
+      });
+    } catch (error) {
+      askpass.dispose();
+      throw error;
+    }
+    if (this.connections.get(tabId) !== owner) {
+      askpass.dispose();
+      pty.kill();
+      return;
+    }
     const nativeConnection: NativeTerminalConnection = {
       tabId,
       sender,
       mode: "native",
-      process,
+      session,
+      pty,
+      sshOptions,
+      destination,
+      persistentName,
+      encoding: session.encoding,
       closed: false
     };
     this.connections.set(tabId, nativeConnection);
+    const writeInput = (data: string) => pty.write(encodeTerminalInput(data, session.encoding));
+    nativeConnection.expect = this.createExpectRunner(
+      session,
+      writeInput,
+      sender,
+      tabId
+    );
     this.emit(sender, {
       tabId,
       type: "status",
       status: "connected"
     });
     void this.markSessionConnected(session.id);
-
-    process.stdout.on("data", (chunk: Buffer) => {
-      this.emit(sender, {
-        tabId,
-        type: "output",
-        data: chunk.toString("utf-8")
-      });
-    });
-    process.stderr.on("data", (chunk: Buffer) => {
-      this.emit(sender, {
-        tabId,
-        type: "output",
-        data: chunk.toString("utf-8")
-      });
-    });
-    process.on("error", (error: Error) => {
-      if (this.connections.get(tabId) !== nativeConnection) {
+    // System ssh keeps its keepalive to itself, so there is nothing to time.
+    nativeConnection.health = this.startHealthMonitor(nativeConnection);
+
+    // Typed once the remote side first prints something, i.e. the shell is up.
+    let startupInput = persistentName ? "" : buildShellStartupInput(session);
+    // Multi-byte characters may be split across reads.
+    const decoder = createTerminalDecoder(session.encoding);
+    // Windows' pty ignores the encoding option and still hands over UTF-8 strings.
+    pty.onData((chunk: string | Buffer) => {
+      const bytes = typeof chunk === "string" ? Buffer.from(chunk, "utf-8") : chunk;
+      nativeConnection.health?.noteReceived(bytes.length);
+      const data = decoder.write(bytes);
+      if (!data) {
         return;
       }
-      this.emit(sender, {
-        tabId,
-        type: "error",
-        message: error.message
-      });
-      this.connections.delete(tabId);
-      this.emitClosed(nativeConnection);
+      this.emit(sender, { tabId, type: "output", data });
+      if (startupInput) {
+        writeInput(startupInput);
+        startupInput = "";
+      }
+      nativeConnection.expect?.feed(data);
     });
-    process.on("close", () => {
+    pty.onExit(({ exitCode }) => {
+      askpass.dispose();
       if (this.connections.get(tabId) !== nativeConnection) {
         return;
       }
       this.connections.delete(tabId);
+      nativeConnection.sftp?.end();
+      if (persistentName && session.persistence && exitCode === PERSISTENCE_MISSING_EXIT_CODE) {
+        this.emit(sender, {
+          tabId,
+          type: "persistenceMissing",
+          tool: getPersistenceTool(session.persistence)
+        });
+        this.emitClosed(nativeConnection, true);
+        return;
+      }
       this.emitClosed(nativeConnection);
     });
   }
 
+  /**
+   * Answers system ssh's password and passphrase prompts from the CredentialStore,
+   * once each; anything else, or a rejected secret, is asked in the prompt modal.
+   */
+  private async registerAskpass(
+    session: SessionRecord,
+    sender: WebContents,
+    tabId: string,
+    onCancel: () => void
+  ): Promise<AskpassRegistration> {
+    const secretIds = resolveSessionSecretIds(session);
+    const [password, passphrase] = await Promise.all([
+      this.credentialStore.getSessionSecret(secretIds.password),
+      this.credentialStore.getSessionSecret(secretIds.passphrase)
+    ]);
+    let storedPassphrase = passphrase?.trim() || undefined;
+    let cancelPrompt: (() => void) | undefined;
+    const promptUser = this.keyboardInteractive.createListener({
+      host: session.host,
+      port: session.port,
+      username: session.username,
+      sender,
+      tabId,
+      password: password?.trim() || undefined,
+      onCancel: () => {
+        cancelPrompt?.();
+        onCancel();
+      }
+    });
+    return this.askpass.register((prompt) => {
+      if (storedPassphrase && /passphrase/i.test(prompt)) {
+        const answer = storedPassphrase;
+        storedPassphrase = undefined;
+        return Promise.resolve(answer);
+      }
+      return new Promise<string | null>((resolve) => {
+        cancelPrompt = () => resolve(null);
+        promptUser("", "", "", [{ prompt, echo: false }], (responses) => {
+          resolve(responses[0] ?? null);
+        });
+      });
+    });
+  }
+
   async write(tabId: string, data: string): Promise<void> {
     const connection = this.connections.get(tabId);
     if (!connection || connection.closed) {
       return;
     }
+    if (connection.mode === "local") {
+      connection.pty.write(data);
+      return;
+    }
+    // Counted in the session's charset, as it goes over the wire.
+    const bytes = encodeTerminalInput(data, connection.encoding);
+    connection.health?.noteSent(bytes.length);
     if (connection.mode === "ssh2") {
-      connection.shell?.write(data);
+      if (connection.tmux) {
+        connection.tmux.write(tabId, bytes);
+        return;
+      }
+      connection.shell?.write(bytes);
       return;
     }
-    if (!connection.process.stdin.destroyed) {
-      connection.process.stdin.write(data);
+    if (isSocketConnection(connection)) {
+      this.writeSocket(connection, bytes);
+      return;
     }
+    connection.pty.write(bytes);
   }
 
   async resize(tabId: string, cols: number, rows: number): Promise<void> {
     const connection = this.connections.get(tabId);
-    if (!connection || connection.closed || connection.mode !== "ssh2") {
+    if (!connection || connection.closed) {
       return;
     }
-    connection.shell?.setWindow(rows, cols, 0, 0);
+    if (connection.mode === "ssh2") {
+      if (connection.tmux) {
+        connection.tmux.resize(cols, rows);
+        return;
+      }
+      connection.shell?.setWindow(rows, cols, 0, 0);
+      return;
+    }
+    if (isSocketConnection(connection)) {
+      // Raw TCP has no way to report the window size.
+      connection.telnet?.resize(cols, rows);
+      return;
+    }
+    connection.pty.resize(cols, rows);
   }
 
-  async close(tabId: string): Promise<void> {
+  async close(tabId: string, cancelled = false): Promise<void> {
     const connection = this.connections.get(tabId);
     if (!connection) {
       return;
     }
 
     this.connections.delete(tabId);
+    connection.sftp?.end();
     if (connection.mode === "ssh2") {
+      if (connection.tmux?.controlTabId === tabId) {
+        for (const windowTabId of connection.tmux.windowTabIds()) {
+          this.detachTmuxWindowTab(windowTabId);
+        }
+      } else {
+        // Closing a window's tab closes the window; the control tab only detaches.
+        connection.tmux?.closeWindow(tabId);
+      }
       connection.shell?.end();
-      connection.sftp?.end();
-      connection.client.end();
+      this.releaseLink(connection.link, false, connection);
+    } else if (isSocketConnection(connection)) {
+      connection.socket?.destroy();
     } else {
-      if (!connection.process.stdin.destroyed) {
-        connection.process.stdin.end();
-      }
-      if (!connection.process.killed) {
-        connection.process.kill("SIGTERM");
-      }
+      connection.pty.kill();
     }
 
-    this.emitClosed(connection);
+    this.emitClosed(connection, cancelled);
   }
 
   async listDirectory(tabId: string, targetPath?: string): Promise<SftpDirectoryListResult> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const lookupPath = normalizeRemotePath(targetPath);
     const cwd = await this.realPath(sftp, lookupPath);
@@ -406,7 +1194,7 @@ export class TerminalService {
   }
 
   async createDirectory(tabId: string, parentPath: string, name: string): Promise<void> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const safeName = normalizeEntryName(name, "Directory name");
     const basePath = normalizeRemotePath(parentPath);
@@ -415,7 +1203,7 @@ export class TerminalService {
   }
 
   async renamePath(tabId: string, sourcePath: string, nextName: string): Promise<void> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const normalizedSourcePath = normalizeRemotePath(sourcePath);
     assertPathIsNotRoot(normalizedSourcePath);
@@ -429,7 +1217,7 @@ export class TerminalService {
   }
 
   async deletePath(tabId: string, targetPath: string, kind: SftpEntryKind): Promise<void> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const normalizedTargetPath = normalizeRemotePath(targetPath);
     assertPathIsNotRoot(normalizedTargetPath);
@@ -446,7 +1234,7 @@ export class TerminalService {
     localPath: string,
     remoteDirectory: string
   ): Promise<void> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const safeTransferId = normalizeTransferId(transferId);
     const normalizedLocalPath = normalizeLocalPath(localPath, "Local upload file path");
@@ -623,7 +1411,7 @@ export class TerminalService {
     remotePath: string,
     localPath: string
   ): Promise<void> {
-    const connection = this.getConnectedSsh2Connection(tabId);
+    const connection = this.getConnectedConnection(tabId);
     const sftp = await this.ensureSftp(connection);
     const safeTransferId = normalizeTransferId(transferId);
     const normalizedRemotePath = normalizeRemotePath(remotePath);
@@ -766,55 +1554,56 @@ export class TerminalService {
     }
   }
 
-  private async buildConnectConfig(session: SessionRecord): Promise<ConnectConfig> {
-    const config: ConnectConfig = {
-      host: session.host,
-      port: session.port,
-      username: session.username,
-      keepaliveInterval: 15_000,
-      keepaliveCountMax: 3,
-      readyTimeout: 15_000
-    };
-
-    if (session.authType === "password") {
-      const password = await this.credentialStore.getSessionSecret(session.id);
-      if (!password) {
-        throw new Error("Session password not found in secure storage.");
-      }
-      config.password = password;
-      return config;
+  private async ensureSftp(connection: TerminalConnection): Promise<FileChannel> {
+    if (connection.sftp) {
+      return connection.sftp;
     }
-
-    if (!session.privateKeyPath) {
-      throw new Error("Private key path is required for key-based authentication.");
+    if (isSocketConnection(connection)) {
+      throw new Error(
+        `SFTP is not available for ${connection.mode === "telnet" ? "telnet" : "raw TCP"} sessions.`
+      );
     }
 
-    const privateKeyPath = expandHomePath(session.privateKeyPath);
-    config.privateKey = await readFile(privateKeyPath, "utf-8");
-    const passphrase = await this.credentialStore.getSessionSecret(session.id);
-    if (passphrase) {
-      config.passphrase = passphrase;
-    }
+    const sftp =
+      connection.mode === "ssh2"
+        ? await new Promise<SFTPWrapper>((resolve, reject) => {
+            connection.client.sftp((error, nextSftp) => {
+              if (error) {
+                reject(error);
+                return;
+              }
+              resolve(nextSftp);
+            });
+          })
+        : connection.mode === "native"
+          ? await this.openSystemSftp(connection)
+          : new LocalFileChannel();
 
-    return config;
+    connection.sftp = sftp;
+    return sftp;
   }
 
-  private async ensureSftp(connection: Ssh2TerminalConnection): Promise<SFTPWrapper> {
-    if (connection.sftp) {
-      return connection.sftp;
-    }
-
-    const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
-      connection.client.sftp((error, nextSftp) => {
-        if (error) {
-          reject(error);
-          return;
+  private async openSystemSftp(connection: NativeTerminalConnection): Promise<SFTPWrapper> {
+    const { session, sender, tabId } = connection;
+    // A cancelled prompt only fails this SFTP request; the shell keeps running.
+    const askpass = await this.registerAskpass(session, sender, tabId, () => {});
+    let sftp: SFTPWrapper | undefined;
+    try {
+      sftp = await openNativeSftp({
+        args: connection.sshOptions,
+        destination: connection.destination,
+        env: { ...process.env, ...askpass.env },
+        onClose: () => {
+          askpass.dispose();
+          if (sftp && connection.sftp === sftp) {
+            connection.sftp = undefined;
+          }
         }
-        resolve(nextSftp);
       });
-    });
-
-    connection.sftp = sftp;
+    } catch (error) {
+      askpass.dispose();
+      throw error;
+    }
     return sftp;
   }
 
@@ -826,17 +1615,7 @@ export class TerminalService {
     return connection;
   }
 
-  private getConnectedSsh2Connection(tabId: string): Ssh2TerminalConnection {
-    const connection = this.getConnectedConnection(tabId);
-    if (connection.mode !== "ssh2") {
-      throw new Error(
-        "SFTP is unavailable in system ssh fallback mode. Reconnect when direct SSH is available."
-      );
-    }
-    return connection;
-  }
-
-  private async realPath(sftp: SFTPWrapper, targetPath: string): Promise<string> {
+  private async realPath(sftp: FileChannel, targetPath: string): Promise<string> {
     return new Promise<string>((resolve, reject) => {
       sftp.realpath(targetPath, (error, absolutePath) => {
         if (error) {
@@ -848,7 +1627,7 @@ export class TerminalService {
     });
   }
 
-  private async statRemote(sftp: SFTPWrapper, targetPath: string): Promise<Attributes> {
+  private async statRemote(sftp: FileChannel, targetPath: string): Promise<Attributes> {
     return new Promise<Attributes>((resolve, reject) => {
       sftp.stat(targetPath, (error, stats) => {
         if (error) {
@@ -861,10 +1640,10 @@ export class TerminalService {
   }
 
   private async readDirectory(
-    sftp: SFTPWrapper,
+    sftp: FileChannel,
     targetPath: string
-  ): Promise<FileEntryWithStats[]> {
-    return new Promise<FileEntryWithStats[]>((resolve, reject) => {
+  ): Promise<FileEntry[]> {
+    return new Promise<FileEntry[]>((resolve, reject) => {
       sftp.readdir(targetPath, (error, rows) => {
         if (error) {
           reject(error);
@@ -875,7 +1654,7 @@ export class TerminalService {
     });
   }
 
-  private async mkdir(sftp: SFTPWrapper, targetPath: string): Promise<void> {
+  private async mkdir(sftp: FileChannel, targetPath: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       sftp.mkdir(targetPath, (error) => {
         if (error) {
@@ -888,7 +1667,7 @@ export class TerminalService {
   }
 
   private async rename(
-    sftp: SFTPWrapper,
+    sftp: FileChannel,
     sourcePath: string,
     targetPath: string
   ): Promise<void> {
@@ -903,7 +1682,7 @@ export class TerminalService {
     });
   }
 
-  private async unlink(sftp: SFTPWrapper, targetPath: string): Promise<void> {
+  private async unlink(sftp: FileChannel, targetPath: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       sftp.unlink(targetPath, (error) => {
         if (error) {
@@ -915,7 +1694,7 @@ export class TerminalService {
     });
   }
 
-  private async unlinkIgnoreMissing(sftp: SFTPWrapper, targetPath: string): Promise<void> {
+  private async unlinkIgnoreMissing(sftp: FileChannel, targetPath: string): Promise<void> {
     try {
       await this.unlink(sftp, targetPath);
     } catch {
@@ -931,7 +1710,7 @@ export class TerminalService {
     }
   }
 
-  private async rmdir(sftp: SFTPWrapper, targetPath: string): Promise<void> {
+  private async rmdir(sftp: FileChannel, targetPath: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       sftp.rmdir(targetPath, (error) => {
         if (error) {
@@ -1003,7 +1782,7 @@ export class TerminalService {
     });
   }
 
-  private toSftpEntry(parentPath: string, row: FileEntryWithStats): SftpEntry {
+  private toSftpEntry(parentPath: string, row: FileEntry): SftpEntry {
     const kind = detectSftpEntryKind(row.attrs);
     const modifiedAt =
       typeof row.attrs.mtime === "number" && row.attrs.mtime > 0
@@ -1076,17 +1855,69 @@ export class TerminalService {
     };
   }
 
-  private emitClosed(connection: TerminalConnection): void {
+  private createExpectRunner(
+    session: SessionRecord,
+    send: (data: string) => void,
+    sender: WebContents,
+    tabId: string
+  ): ExpectRunner | undefined {
+    if (!session.expectRules?.length) {
+      return undefined;
+    }
+    return new ExpectRunner({
+      sessionId: session.id,
+      rules: session.expectRules,
+      credentialStore: this.credentialStore,
+      send,
+      notify: (message) => {
+        this.emit(sender, { tabId, type: "output", data: `\r\n[expect] ${message}\r\n` });
+      }
+    });
+  }
+
+  private startHealthMonitor(
+    connection: TerminalConnection,
+    probe?: HealthProbe
+  ): ConnectionHealthMonitor {
+    return new ConnectionHealthMonitor((health) => {
+      this.emit(connection.sender, { tabId: connection.tabId, type: "health", health });
+    }, probe);
+  }
+
+  private emitClosed(connection: TerminalConnection, cancelled = false): void {
     if (connection.closed) {
       return;
     }
     connection.closed = true;
+    connection.expect?.dispose();
+    connection.health?.stop();
     this.emit(connection.sender, {
       tabId: connection.tabId,
       type: "status",
-      status: "closed"
+      status: "closed",
+      ...(cancelled ? { cancelled } : {})
     });
+    for (const listener of this.lifecycleListeners) {
+      listener.onClosed(connection.tabId);
+    }
+  }
+}
+
+function resolvePersistentName(
+  session: SessionRecord,
+  options: TerminalConnectOptions
+): string | undefined {
+  if (!session.persistence || options.plainShell) {
+    return undefined;
   }
+  // Stable across app restarts so a reopened tab reattaches to the same session.
+  return `termdock-${session.id.slice(0, 8)}-${options.instance ?? 1}`;
+}
+
+function isSocketConnection(
+  connection: TerminalConnection
+): connection is SocketTerminalConnection {
+  return connection.mode === "telnet" || connection.mode === "raw";
 }
 
 function expandHomePath(filePath: string): string {
@@ -0,0 +1,340 @@
+import type { SessionEncoding } from "../../shared/session.js";
+import { createTerminalDecoder, decodeTerminalText } from "./encoding.js";
+import type { TerminalDecoder } from "./encoding.js";
+
+// Keystrokes per send-keys command; keeps each command line short.
+const SEND_KEYS_CHUNK_BYTES = 256;
+
+interface TmuxCommandResult {
+  ok: boolean;
+  lines: string[];
+}
+
+// Called while the reply is parsed, so it runs before any output that follows it.
+type TmuxReplyHandler = (result: TmuxCommandResult) => void;
+
+interface TmuxWindow {
+  windowId: string;
+  paneId: string;
+  title: string;
+  tabId: string;
+  // Pane output is forwarded once the tab has been replayed the pane's contents.
+  live: boolean;
+  decoder: TerminalDecoder;
+}
+
+export interface TmuxControlHost {
+  // Writes a command line to the control client's stdin.
+  send(line: string): void;
+  output(tabId: string, data: string): void;
+  windowOpened(tabId: string, title: string, focus: boolean): void;
+  windowRenamed(tabId: string, title: string): void;
+  windowClosed(tabId: string): void;
+}
+
+/**
+ * A tmux client in control mode (`tmux -C`) on the other end of an SSH
+ * channel: parses its notifications and command replies, shows each tmux
+ * window in its own tab and turns tab input, resizes, new tabs and closed
+ * tabs into tmux commands. The first window shows in the control tab itself.
+ */
+export class TmuxControlSession {
+  private pending = Buffer.alloc(0);
+  private block?: { fromClient: boolean; lines: string[] };
+  private readonly replies: TmuxReplyHandler[] = [];
+  private readonly windows = new Map<string, TmuxWindow>();
+  // Windows created from a tab, whose tab should be selected once it opens.
+  private readonly focusWindowIds = new Set<string>();
+  private size = "";
+  // Commands fail until the client has attached, which tmux reports as %session-changed.
+  private attached = false;
+  private pendingSize = "";
+
+  constructor(
+    readonly controlTabId: string,
+    // Charset of the panes' output; tmux passes their bytes through.
+    private readonly encoding: SessionEncoding | undefined,
+    private readonly host: TmuxControlHost
+  ) {}
+
+  feed(chunk: Buffer): void {
+    let data = Buffer.concat([this.pending, chunk]);
+    let newline = data.indexOf(10);
+    while (newline >= 0) {
+      this.handleLine(data.subarray(0, newline));
+      data = data.subarray(newline + 1);
+      newline = data.indexOf(10);
+    }
+    this.pending = Buffer.from(data);
+  }
+
+  hasTab(tabId: string): boolean {
+    return this.findWindow(tabId) !== undefined;
+  }
+
+  windowTabIds(): string[] {
+    return [...this.windows.values()].map((window) => window.tabId);
+  }
+
+  /** Replays the window's scrollback and screen into its tab, then streams its output. */
+  attachTab(tabId: string): boolean {
+    const window = this.findWindow(tabId);
+    if (!window) {
+      return false;
+    }
+    window.live = false;
+    const pane = window.paneId;
+    let cursor = "\x1b[H";
+    // One command line, so no pane output lands between the cursor and the capture.
+    this.commandList([
+      [
+        `display-message -p -t ${pane} '#{cursor_x} #{cursor_y}'`,
+        (result) => {
+          const [x, y] = (result.lines[0] ?? "").split(" ").map(Number);
+          cursor = `\x1b[${(y || 0) + 1};${(x || 0) + 1}H`;
+        }
+      ],
+      [
+        `capture-pane -p -e -S - -E - -t ${pane}`,
+        (result) => {
+          if (this.windows.get(window.windowId) !== window || window.tabId !== tabId) {
+            return;
+          }
+          // Output after the capture is new to the tab.
+          window.live = true;
+          this.host.output(tabId, `\x1b[H\x1b[2J\x1b[3J${result.lines.join("\r\n")}${cursor}`);
+        }
+      ]
+    ]);
+    return true;
+  }
+
+  /** Types already-encoded input into the tab's pane. */
+  write(tabId: string, bytes: Buffer): void {
+    const window = this.findWindow(tabId);
+    if (!window) {
+      return;
+    }
+    for (let offset = 0; offset < bytes.length; offset += SEND_KEYS_CHUNK_BYTES) {
+      const hex = [...bytes.subarray(offset, offset + SEND_KEYS_CHUNK_BYTES)]
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join(" ");
+      this.command(`send-keys -t ${window.paneId} -H ${hex}`);
+    }
+  }
+
+  // A control client has one size, so the windows follow whichever tab was fitted last.
+  resize(cols: number, rows: number): void {
+    this.pendingSize = `${cols},${rows}`;
+    if (this.attached) {
+      this.applySize();
+    }
+  }
+
+  newWindow(): void {
+    this.command("new-window -d -P -F '#{window_id}'", (result) => {
+      const windowId = result.ok ? result.lines[0] : undefined;
+      if (windowId) {
+        this.focusWindowIds.add(windowId);
+        this.openFocusedWindow(windowId);
+      }
+    });
+  }
+
+  closeWindow(tabId: string): void {
+    const window = this.findWindow(tabId);
+    if (window) {
+      this.command(`kill-window -t ${window.windowId}`);
+    }
+  }
+
+  private start(): void {
+    this.attached = true;
+    this.applySize();
+    this.command("list-windows -F '#{window_id} #{pane_id} #{window_name}'", (result) => {
+      for (const line of result.ok ? result.lines : []) {
+        const [windowId, paneId, ...title] = line.split(" ");
+        this.addWindow(windowId, paneId, title.join(" "));
+      }
+    });
+  }
+
+  private applySize(): void {
+    if (this.pendingSize && this.pendingSize !== this.size) {
+      this.size = this.pendingSize;
+      this.command(`refresh-client -C ${this.size}`);
+    }
+  }
+
+  private command(line: string, onReply: TmuxReplyHandler = () => undefined): void {
+    this.commandList([[line, onReply]]);
+  }
+
+  // tmux answers every command of a line with its own reply block, in order.
+  private commandList(commands: Array<[string, TmuxReplyHandler]>): void {
+    for (const [, onReply] of commands) {
+      this.replies.push(onReply);
+    }
+    this.host.send(`${commands.map(([line]) => line).join(" ; ")}\n`);
+  }
+
+  private handleLine(line: Buffer): void {
+    if (this.block) {
+      const text = decodeTerminalText(line, this.encoding);
+      if (text.startsWith("%end ") || text.startsWith("%error ")) {
+        const { fromClient, lines } = this.block;
+        this.block = undefined;
+        // Replies to the attach command on the client's command line are not ours.
+        if (fromClient) {
+          this.replies.shift()?.({ ok: text.startsWith("%end "), lines });
+        }
+        return;
+      }
+      this.block.lines.push(text);
+      return;
+    }
+
+    if (line.subarray(0, 8).toString("latin1") === "%output ") {
+      const paneEnd = line.indexOf(32, 8);
+      if (paneEnd > 0) {
+        const paneId = line.subarray(8, paneEnd).toString("latin1");
+        this.handleOutput(paneId, line.subarray(paneEnd + 1));
+      }
+      return;
+    }
+
+    const text = line.toString("utf-8");
+    if (!text.startsWith("%")) {
+      // Printed before tmux took over the channel, e.g. the missing-tool notice.
+      this.host.output(this.controlTabId, `${text}\r\n`);
+      return;
+    }
+    const [name, ...args] = text.split(" ");
+    switch (name) {
+      case "%begin":
+        this.block = { fromClient: args[2] === "1", lines: [] };
+        break;
+      case "%session-changed":
+        if (!this.attached) {
+          this.start();
+        }
+        break;
+      case "%window-add":
+        this.command(`list-panes -t ${args[0]} -F '#{pane_id} #{window_name}'`, (result) => {
+          const [paneId, ...title] = (result.ok ? result.lines[0] ?? "" : "").split(" ");
+          this.addWindow(args[0], paneId, title.join(" "));
+        });
+        break;
+      case "%window-pane-changed": {
+        const window = this.windows.get(args[0]);
+        if (window && args[1]) {
+          window.paneId = args[1];
+          this.attachTab(window.tabId);
+        }
+        break;
+      }
+      case "%window-renamed":
+      case "%unlinked-window-renamed": {
+        const window = this.windows.get(args[0]);
+        if (window) {
+          window.title = args.slice(1).join(" ");
+          this.host.windowRenamed(window.tabId, window.title);
+        }
+        break;
+      }
+      // A window closing in our session may already count as unlinked from it.
+      case "%window-close":
+      case "%unlinked-window-close":
+        this.removeWindow(args[0]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private handleOutput(paneId: string, value: Buffer): void {
+    const window = [...this.windows.values()].find((item) => item.paneId === paneId);
+    if (!window?.live) {
+      return;
+    }
+    const data = window.decoder.write(decodeOutputValue(value));
+    if (data) {
+      this.host.output(window.tabId, data);
+    }
+  }
+
+  private addWindow(windowId: string, paneId: string, title: string): void {
+    if (!windowId || !paneId || this.windows.has(windowId)) {
+      return;
+    }
+    const tabId = this.hasTab(this.controlTabId)
+      ? `${this.controlTabId}:${windowId}`
+      : this.controlTabId;
+    const window: TmuxWindow = {
+      windowId,
+      paneId,
+      title,
+      tabId,
+      live: false,
+      decoder: createTerminalDecoder(this.encoding)
+    };
+    this.windows.set(windowId, window);
+    if (tabId === this.controlTabId) {
+      this.attachTab(tabId);
+    }
+    this.host.windowOpened(tabId, title, false);
+    this.openFocusedWindow(windowId);
+  }
+
+  // new-window's reply and the %window-add notification can arrive in either order.
+  private openFocusedWindow(windowId: string): void {
+    const window = this.windows.get(windowId);
+    if (window && this.focusWindowIds.delete(windowId)) {
+      this.host.windowOpened(window.tabId, window.title, true);
+    }
+  }
+
+  private removeWindow(windowId: string): void {
+    const window = this.windows.get(windowId);
+    if (!window) {
+      return;
+    }
+    this.windows.delete(windowId);
+    if (window.tabId !== this.controlTabId) {
+      this.host.windowClosed(window.tabId);
+      return;
+    }
+    // The control tab moves on to the next window, whose own tab goes away.
+    const next = this.windows.values().next().value;
+    if (!next) {
+      return;
+    }
+    this.host.windowClosed(next.tabId);
+    next.tabId = this.controlTabId;
+    this.attachTab(next.tabId);
+    this.host.windowOpened(next.tabId, next.title, false);
+  }
+
+  private findWindow(tabId: string): TmuxWindow | undefined {
+    return [...this.windows.values()].find((window) => window.tabId === tabId);
+  }
+}
+
+// %output escapes bytes below 32 and backslashes as three octal digits.
+function decodeOutputValue(value: Buffer): Buffer {
+  const bytes: number[] = [];
+  for (let index = 0; index < value.length; index += 1) {
+    const byte = value[index];
+    if (byte === 92 && index + 3 < value.length && isOctalDigit(value[index + 1])) {
+      bytes.push(parseInt(value.subarray(index + 1, index + 4).toString("latin1"), 8));
+      index += 3;
+    } else {
+      bytes.push(byte);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function isOctalDigit(byte: number): boolean {
+  return byte >= 48 && byte <= 55;
+}
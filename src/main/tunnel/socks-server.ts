@@ -0,0 +1,84 @@
+import type { Socket } from "node:net";
+
+import { createSocketReader } from "../ssh/socket-reader.js";
+
+const SOCKS_HANDSHAKE_TIMEOUT_MS = 10_000;
+
+export interface SocksConnectRequest {
+  host: string;
+  port: number;
+}
+
+export const SOCKS_REPLY_SUCCEEDED = 0x00;
+export const SOCKS_REPLY_GENERAL_FAILURE = 0x01;
+export const SOCKS_REPLY_HOST_UNREACHABLE = 0x04;
+const SOCKS_REPLY_COMMAND_NOT_SUPPORTED = 0x07;
+const SOCKS_REPLY_ADDRESS_NOT_SUPPORTED = 0x08;
+
+/**
+ * Runs the server side of a SOCKS5 handshake (no authentication, CONNECT only)
+ * and resolves with the requested target. Bytes the client sends after the
+ * request are left on the socket for whoever pipes it next.
+ */
+export async function acceptSocksConnect(socket: Socket): Promise<SocksConnectRequest> {
+  const reader = createSocketReader(socket, "SOCKS client disconnected.");
+  socket.setTimeout(SOCKS_HANDSHAKE_TIMEOUT_MS, () => {
+    socket.destroy(new Error("SOCKS handshake timed out."));
+  });
+  try {
+    const [version, methodCount] = await reader.read(2);
+    if (version !== 0x05) {
+      throw new Error("Only SOCKS5 clients are supported.");
+    }
+    const methods = await reader.read(methodCount);
+    if (!methods.includes(0x00)) {
+      socket.end(Buffer.from([0x05, 0xff]));
+      throw new Error("SOCKS client requires authentication.");
+    }
+    socket.write(Buffer.from([0x05, 0x00]));
+
+    const [, command, , addressType] = await reader.read(4);
+    let host: string;
+    if (addressType === 0x01) {
+      host = [...(await reader.read(4))].join(".");
+    } else if (addressType === 0x03) {
+      const [length] = await reader.read(1);
+      host = (await reader.read(length)).toString("utf-8");
+    } else if (addressType === 0x04) {
+      host = formatIpv6(await reader.read(16));
+    } else {
+      sendSocksReply(socket, SOCKS_REPLY_ADDRESS_NOT_SUPPORTED);
+      throw new Error("SOCKS client sent an unsupported address type.");
+    }
+    const port = (await reader.read(2)).readUInt16BE(0);
+    if (command !== 0x01) {
+      sendSocksReply(socket, SOCKS_REPLY_COMMAND_NOT_SUPPORTED);
+      throw new Error("Only SOCKS CONNECT is supported.");
+    }
+    return { host, port };
+  } finally {
+    socket.setTimeout(0);
+    reader.release();
+  }
+}
+
+export function sendSocksReply(socket: Socket, reply: number): void {
+  if (socket.destroyed) {
+    return;
+  }
+  // The bound address is meaningless for tunnelled connections; report 0.0.0.0:0.
+  const packet = Buffer.from([0x05, reply, 0x00, 0x01, 0, 0, 0, 0, 0, 0]);
+  if (reply === SOCKS_REPLY_SUCCEEDED) {
+    socket.write(packet);
+  } else {
+    socket.end(packet);
+  }
+}
+
+function formatIpv6(bytes: Buffer): string {
+  const groups: string[] = [];
+  for (let offset = 0; offset < 16; offset += 2) {
+    groups.push(bytes.readUInt16BE(offset).toString(16));
+  }
+  return groups.join(":");
+}
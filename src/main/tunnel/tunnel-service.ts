@@ -0,0 +1,507 @@
+import { connect as connectTcp, createServer } from "node:net";
+import type { Server, Socket } from "node:net";
+
+import type { WebContents } from "electron";
+import type {
+  AcceptConnection,
+  Client,
+  ClientChannel,
+  RejectConnection,
+  TcpConnectionDetails
+} from "ssh2";
+
+import type { SessionRecord } from "../../shared/session.js";
+import type { TunnelDefinition, TunnelStatus } from "../../shared/tunnel.js";
+import type { SessionStore } from "../storage/session-store.js";
+import type { TerminalLifecycleListener } from "../terminal/terminal-service.js";
+import {
+  SOCKS_REPLY_GENERAL_FAILURE,
+  SOCKS_REPLY_HOST_UNREACHABLE,
+  SOCKS_REPLY_SUCCEEDED,
+  acceptSocksConnect,
+  sendSocksReply
+} from "./socks-server.js";
+
+export const TUNNEL_EVENT_CHANNEL = "tunnels:event";
+
+const STATS_FLUSH_INTERVAL_MS = 1_000;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+interface RunningTunnel {
+  status: TunnelStatus;
+  sockets: Set<Socket>;
+  // Open upstream connections of a dynamic tunnel, keyed by "host:port".
+  targets: Map<string, number>;
+  dirty: boolean;
+  stop(): void;
+}
+
+interface TabTunnelContext {
+  tabId: string;
+  sessionId: string;
+  client: Client;
+  sender: WebContents;
+  tunnels: Map<string, RunningTunnel>;
+  statsTimer?: ReturnType<typeof setInterval>;
+  onTcpConnection: (
+    details: TcpConnectionDetails,
+    accept: AcceptConnection<ClientChannel>,
+    reject: RejectConnection
+  ) => void;
+}
+
+export class TunnelService implements TerminalLifecycleListener {
+  private readonly contexts = new Map<string, TabTunnelContext>();
+
+  constructor(private readonly sessionStore: SessionStore) {}
+
+  onSsh2Ready(tabId: string, session: SessionRecord, client: Client, sender: WebContents): void {
+    this.stopAll(tabId);
+    const context: TabTunnelContext = {
+      tabId,
+      sessionId: session.id,
+      client,
+      sender,
+      tunnels: new Map(),
+      onTcpConnection: (details, accept, reject) => {
+        this.handleRemoteConnection(context, details, accept, reject);
+      }
+    };
+    this.contexts.set(tabId, context);
+    client.on("tcp connection", context.onTcpConnection);
+    for (const definition of session.tunnels ?? []) {
+      // Another tab of the same session may already hold the listener.
+      if (definition.autoStart && !this.isRunningElsewhere(context, definition.id)) {
+        this.startTunnel(context, definition);
+      }
+    }
+  }
+
+  onClosed(tabId: string): void {
+    this.stopAll(tabId);
+  }
+
+  async list(tabId: string): Promise<TunnelStatus[]> {
+    const context = this.contexts.get(tabId);
+    if (!context) {
+      return [];
+    }
+    const definitions = await this.readDefinitions(context);
+    const statuses = definitions.map(
+      (definition) =>
+        context.tunnels.get(definition.id)?.status ?? createStoppedStatus(tabId, definition)
+    );
+    // Tunnels removed from the session keep running until stopped.
+    for (const tunnel of context.tunnels.values()) {
+      if (!definitions.some((definition) => definition.id === tunnel.status.definition.id)) {
+        statuses.push(tunnel.status);
+      }
+    }
+    return statuses;
+  }
+
+  async start(tabId: string, tunnelId: string): Promise<TunnelStatus> {
+    const context = this.getContext(tabId);
+    const existing = context.tunnels.get(tunnelId);
+    if (existing && existing.status.state !== "error") {
+      return existing.status;
+    }
+    const definition = (await this.readDefinitions(context)).find((item) => item.id === tunnelId);
+    if (!definition) {
+      throw new Error("Tunnel definition not found.");
+    }
+    return this.startTunnel(context, definition).status;
+  }
+
+  async stop(tabId: string, tunnelId: string): Promise<void> {
+    const context = this.contexts.get(tabId);
+    const tunnel = context?.tunnels.get(tunnelId);
+    if (!context || !tunnel) {
+      return;
+    }
+    this.stopTunnel(context, tunnel);
+  }
+
+  private startTunnel(context: TabTunnelContext, definition: TunnelDefinition): RunningTunnel {
+    const previous = context.tunnels.get(definition.id);
+    if (previous) {
+      this.stopTunnel(context, previous, false);
+    }
+    const tunnel =
+      definition.kind === "remote"
+        ? this.startRemoteTunnel(context, definition)
+        : definition.kind === "dynamic"
+          ? this.startDynamicTunnel(context, definition)
+          : this.startLocalTunnel(context, definition);
+    context.tunnels.set(definition.id, tunnel);
+    this.emitStatus(context, tunnel);
+    this.ensureStatsTimer(context);
+    return tunnel;
+  }
+
+  private startLocalTunnel(context: TabTunnelContext, definition: TunnelDefinition): RunningTunnel {
+    const tunnel = createRunningTunnel(context.tabId, definition);
+    const server: Server = createServer((socket) => {
+      this.trackSocket(context, tunnel, socket);
+      context.client.forwardOut(
+        socket.remoteAddress ?? "127.0.0.1",
+        socket.remotePort ?? 0,
+        definition.targetHost,
+        definition.targetPort,
+        (error, stream) => {
+          if (error) {
+            tunnel.status.message = `Forward to ${definition.targetHost}:${definition.targetPort} failed: ${error.message}`;
+            tunnel.dirty = true;
+            socket.destroy();
+            return;
+          }
+          if (socket.destroyed) {
+            stream.close();
+            return;
+          }
+          this.pipeCounted(tunnel, socket, stream);
+        }
+      );
+    });
+    this.listenLocally(context, tunnel, server);
+    return tunnel;
+  }
+
+  // Local SOCKS5 server (`ssh -D`); every CONNECT becomes a forwardOut on the tab's client.
+  private startDynamicTunnel(
+    context: TabTunnelContext,
+    definition: TunnelDefinition
+  ): RunningTunnel {
+    const tunnel = createRunningTunnel(context.tabId, definition);
+    const server: Server = createServer((socket) => {
+      this.trackSocket(context, tunnel, socket);
+      void acceptSocksConnect(socket)
+        .then(({ host, port }) => {
+          context.client.forwardOut(
+            socket.remoteAddress ?? "127.0.0.1",
+            socket.remotePort ?? 0,
+            host,
+            port,
+            (error, stream) => {
+              if (error) {
+                tunnel.status.message = `Upstream ${host}:${port} failed: ${error.message}`;
+                tunnel.dirty = true;
+                sendSocksReply(socket, SOCKS_REPLY_HOST_UNREACHABLE);
+                return;
+              }
+              if (socket.destroyed) {
+                stream.close();
+                return;
+              }
+              sendSocksReply(socket, SOCKS_REPLY_SUCCEEDED);
+              this.trackTarget(tunnel, socket, `${host}:${port}`);
+              this.pipeCounted(tunnel, socket, stream);
+            }
+          );
+        })
+        .catch(() => {
+          sendSocksReply(socket, SOCKS_REPLY_GENERAL_FAILURE);
+        });
+    });
+    this.listenLocally(context, tunnel, server);
+    return tunnel;
+  }
+
+  private listenLocally(context: TabTunnelContext, tunnel: RunningTunnel, server: Server): void {
+    const { definition } = tunnel.status;
+    tunnel.stop = () => {
+      server.close();
+    };
+    server.once("error", (error: NodeJS.ErrnoException) => {
+      tunnel.status.state = "error";
+      tunnel.status.message = describeListenError(error, definition);
+      this.emitStatus(context, tunnel);
+      server.close();
+    });
+    server.listen(definition.bindPort, definition.bindHost, () => {
+      tunnel.status.state = "active";
+      tunnel.status.message = undefined;
+      this.emitStatus(context, tunnel);
+    });
+  }
+
+  private trackTarget(tunnel: RunningTunnel, socket: Socket, target: string): void {
+    const update = (delta: number) => {
+      const count = (tunnel.targets.get(target) ?? 0) + delta;
+      if (count > 0) {
+        tunnel.targets.set(target, count);
+      } else {
+        tunnel.targets.delete(target);
+      }
+      tunnel.status.activeTargets = [...tunnel.targets.keys()].sort();
+      tunnel.dirty = true;
+    };
+    update(1);
+    socket.once("close", () => update(-1));
+  }
+
+  private startRemoteTunnel(context: TabTunnelContext, definition: TunnelDefinition): RunningTunnel {
+    const tunnel = createRunningTunnel(context.tabId, definition);
+    let bound = false;
+    tunnel.stop = () => {
+      if (bound) {
+        bound = false;
+        unforwardQuietly(context.client, definition);
+      }
+    };
+
+    context.client.forwardIn(definition.bindHost, definition.bindPort, (error) => {
+      if (context.tunnels.get(definition.id) !== tunnel) {
+        // Stopped (or restarted) while the server was still answering.
+        if (!error) {
+          unforwardQuietly(context.client, definition);
+        }
+        return;
+      }
+      if (error) {
+        tunnel.status.state = "error";
+        tunnel.status.message = describeRemoteBindError(definition);
+        this.emitStatus(context, tunnel);
+        return;
+      }
+      bound = true;
+      tunnel.status.state = "active";
+      tunnel.status.message = LOOPBACK_HOSTS.has(definition.bindHost)
+        ? undefined
+        : "Servers without GatewayPorts enabled only accept connections on their loopback address.";
+      this.emitStatus(context, tunnel);
+    });
+    return tunnel;
+  }
+
+  // The server opens one "forwarded-tcpip" channel per inbound connection; route it by bound port.
+  private handleRemoteConnection(
+    context: TabTunnelContext,
+    details: TcpConnectionDetails,
+    accept: AcceptConnection<ClientChannel>,
+    reject: RejectConnection
+  ): void {
+    // Tabs sharing a pooled client all listen; the first one routes for every peer.
+    const peers = [...this.contexts.values()].filter((peer) => peer.client === context.client);
+    if (peers[0] !== context) {
+      return;
+    }
+    for (const peer of peers) {
+      const tunnel = [...peer.tunnels.values()].find(
+        (candidate) =>
+          candidate.status.definition.kind === "remote" &&
+          candidate.status.state === "active" &&
+          candidate.status.definition.bindPort === details.destPort
+      );
+      if (tunnel) {
+        this.acceptRemoteConnection(peer, tunnel, accept, reject);
+        return;
+      }
+    }
+    reject();
+  }
+
+  private acceptRemoteConnection(
+    context: TabTunnelContext,
+    tunnel: RunningTunnel,
+    accept: AcceptConnection<ClientChannel>,
+    reject: RejectConnection
+  ): void {
+    const { targetHost, targetPort } = tunnel.status.definition;
+    const socket = connectTcp({ host: targetHost, port: targetPort });
+    let connected = false;
+    this.trackSocket(context, tunnel, socket);
+    socket.once("connect", () => {
+      connected = true;
+      this.pipeCounted(tunnel, socket, accept());
+    });
+    socket.once("error", (error) => {
+      if (connected) {
+        return;
+      }
+      tunnel.status.message = `Local target ${targetHost}:${targetPort} is unreachable: ${error.message}`;
+      tunnel.dirty = true;
+      reject();
+    });
+  }
+
+  private trackSocket(context: TabTunnelContext, tunnel: RunningTunnel, socket: Socket): void {
+    tunnel.sockets.add(socket);
+    tunnel.status.activeConnections += 1;
+    tunnel.status.totalConnections += 1;
+    tunnel.dirty = true;
+    socket.on("error", () => {
+      socket.destroy();
+    });
+    socket.once("close", () => {
+      tunnel.sockets.delete(socket);
+      tunnel.status.activeConnections = Math.max(0, tunnel.status.activeConnections - 1);
+      tunnel.dirty = true;
+      this.flushStats(context);
+    });
+    this.flushStats(context);
+  }
+
+  // Pipes a local socket and an SSH channel into each other, counting bytes per direction.
+  private pipeCounted(
+    tunnel: RunningTunnel,
+    socket: Socket,
+    stream: ClientChannel
+  ): void {
+    socket.on("data", (chunk: Buffer) => {
+      tunnel.status.bytesOut += chunk.length;
+      tunnel.dirty = true;
+    });
+    stream.on("data", (chunk: Buffer) => {
+      tunnel.status.bytesIn += chunk.length;
+      tunnel.dirty = true;
+    });
+    stream.on("error", () => {
+      socket.destroy();
+    });
+    stream.once("close", () => {
+      socket.destroy();
+    });
+    socket.once("close", () => {
+      stream.destroy();
+    });
+    socket.pipe(stream).pipe(socket);
+  }
+
+  private stopTunnel(context: TabTunnelContext, tunnel: RunningTunnel, emit = true): void {
+    tunnel.stop();
+    for (const socket of tunnel.sockets) {
+      socket.destroy();
+    }
+    tunnel.sockets.clear();
+    tunnel.targets.clear();
+    context.tunnels.delete(tunnel.status.definition.id);
+    tunnel.status = {
+      ...tunnel.status,
+      state: "stopped",
+      activeConnections: 0,
+      activeTargets: undefined,
+      message: undefined
+    };
+    if (emit) {
+      this.emitStatus(context, tunnel);
+    }
+    if (context.tunnels.size === 0) {
+      clearInterval(context.statsTimer);
+      context.statsTimer = undefined;
+    }
+  }
+
+  private stopAll(tabId: string): void {
+    const context = this.contexts.get(tabId);
+    if (!context) {
+      return;
+    }
+    this.contexts.delete(tabId);
+    context.client.off("tcp connection", context.onTcpConnection);
+    for (const tunnel of [...context.tunnels.values()]) {
+      this.stopTunnel(context, tunnel);
+    }
+    clearInterval(context.statsTimer);
+  }
+
+  private ensureStatsTimer(context: TabTunnelContext): void {
+    if (context.statsTimer) {
+      return;
+    }
+    context.statsTimer = setInterval(() => {
+      this.flushStats(context);
+    }, STATS_FLUSH_INTERVAL_MS);
+  }
+
+  private flushStats(context: TabTunnelContext): void {
+    for (const tunnel of context.tunnels.values()) {
+      if (tunnel.dirty) {
+        this.emitStatus(context, tunnel);
+      }
+    }
+  }
+
+  private emitStatus(context: TabTunnelContext, tunnel: RunningTunnel): void {
+    tunnel.dirty = false;
+    if (context.sender.isDestroyed()) {
+      return;
+    }
+    context.sender.send(TUNNEL_EVENT_CHANNEL, { ...tunnel.status });
+  }
+
+  private isRunningElsewhere(context: TabTunnelContext, tunnelId: string): boolean {
+    return [...this.contexts.values()].some(
+      (other) =>
+        other !== context &&
+        other.sessionId === context.sessionId &&
+        (other.tunnels.get(tunnelId)?.status.state ?? "error") !== "error"
+    );
+  }
+
+  private async readDefinitions(context: TabTunnelContext): Promise<TunnelDefinition[]> {
+    const session = await this.sessionStore.getById(context.sessionId);
+    return session?.tunnels ?? [];
+  }
+
+  private getContext(tabId: string): TabTunnelContext {
+    const context = this.contexts.get(tabId);
+    if (!context) {
+      throw new Error("Tunnels need a connected SSH tab.");
+    }
+    return context;
+  }
+}
+
+function createRunningTunnel(tabId: string, definition: TunnelDefinition): RunningTunnel {
+  return {
+    status: { ...createStoppedStatus(tabId, definition), state: "starting" },
+    sockets: new Set(),
+    targets: new Map(),
+    dirty: false,
+    stop: () => undefined
+  };
+}
+
+function createStoppedStatus(tabId: string, definition: TunnelDefinition): TunnelStatus {
+  return {
+    tabId,
+    definition,
+    state: "stopped",
+    activeConnections: 0,
+    totalConnections: 0,
+    bytesIn: 0,
+    bytesOut: 0
+  };
+}
+
+// The client may already be gone when a tab closes; the server drops its listeners with it.
+function unforwardQuietly(client: Client, definition: TunnelDefinition): void {
+  try {
+    client.unforwardIn(definition.bindHost, definition.bindPort);
+  } catch {
+    // Not connected anymore.
+  }
+}
+
+function describeRemoteBindError(definition: TunnelDefinition): string {
+  const address = `${definition.bindHost}:${definition.bindPort}`;
+  const hint = LOOPBACK_HOSTS.has(definition.bindHost)
+    ? "The port may be in use, or the server disables remote forwarding (AllowTcpForwarding)."
+    : "The server may only allow loopback binds (GatewayPorts), disable remote forwarding (AllowTcpForwarding), or the port is in use.";
+  return `Server refused to listen on ${address}. ${hint}`;
+}
+
+function describeListenError(error: NodeJS.ErrnoException, definition: TunnelDefinition): string {
+  const address = `${definition.bindHost}:${definition.bindPort}`;
+  if (error.code === "EADDRINUSE") {
+    return `Local address ${address} is already in use.`;
+  }
+  if (error.code === "EACCES") {
+    return `Permission denied to listen on ${address}. Ports below 1024 usually need admin rights.`;
+  }
+  if (error.code === "EADDRNOTAVAIL") {
+    return `Local address ${definition.bindHost} is not available on this machine.`;
+  }
+  return `Unable to listen on ${address}: ${error.message}`;
+}
@@ -9,9 +9,19 @@ import {
   useState
 } from "react";
 
+import type { ConnectionPolicy } from "../shared/connection-policy";
+import type { KeyboardInteractivePrompt } from "../shared/keyboard-interactive";
+import type { HostKeyPrompt } from "../shared/known-hosts";
+import type { SessionProxyMode } from "../shared/proxy";
+import { DEFAULT_SESSION_PORTS, SESSION_ENCODING_LABELS } from "../shared/session";
 import type {
+  SessionAuthMethod,
   SessionCreateInput,
+  SessionEncoding,
+  SessionPersistence,
+  SessionProtocol,
   SessionRecord,
+  SessionTestConnectionResult,
   SessionUpdateInput
 } from "../shared/session";
 import type {
@@ -19,7 +29,38 @@ import type {
   SftpEntry,
   SftpTransferEvent
 } from "../shared/sftp";
+import type { TerminalEvent } from "../shared/terminal";
+import type { TunnelDefinition } from "../shared/tunnel";
+import { AuthFallbackFields } from "./components/auth-fallback-fields";
+import {
+  ConnectionPolicyFields,
+  validateConnectionPolicy
+} from "./components/connection-policy-fields";
+import { ConnectionTestReport } from "./components/connection-test-report";
+import { HostKeyPromptModal } from "./components/host-key-prompt-modal";
+import { JumpHostPicker } from "./components/jump-host-picker";
+import { KeyboardInteractiveModal } from "./components/keyboard-interactive-modal";
+import { KnownHostsManager } from "./components/known-hosts-manager";
+import { DEFAULT_PROXY_CONFIG, ProxyFields, validateProxyConfig } from "./components/proxy-fields";
+import { ProxySettingsModal } from "./components/proxy-settings-modal";
+import { ExpectRulesEditor, validateExpectRules } from "./components/expect-rules-editor";
+import {
+  SessionStartupFields,
+  validateSessionEnvironment
+} from "./components/session-startup-fields";
+import {
+  SshAlgorithmFields,
+  validateSshAlgorithmSettings
+} from "./components/ssh-algorithm-fields";
+import { SshCertificateField } from "./components/ssh-certificate-field";
+import { SshConfigExportModal } from "./components/ssh-config-export-modal";
+import { SshConfigImportModal } from "./components/ssh-config-import-modal";
 import { TerminalWorkspace } from "./components/terminal-workspace";
+import {
+  TunnelDefinitionsEditor,
+  validateTunnelDefinitions
+} from "./components/tunnel-definitions-editor";
+import { TunnelPanel } from "./components/tunnel-panel";
 import type {
   ConnectionPreferences,
   HotkeyPreferences,
@@ -28,15 +69,34 @@ import type {
 
 const EMPTY_FORM: SessionCreateInput = {
   name: "",
+  protocol: "ssh",
   host: "",
   port: 22,
   username: "",
   authType: "password",
+  fallbackAuthMethods: [],
+  fallbackPassword: "",
+  fallbackPassphrase: "",
   privateKeyPath: "",
+  certificatePath: "",
+  agentForward: false,
+  jumpSessionIds: [],
+  proxyMode: "global",
+  proxyPassword: "",
+  tunnels: [],
+  dedicatedConnection: false,
+  algorithms: { preset: "default" },
+  environment: {},
+  startDirectory: "",
+  startupCommands: [],
+  persistence: "off",
+  encoding: "utf-8",
+  expectRules: [],
   remark: "",
   favorite: false,
   secret: ""
 };
+const NO_TUNNELS: TunnelDefinition[] = [];
 
 const CONNECTION_PREFERENCES_STORAGE_KEY = "termdock.connection-preferences.v1";
 const HOTKEY_PREFERENCES_STORAGE_KEY = "termdock.hotkey-preferences.v1";
@@ -97,10 +157,46 @@ function getSafeTabInstance(value: unknown): number {
   return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
 }
 
+const LOCAL_TERMINAL_TITLE = "Local Terminal";
+
 function formatTabTitle(sessionName: string, instance: number): string {
   return instance <= 1 ? sessionName : `${sessionName} (${instance})`;
 }
 
+// Keeps the tabs of a control-mode tab's tmux windows in step with tmux.
+function applyTmuxWindowEvent(
+  tabs: TerminalTab[],
+  event: Extract<TerminalEvent, { type: "tmuxWindow" }>
+): TerminalTab[] {
+  if (event.action === "closed") {
+    return tabs.filter((tab) => tab.id !== event.windowTabId);
+  }
+  const control = tabs.find((tab) => tab.id === event.tabId);
+  if (!control) {
+    return tabs;
+  }
+  const title = `${control.title}: ${event.title ?? ""}`;
+  const existing = tabs.find((tab) => tab.id === event.windowTabId);
+  if (existing) {
+    return existing.title === title
+      ? tabs
+      : tabs.map((tab) => (tab.id === existing.id ? { ...tab, title } : tab));
+  }
+  if (event.action !== "opened") {
+    return tabs;
+  }
+  return [
+    ...tabs,
+    {
+      id: event.windowTabId,
+      sessionId: control.sessionId,
+      title,
+      instance: control.instance,
+      tmuxControlTabId: control.id
+    }
+  ];
+}
+
 function compareSessionRecency(left: SessionRecord, right: SessionRecord): number {
   const leftRecent = left.lastConnectedAt ?? "";
   const rightRecent = right.lastConnectedAt ?? "";
@@ -388,17 +484,88 @@ function readFileOpenPreferences(): FileOpenPreferences {
 function toFormFromSession(session: SessionRecord): SessionCreateInput {
   return {
     name: session.name,
+    protocol: session.protocol ?? "ssh",
     host: session.host,
     port: session.port,
     username: session.username,
     authType: session.authType,
+    fallbackAuthMethods: session.fallbackAuthMethods ?? [],
+    fallbackPassword: "",
+    fallbackPassphrase: "",
     privateKeyPath: session.privateKeyPath ?? "",
+    certificatePath: session.certificatePath ?? "",
+    agentForward: session.agentForward ?? false,
+    jumpSessionIds: session.jumpSessionIds ?? [],
+    proxyMode: session.proxyMode ?? "global",
+    proxy: session.proxy,
+    proxyPassword: "",
+    tunnels: session.tunnels ?? [],
+    dedicatedConnection: session.dedicatedConnection ?? false,
+    algorithms: session.algorithms ?? { preset: "default" },
+    connectionPolicy: session.connectionPolicy ?? {},
+    environment: session.environment ?? {},
+    startDirectory: session.startDirectory ?? "",
+    startupCommands: session.startupCommands ?? [],
+    persistence: session.persistence ?? "off",
+    encoding: session.encoding ?? "utf-8",
+    expectRules: (session.expectRules ?? []).map((rule) => ({
+      id: rule.id,
+      pattern: rule.pattern,
+      send: rule.send,
+      sendSecret: rule.sendSecret,
+      pressEnter: rule.pressEnter,
+      timeoutSeconds: rule.timeoutSeconds
+    })),
     remark: session.remark ?? "",
     favorite: session.favorite,
     secret: ""
   };
 }
 
+// Telnet and raw TCP sessions keep their SSH settings, but connecting ignores them.
+function usesSsh(form: SessionCreateInput): boolean {
+  return (form.protocol ?? "ssh") === "ssh";
+}
+
+// Fallbacks equal to the auth type are dropped by the store as well.
+function getFallbackAuthMethods(form: SessionCreateInput): SessionAuthMethod[] {
+  return (form.fallbackAuthMethods ?? []).filter((method) => method !== form.authType);
+}
+
+function usesPrivateKey(form: SessionCreateInput): boolean {
+  return form.authType === "privateKey" || getFallbackAuthMethods(form).includes("privateKey");
+}
+
+function formatSessionTarget(session: SessionRecord): string {
+  return session.protocol
+    ? `${session.protocol}://${session.host}:${session.port}`
+    : `${session.username}@${session.host}:${session.port}`;
+}
+
+function formatSessionAuthType(session: SessionRecord): string {
+  if (session.protocol) {
+    return "Logs in inside the terminal";
+  }
+  const label =
+    session.authType === "agent"
+      ? "SSH agent"
+      : session.authType === "privateKey"
+        ? "Private key"
+        : "Password";
+  return session.agentForward ? `${label} (agent forwarding)` : label;
+}
+
+function formatSessionProxy(session: SessionRecord): string {
+  if (session.proxyMode === "direct") {
+    return "Direct";
+  }
+  if (session.proxyMode === "custom" && session.proxy) {
+    const type = session.proxy.type === "http" ? "HTTP" : "SOCKS5";
+    return `${type} ${session.proxy.host}:${session.proxy.port}`;
+  }
+  return "Global setting";
+}
+
 function normalizeHostForRule(host: string): string {
   const trimmed = host.trim();
   if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
@@ -464,6 +631,10 @@ export function App() {
   const systemApi = bridge?.system ?? null;
   const terminalApi = bridge?.terminal ?? null;
   const sftpApi = bridge?.sftp ?? null;
+  const knownHostsApi = bridge?.knownHosts ?? null;
+  const proxyApi = bridge?.proxy ?? null;
+  const authApi = bridge?.auth ?? null;
+  const tunnelsApi = bridge?.tunnels ?? null;
   const isMacPlatform = /mac/i.test(navigator.platform);
   const hotkeyModifierLabel = isMacPlatform ? "Cmd" : "Ctrl";
 
@@ -480,6 +651,14 @@ export function App() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isKnownHostsOpen, setIsKnownHostsOpen] = useState(false);
+  const [isProxySettingsOpen, setIsProxySettingsOpen] = useState(false);
+  const [isSshConfigImportOpen, setIsSshConfigImportOpen] = useState(false);
+  const [isSshConfigExportOpen, setIsSshConfigExportOpen] = useState(false);
+  const [hostKeyPrompts, setHostKeyPrompts] = useState<HostKeyPrompt[]>([]);
+  const [keyboardInteractivePrompts, setKeyboardInteractivePrompts] = useState<
+    KeyboardInteractivePrompt[]
+  >([]);
   const [connectionPreferences, setConnectionPreferences] = useState<ConnectionPreferences>(
     () => readConnectionPreferences()
   );
@@ -489,10 +668,8 @@ export function App() {
   const [fileOpenPreferences, setFileOpenPreferences] = useState<FileOpenPreferences>(
     () => readFileOpenPreferences()
   );
-  const [testConnectionResult, setTestConnectionResult] = useState<{
-    ok: boolean;
-    message: string;
-  } | null>(null);
+  const [testConnectionResult, setTestConnectionResult] =
+    useState<SessionTestConnectionResult | null>(null);
   const [sftpDirectory, setSftpDirectory] = useState<SftpDirectoryListResult | null>(null);
   const [sftpPath, setSftpPath] = useState(".");
   const [sftpLoading, setSftpLoading] = useState(false);
@@ -514,6 +691,13 @@ export function App() {
     () => sessions.find((session) => session.id === selectedSessionId) ?? null,
     [sessions, selectedSessionId]
   );
+  const connectionPolicies = useMemo(() => {
+    const policies: Record<string, ConnectionPolicy | undefined> = {};
+    for (const session of sessions) {
+      policies[session.id] = session.connectionPolicy;
+    }
+    return policies;
+  }, [sessions]);
   const filteredSessions = useMemo(() => {
     const normalizedQuery = sessionFilterQuery.trim().toLowerCase();
     const filtered = sessions.filter((session) => {
@@ -548,6 +732,16 @@ export function App() {
     () => terminalTabs.find((tab) => tab.id === activeTabId) ?? null,
     [activeTabId, terminalTabs]
   );
+  const activeTabTunnels = useMemo(
+    () =>
+      sessions.find((session) => session.id === activeTerminalTab?.sessionId)?.tunnels ??
+      NO_TUNNELS,
+    [activeTerminalTab?.sessionId, sessions]
+  );
+  const activeTabProtocol = useMemo(
+    () => sessions.find((session) => session.id === activeTerminalTab?.sessionId)?.protocol,
+    [activeTerminalTab?.sessionId, sessions]
+  );
   const selectedSftpEntry = useMemo<SftpEntry | null>(() => {
     if (!sftpDirectory || !selectedSftpPath) {
       return null;
@@ -887,6 +1081,61 @@ export function App() {
     };
   }, [appApi]);
 
+  useEffect(() => {
+    if (!knownHostsApi) {
+      return;
+    }
+    const stopListening = knownHostsApi.onPrompt((prompt) => {
+      setHostKeyPrompts((prev) => [...prev, prompt]);
+    });
+    return () => {
+      stopListening();
+    };
+  }, [knownHostsApi]);
+
+  useEffect(() => {
+    if (!authApi) {
+      return;
+    }
+    const stopListening = authApi.onKeyboardInteractivePrompt((prompt) => {
+      setKeyboardInteractivePrompts((prev) => [...prev, prompt]);
+    });
+    return () => {
+      stopListening();
+    };
+  }, [authApi]);
+
+  const respondKeyboardInteractivePrompt = useCallback(
+    (prompt: KeyboardInteractivePrompt, responses: string[] | null) => {
+      setKeyboardInteractivePrompts((prev) =>
+        prev.filter((item) => item.requestId !== prompt.requestId)
+      );
+      if (!authApi) {
+        return;
+      }
+      void authApi
+        .respondKeyboardInteractive(prompt.requestId, responses)
+        .catch((caughtError) => {
+          setError((caughtError as Error).message);
+        });
+    },
+    [authApi]
+  );
+
+  const respondHostKeyPrompt = useCallback(
+    (prompt: HostKeyPrompt, accepted: boolean) => {
+      setHostKeyPrompts((prev) => prev.filter((item) => item.requestId !== prompt.requestId));
+      // Changed-key notices are informational; the main process already blocked the connection.
+      if (prompt.kind !== "unknown" || !knownHostsApi) {
+        return;
+      }
+      void knownHostsApi.respondPrompt(prompt.requestId, accepted).catch((caughtError) => {
+        setError((caughtError as Error).message);
+      });
+    },
+    [knownHostsApi]
+  );
+
   useEffect(() => {
     if (terminalTabs.length === 0) {
       return;
@@ -896,6 +1145,10 @@ export function App() {
       let changed = false;
       const maxInstanceBySession = new Map<string, number>();
       const next = prev.map((tab) => {
+        // Named after their tmux window; they share the control tab's instance.
+        if (tab.tmuxControlTabId) {
+          return tab;
+        }
         const rawInstance = getSafeTabInstance(tab.instance);
         const fallbackInstance = (maxInstanceBySession.get(tab.sessionId) ?? 0) + 1;
         const safeInstance = rawInstance > 0 ? rawInstance : fallbackInstance;
@@ -904,9 +1157,10 @@ export function App() {
           Math.max(maxInstanceBySession.get(tab.sessionId) ?? 0, safeInstance)
         );
 
-        const sessionName =
-          sessions.find((session) => session.id === tab.sessionId)?.name ??
-          tab.title.replace(/\s*\(NaN\)\s*$/i, "");
+        const sessionName = tab.local
+          ? LOCAL_TERMINAL_TITLE
+          : sessions.find((session) => session.id === tab.sessionId)?.name ??
+            tab.title.replace(/\s*\(NaN\)\s*$/i, "");
         const safeTitle = formatTabTitle(sessionName, safeInstance);
 
         if (tab.instance !== safeInstance || tab.title !== safeTitle) {
@@ -947,6 +1201,18 @@ export function App() {
     }
 
     const stopListening = terminalApi.onEvent((event) => {
+      if (event.type === "tmuxWindow") {
+        // The control tab shows the first window itself.
+        if (event.windowTabId !== event.tabId) {
+          setTerminalTabs((prev) => applyTmuxWindowEvent(prev, event));
+        }
+        if (event.focus) {
+          setActiveTabId(event.windowTabId);
+        } else if (event.action === "closed" && event.windowTabId === activeTabId) {
+          setActiveTabId(event.tabId);
+        }
+        return;
+      }
       if (event.type === "status") {
         if (event.status === "connected") {
           connectedTabIdsRef.current.add(event.tabId);
@@ -1115,12 +1381,24 @@ export function App() {
     setIsCreateModalOpen(false);
   };
 
-  const normalizeFormForSubmit = (): SessionCreateInput => ({
-    ...form,
-    secret: form.secret?.trim(),
-    privateKeyPath:
-      form.authType === "privateKey" ? form.privateKeyPath?.trim() : undefined
-  });
+  const normalizeFormForSubmit = (): SessionCreateInput => {
+    const fallbackAuthMethods = getFallbackAuthMethods(form);
+    return {
+      ...form,
+      secret: form.authType === "agent" ? undefined : form.secret?.trim(),
+      fallbackAuthMethods,
+      fallbackPassword: fallbackAuthMethods.includes("password")
+        ? form.fallbackPassword?.trim()
+        : undefined,
+      fallbackPassphrase: fallbackAuthMethods.includes("privateKey")
+        ? form.fallbackPassphrase?.trim()
+        : undefined,
+      privateKeyPath: usesPrivateKey(form) ? form.privateKeyPath?.trim() : undefined,
+      certificatePath: usesPrivateKey(form) ? form.certificatePath?.trim() : undefined,
+      proxy: form.proxyMode === "custom" ? form.proxy ?? DEFAULT_PROXY_CONFIG : undefined,
+      proxyPassword: form.proxyMode === "custom" ? form.proxyPassword?.trim() : undefined
+    };
+  };
 
   const handleCreateSession = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -1128,16 +1406,55 @@ export function App() {
     const editingPasswordExists =
       isEditing && editingSession?.authType === "password" && editingSession.hasSecret;
     const normalizedSecret = form.secret?.trim();
-    if (!form.name.trim() || !form.host.trim() || !form.username.trim()) {
-      setError("Name, host and username are required.");
+    // Telnet and raw TCP logins happen in the terminal, so they need no username.
+    if (!form.name.trim() || !form.host.trim() || (usesSsh(form) && !form.username.trim())) {
+      setError(
+        usesSsh(form) ? "Name, host and username are required." : "Name and host are required."
+      );
       return;
     }
-    if (form.authType === "password" && !normalizedSecret && !editingPasswordExists) {
+    if (
+      usesSsh(form) &&
+      form.authType === "password" &&
+      !normalizedSecret &&
+      !editingPasswordExists
+    ) {
       setError("Password is required when auth type is password.");
       return;
     }
-    if (form.authType === "privateKey" && !form.privateKeyPath?.trim()) {
-      setError("Private key path is required when auth type is private key.");
+    if (usesSsh(form) && usesPrivateKey(form) && !form.privateKeyPath?.trim()) {
+      setError("Private key path is required when private key authentication is used.");
+      return;
+    }
+    const proxyError =
+      form.proxyMode === "custom" ? validateProxyConfig(form.proxy ?? DEFAULT_PROXY_CONFIG) : null;
+    if (proxyError) {
+      setError(proxyError);
+      return;
+    }
+    const tunnelError = usesSsh(form) ? validateTunnelDefinitions(form.tunnels ?? []) : null;
+    if (tunnelError) {
+      setError(tunnelError);
+      return;
+    }
+    const algorithmError = usesSsh(form) ? validateSshAlgorithmSettings(form.algorithms) : null;
+    if (algorithmError) {
+      setError(algorithmError);
+      return;
+    }
+    const policyError = validateConnectionPolicy(form.connectionPolicy);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    const environmentError = usesSsh(form) ? validateSessionEnvironment(form.environment) : null;
+    if (environmentError) {
+      setError(environmentError);
+      return;
+    }
+    const expectError = validateExpectRules(form.expectRules ?? []);
+    if (expectError) {
+      setError(expectError);
       return;
     }
 
@@ -1152,19 +1469,60 @@ export function App() {
       if (isEditing && editingSessionId) {
         const patch: SessionUpdateInput = {
           name: normalizedForm.name,
+          protocol: normalizedForm.protocol ?? "ssh",
           host: normalizedForm.host,
           port: normalizedForm.port,
           username: normalizedForm.username,
           authType: normalizedForm.authType,
-          privateKeyPath:
-            normalizedForm.authType === "privateKey"
-              ? normalizedForm.privateKeyPath
-              : "",
+          fallbackAuthMethods: normalizedForm.fallbackAuthMethods ?? [],
+          privateKeyPath: usesPrivateKey(normalizedForm) ? normalizedForm.privateKeyPath : "",
+          certificatePath: usesPrivateKey(normalizedForm) ? normalizedForm.certificatePath : "",
+          agentForward: normalizedForm.agentForward ?? false,
+          jumpSessionIds: normalizedForm.jumpSessionIds ?? [],
+          proxyMode: normalizedForm.proxyMode ?? "global",
+          proxy: normalizedForm.proxy,
+          tunnels: normalizedForm.tunnels ?? [],
+          dedicatedConnection: normalizedForm.dedicatedConnection ?? false,
+          algorithms: normalizedForm.algorithms ?? { preset: "default" },
+          connectionPolicy: normalizedForm.connectionPolicy ?? {},
+          environment: normalizedForm.environment ?? {},
+          startDirectory: normalizedForm.startDirectory ?? "",
+          startupCommands: normalizedForm.startupCommands ?? [],
+          persistence: usesSsh(normalizedForm) ? normalizedForm.persistence ?? "off" : "off",
+          encoding: normalizedForm.encoding ?? "utf-8",
+          expectRules: normalizedForm.expectRules ?? [],
           remark: normalizedForm.remark,
           favorite: normalizedForm.favorite
         };
         if (normalizedForm.secret) {
           patch.secret = normalizedForm.secret;
+        } else if (normalizedForm.authType === "agent" && editingSession?.hasSecret) {
+          // Agent sessions never use a stored secret; drop the previous password/passphrase.
+          patch.secret = "";
+        }
+        if (normalizedForm.fallbackPassword) {
+          patch.fallbackPassword = normalizedForm.fallbackPassword;
+        } else if (
+          editingSession?.hasFallbackPassword &&
+          !normalizedForm.fallbackAuthMethods?.includes("password")
+        ) {
+          patch.fallbackPassword = "";
+        }
+        if (normalizedForm.fallbackPassphrase) {
+          patch.fallbackPassphrase = normalizedForm.fallbackPassphrase;
+        } else if (
+          editingSession?.hasFallbackPassphrase &&
+          !normalizedForm.fallbackAuthMethods?.includes("privateKey")
+        ) {
+          patch.fallbackPassphrase = "";
+        }
+        if (normalizedForm.proxyPassword) {
+          patch.proxyPassword = normalizedForm.proxyPassword;
+        } else if (
+          editingSession?.hasProxyPassword &&
+          (normalizedForm.proxyMode !== "custom" || !normalizedForm.proxy?.username?.trim())
+        ) {
+          patch.proxyPassword = "";
         }
         const updated = await sessionsApi.update(editingSessionId, patch);
         setSessions((prev) =>
@@ -1194,18 +1552,38 @@ export function App() {
       setError("Session bridge unavailable. Restart `pnpm dev`.");
       return;
     }
-    if (!form.host?.trim() || !form.username?.trim()) {
-      setError("Host and username are required for connection test.");
+    if (!form.host?.trim() || (usesSsh(form) && !form.username?.trim())) {
+      setError(
+        usesSsh(form)
+          ? "Host and username are required for connection test."
+          : "Host is required for connection test."
+      );
       return;
     }
-    if (form.authType === "password" && !form.secret?.trim()) {
+    if (usesSsh(form) && form.authType === "password" && !form.secret?.trim()) {
       setError("Password is required for connection test.");
       return;
     }
-    if (form.authType === "privateKey" && !form.privateKeyPath?.trim()) {
+    if (usesSsh(form) && usesPrivateKey(form) && !form.privateKeyPath?.trim()) {
       setError("Private key path is required for connection test.");
       return;
     }
+    const proxyError =
+      form.proxyMode === "custom" ? validateProxyConfig(form.proxy ?? DEFAULT_PROXY_CONFIG) : null;
+    if (proxyError) {
+      setError(proxyError);
+      return;
+    }
+    const algorithmError = usesSsh(form) ? validateSshAlgorithmSettings(form.algorithms) : null;
+    if (algorithmError) {
+      setError(algorithmError);
+      return;
+    }
+    const policyError = validateConnectionPolicy(form.connectionPolicy);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
 
     setTestingConnection(true);
     setError(null);
@@ -1247,7 +1625,40 @@ export function App() {
     setActiveTabId(id);
   }, [terminalApi]);
 
+  const openLocalTerminalTab = useCallback(() => {
+    if (!terminalApi) {
+      setError("Terminal bridge unavailable. Restart `pnpm dev`.");
+      return;
+    }
+
+    const id = `local-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+    setTerminalTabs((prev) => {
+      const nextInstance = prev
+        .filter((tab) => tab.local)
+        .reduce((max, tab) => Math.max(max, getSafeTabInstance(tab.instance)), 0) + 1;
+      const nextTab: TerminalTab = {
+        id,
+        sessionId: "",
+        title: formatTabTitle(LOCAL_TERMINAL_TITLE, nextInstance),
+        instance: nextInstance,
+        local: true
+      };
+      return [...prev, nextTab];
+    });
+    setActiveTabId(id);
+  }, [terminalApi]);
+
   const closeTerminalTab = useCallback((tabId: string) => {
+    for (const prompt of hostKeyPrompts) {
+      if (prompt.tabId === tabId) {
+        respondHostKeyPrompt(prompt, false);
+      }
+    }
+    for (const prompt of keyboardInteractivePrompts) {
+      if (prompt.tabId === tabId) {
+        respondKeyboardInteractivePrompt(prompt, null);
+      }
+    }
     connectedTabIdsRef.current.delete(tabId);
     ensuredRemoteDirectoriesRef.current.delete(tabId);
     const queuedJobs = uploadQueueRef.current.filter((job) => job.tabId === tabId);
@@ -1273,14 +1684,27 @@ export function App() {
       void terminalApi.close(tabId);
     }
 
-    const nextTabs = terminalTabs.filter((tab) => tab.id !== tabId);
+    // Closing a control tab detaches from tmux, which takes its window tabs along.
+    const nextTabs = terminalTabs.filter(
+      (tab) => tab.id !== tabId && tab.tmuxControlTabId !== tabId
+    );
     setTerminalTabs(nextTabs);
 
     if (activeTabId !== tabId) {
       return;
     }
     setActiveTabId(nextTabs.length > 0 ? nextTabs[nextTabs.length - 1].id : null);
-  }, [activeTabId, applySftpTransferEvent, drainUploadQueue, terminalApi, terminalTabs]);
+  }, [
+    activeTabId,
+    applySftpTransferEvent,
+    drainUploadQueue,
+    hostKeyPrompts,
+    keyboardInteractivePrompts,
+    respondHostKeyPrompt,
+    respondKeyboardInteractivePrompt,
+    terminalApi,
+    terminalTabs
+  ]);
 
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
@@ -1341,7 +1765,17 @@ export function App() {
       }
 
       await sessionsApi.remove(sessionId);
-      const nextSessions = sessions.filter((session) => session.id !== sessionId);
+      // The store also drops the removed session from other sessions' jump hosts.
+      const nextSessions = sessions
+        .filter((session) => session.id !== sessionId)
+        .map((session) =>
+          session.jumpSessionIds?.includes(sessionId)
+            ? {
+                ...session,
+                jumpSessionIds: session.jumpSessionIds.filter((id) => id !== sessionId)
+              }
+            : session
+        );
       setSessions(nextSessions);
       if (selectedSessionId === sessionId) {
         setSelectedSessionId(nextSessions[0]?.id ?? null);
@@ -1421,6 +1855,17 @@ export function App() {
     window.prompt("复制下面的 Clash 直连规则", text);
   };
 
+  const copyConnectionTestReport = async (report: string) => {
+    try {
+      if (await copyTextToClipboard(report)) {
+        return;
+      }
+    } catch {
+      // Fall through to manual copy prompt.
+    }
+    window.prompt("Copy connection test report", report);
+  };
+
   const pickPrivateKeyFile = async () => {
     try {
       if (!systemApi) {
@@ -1958,9 +2403,14 @@ export function App() {
         <aside className="panel panel--left">
           <section className="panel__section panel__section--sftp">
             <div className="panel__heading">
-              <h2>SFTP</h2>
+              <h2>{activeTerminalTab?.local ? "Local Files" : "SFTP"}</h2>
             </div>
-            {activeTerminalTab ? (
+            {activeTerminalTab && activeTabProtocol ? (
+              <p className="hint">
+                {activeTabProtocol === "telnet" ? "Telnet" : "Raw TCP"} sessions carry only a
+                terminal stream, so there are no files to browse for this tab.
+              </p>
+            ) : activeTerminalTab ? (
               <>
                 <p className="hint sftp-binding">
                   Bound to tab: <strong>{activeTerminalTab.title}</strong>
@@ -2151,7 +2601,7 @@ export function App() {
                 </div>
                 {sftpLoading ? (
                   <p className="hint sftp-loading-indicator" role="status" aria-live="polite">
-                    Loading remote directory...
+                    Loading {activeTerminalTab.local ? "local" : "remote"} directory...
                   </p>
                 ) : null}
                 <div className="sftp-summary">
@@ -2206,7 +2656,8 @@ export function App() {
               </>
             ) : (
               <p className="hint">
-                Open a terminal tab first. SFTP panel reuses the active tab SSH connection.
+                Open a terminal tab first. SFTP panel reuses the active tab SSH connection; local
+                terminal tabs browse this computer instead.
               </p>
             )}
           </section>
@@ -2215,10 +2666,13 @@ export function App() {
         <section className="panel panel--center">
           <TerminalWorkspace
             activeTabId={activeTabId}
+            appApi={appApi}
+            connectionPolicies={connectionPolicies}
             connectionPreferences={connectionPreferences}
             hotkeyPreferences={hotkeyPreferences}
             onCloseTab={closeTerminalTab}
             onError={setError}
+            onOpenLocalTab={openLocalTerminalTab}
             onSelectTab={setActiveTabId}
             terminalApi={terminalApi}
             tabs={terminalTabs}
@@ -2232,15 +2686,34 @@ export function App() {
                 <h2>Sessions</h2>
                 <span className="panel__badge">{sessionBadgeText}</span>
               </div>
-              <button
-                aria-label="Create session"
-                className="primary-button primary-button--small primary-button--icon"
-                onClick={openCreateModal}
-                title="Create session"
-                type="button"
-              >
-                +
-              </button>
+              <div className="session-detail-actions">
+                <button
+                  className="icon-button"
+                  onClick={() => setIsSshConfigImportOpen(true)}
+                  title="Import sessions from ~/.ssh/config"
+                  type="button"
+                >
+                  Import
+                </button>
+                <button
+                  className="icon-button"
+                  disabled={sessions.length === 0}
+                  onClick={() => setIsSshConfigExportOpen(true)}
+                  title="Export sessions as an OpenSSH config"
+                  type="button"
+                >
+                  Export
+                </button>
+                <button
+                  aria-label="Create session"
+                  className="primary-button primary-button--small primary-button--icon"
+                  onClick={openCreateModal}
+                  title="Create session"
+                  type="button"
+                >
+                  +
+                </button>
+              </div>
             </div>
             {loading ? <p className="hint">Loading sessions...</p> : null}
             <div className="session-filter-bar">
@@ -2289,7 +2762,7 @@ export function App() {
                   >
                     <span className="session-list__name">{session.name}</span>
                     <span className="session-list__host">
-                      {session.username}@{session.host}:{session.port}
+                      {formatSessionTarget(session)}
                     </span>
                   </button>
                   <div className="session-list__actions">
@@ -2369,15 +2842,26 @@ export function App() {
                 </div>
                 <div>
                   <dt>Target</dt>
-                  <dd>
-                    {selectedSession.username}@{selectedSession.host}:
-                    {selectedSession.port}
-                  </dd>
+                  <dd>{formatSessionTarget(selectedSession)}</dd>
                 </div>
                 <div>
                   <dt>Auth</dt>
-                  <dd>{selectedSession.authType}</dd>
+                  <dd>{formatSessionAuthType(selectedSession)}</dd>
                 </div>
+                <div>
+                  <dt>Proxy</dt>
+                  <dd>{formatSessionProxy(selectedSession)}</dd>
+                </div>
+                {selectedSession.jumpSessionIds?.length ? (
+                  <div>
+                    <dt>Via</dt>
+                    <dd>
+                      {selectedSession.jumpSessionIds
+                        .map((id) => sessions.find((session) => session.id === id)?.name ?? "?")
+                        .join(" → ")}
+                    </dd>
+                  </div>
+                ) : null}
                 <div>
                   <dt>Secret</dt>
                   <dd>{selectedSession.hasSecret ? "Stored in secure vault" : "-"}</dd>
@@ -2395,6 +2879,13 @@ export function App() {
               <p className="hint">Pick a session from the right panel.</p>
             )}
           </section>
+
+          <TunnelPanel
+            definitions={activeTabTunnels}
+            onError={setError}
+            tabId={activeTabId}
+            tunnelsApi={tunnelsApi}
+          />
         </aside>
       </main>
 
@@ -2466,7 +2957,20 @@ export function App() {
               </label>
               <p className="hint">
                 Applies when a terminal tab closes unexpectedly. Delay range: 1-60 seconds.
+                Sessions can override both, and set backoff limits, in their connection policy.
               </p>
+              <div className="field-row">
+                <p className="hint">
+                  SOCKS5 / HTTP CONNECT proxy for sessions that use the global proxy setting.
+                </p>
+                <button
+                  className="field-row__action"
+                  onClick={() => setIsProxySettingsOpen(true)}
+                  type="button"
+                >
+                  Proxy...
+                </button>
+              </div>
               <h4 className="settings-group__title">Hotkeys</h4>
               <label className="settings-checkbox">
                 <input
@@ -2535,6 +3039,20 @@ export function App() {
               <p className="hint">
                 Leave empty to use system default app. Used by SFTP "Open File" and file double-click.
               </p>
+              <h4 className="settings-group__title">Security</h4>
+              <div className="field-row">
+                <p className="hint">
+                  Host keys trusted by TermDock. New hosts ask for confirmation; changed keys are
+                  blocked.
+                </p>
+                <button
+                  className="field-row__action"
+                  onClick={() => setIsKnownHostsOpen(true)}
+                  type="button"
+                >
+                  Known Hosts...
+                </button>
+              </div>
               <div className="modal__actions">
                 <button
                   className="primary-button"
@@ -2578,6 +3096,28 @@ export function App() {
                   value={form.name}
                 />
               </label>
+              <label>
+                Protocol
+                <select
+                  onChange={(event) => {
+                    const protocol = event.target.value as SessionProtocol;
+                    setForm((prev) => ({
+                      ...prev,
+                      protocol,
+                      // Follow the protocol unless the user picked a port of their own.
+                      port:
+                        prev.port === DEFAULT_SESSION_PORTS[prev.protocol ?? "ssh"]
+                          ? DEFAULT_SESSION_PORTS[protocol]
+                          : prev.port
+                    }));
+                  }}
+                  value={form.protocol ?? "ssh"}
+                >
+                  <option value="ssh">SSH</option>
+                  <option value="telnet">Telnet</option>
+                  <option value="raw">Raw TCP</option>
+                </select>
+              </label>
               <label>
                 Host
                 <input
@@ -2597,80 +3137,275 @@ export function App() {
                     onChange={(event) =>
                       setForm((prev) => ({
                         ...prev,
-                        port: Number(event.target.value) || 22
+                        port:
+                          Number(event.target.value) ||
+                          DEFAULT_SESSION_PORTS[prev.protocol ?? "ssh"]
                       }))
                     }
                     type="number"
-                    value={form.port ?? 22}
+                    value={form.port ?? DEFAULT_SESSION_PORTS[form.protocol ?? "ssh"]}
                   />
                 </label>
-                <label>
-                  Username
-                  <input
-                    onChange={(event) =>
-                      setForm((prev) => ({ ...prev, username: event.target.value }))
+                {usesSsh(form) ? (
+                  <label>
+                    Username
+                    <input
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, username: event.target.value }))
+                      }
+                      placeholder="ec2-user"
+                      value={form.username}
+                    />
+                  </label>
+                ) : null}
+              </div>
+              {usesSsh(form) ? (
+                <>
+                  <label>
+                    Auth Type
+                    <select
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          authType: event.target.value as SessionCreateInput["authType"]
+                        }))
+                      }
+                      value={form.authType}
+                    >
+                      <option value="password">Password</option>
+                      <option value="privateKey">Private Key</option>
+                      <option value="agent">SSH Agent / Pageant</option>
+                    </select>
+                  </label>
+                  {usesPrivateKey(form) ? (
+                    <label>
+                      Private Key Path
+                      <div className="field-row">
+                        <input
+                          onChange={(event) =>
+                            setForm((prev) => ({
+                              ...prev,
+                              privateKeyPath: event.target.value
+                            }))
+                          }
+                          placeholder="~/.ssh/id_ed25519"
+                          value={form.privateKeyPath ?? ""}
+                        />
+                        <button
+                          className="field-row__action"
+                          onClick={() => void pickPrivateKeyFile()}
+                          type="button"
+                        >
+                          Choose File
+                        </button>
+                      </div>
+                    </label>
+                  ) : null}
+                  {usesPrivateKey(form) ? (
+                    <SshCertificateField
+                      onChange={(certificatePath) =>
+                        setForm((prev) => ({ ...prev, certificatePath }))
+                      }
+                      privateKeyPath={form.privateKeyPath ?? ""}
+                      sessionsApi={sessionsApi}
+                      value={form.certificatePath ?? ""}
+                    />
+                  ) : null}
+                  {form.authType === "agent" ? (
+                    <p className="hint">
+                      Uses keys loaded in ssh-agent (`SSH_AUTH_SOCK`) or Pageant on Windows.
+                    </p>
+                  ) : (
+                    <label>
+                      {form.authType === "password" ? "Password" : "Key Passphrase (Optional)"}
+                      <input
+                        onChange={(event) =>
+                          setForm((prev) => ({ ...prev, secret: event.target.value }))
+                        }
+                        placeholder={
+                          form.authType === "password"
+                            ? editingSessionId
+                              ? "Leave blank to keep current password"
+                              : "Password stored in OS secure vault"
+                            : "Optional passphrase"
+                        }
+                        type="password"
+                        value={form.secret ?? ""}
+                      />
+                    </label>
+                  )}
+                  <AuthFallbackFields
+                    authType={form.authType}
+                    onChange={(fallbackAuthMethods) =>
+                      setForm((prev) => ({ ...prev, fallbackAuthMethods }))
+                    }
+                    onPassphraseChange={(fallbackPassphrase) =>
+                      setForm((prev) => ({ ...prev, fallbackPassphrase }))
+                    }
+                    onPasswordChange={(fallbackPassword) =>
+                      setForm((prev) => ({ ...prev, fallbackPassword }))
+                    }
+                    passphrase={form.fallbackPassphrase ?? ""}
+                    passphrasePlaceholder={
+                      editingSession?.hasFallbackPassphrase
+                        ? "Leave blank to keep current passphrase"
+                        : "Optional passphrase"
                     }
-                    placeholder="ec2-user"
-                    value={form.username}
+                    password={form.fallbackPassword ?? ""}
+                    passwordPlaceholder={
+                      editingSession?.hasFallbackPassword
+                        ? "Leave blank to keep current password"
+                        : "Password stored in OS secure vault"
+                    }
+                    value={form.fallbackAuthMethods ?? []}
                   />
-                </label>
-              </div>
+                  <label className="settings-checkbox">
+                    <input
+                      checked={form.agentForward ?? false}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, agentForward: event.target.checked }))
+                      }
+                      type="checkbox"
+                    />
+                    <span>Forward local SSH agent to remote host</span>
+                  </label>
+                  <label className="settings-checkbox">
+                    <input
+                      checked={form.dedicatedConnection ?? false}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, dedicatedConnection: event.target.checked }))
+                      }
+                      type="checkbox"
+                    />
+                    <span>Separate connection per tab (for servers limiting MaxSessions)</span>
+                  </label>
+                  <label>
+                    Persistent Terminal
+                    <select
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          persistence: event.target.value as SessionPersistence
+                        }))
+                      }
+                      value={form.persistence ?? "off"}
+                    >
+                      <option value="off">Off</option>
+                      <option value="tmux">tmux</option>
+                      <option value="tmuxControl">tmux, windows as tabs</option>
+                      <option value="screen">screen</option>
+                    </select>
+                  </label>
+                  {form.persistence === "tmuxControl" ? (
+                    <p className="hint">
+                      Drives tmux in control mode: each tmux window opens as its own tab with
+                      native scrollback, search and copy. Closing a window tab closes the window;
+                      closing the first tab detaches and leaves the session running.
+                    </p>
+                  ) : form.persistence && form.persistence !== "off" ? (
+                    <p className="hint">
+                      Each tab attaches to a named {form.persistence} session on the host, so
+                      reconnects and restarts pick up where it left off. Closing a tab leaves the
+                      remote session running; exit its shell to end it.
+                    </p>
+                  ) : null}
+                  <SshAlgorithmFields
+                    onChange={(algorithms) => setForm((prev) => ({ ...prev, algorithms }))}
+                    value={form.algorithms}
+                  />
+                  <JumpHostPicker
+                    onChange={(jumpSessionIds) => setForm((prev) => ({ ...prev, jumpSessionIds }))}
+                    ownerSessionId={editingSessionId}
+                    sessions={sessions}
+                    value={form.jumpSessionIds ?? []}
+                  />
+                </>
+              ) : (
+                <p className="hint">
+                  Telnet and raw TCP send keystrokes as typed; log in inside the terminal or with
+                  login automation rules below.
+                </p>
+              )}
               <label>
-                Auth Type
+                Proxy
                 <select
                   onChange={(event) =>
                     setForm((prev) => ({
                       ...prev,
-                      authType: event.target.value as SessionCreateInput["authType"]
+                      proxyMode: event.target.value as SessionProxyMode
                     }))
                   }
-                  value={form.authType}
+                  value={form.proxyMode ?? "global"}
                 >
-                  <option value="password">Password</option>
-                  <option value="privateKey">Private Key</option>
+                  <option value="global">Use global proxy setting</option>
+                  <option value="direct">Direct (no proxy)</option>
+                  <option value="custom">Custom proxy</option>
                 </select>
               </label>
-              {form.authType === "privateKey" ? (
-                <label>
-                  Private Key Path
-                  <div className="field-row">
-                    <input
-                      onChange={(event) =>
-                        setForm((prev) => ({
-                          ...prev,
-                          privateKeyPath: event.target.value
-                        }))
-                      }
-                      placeholder="~/.ssh/id_ed25519"
-                      value={form.privateKeyPath ?? ""}
-                    />
-                    <button
-                      className="field-row__action"
-                      onClick={() => void pickPrivateKeyFile()}
-                      type="button"
-                    >
-                      Choose File
-                    </button>
-                  </div>
-                </label>
+              {form.proxyMode === "custom" ? (
+                <ProxyFields
+                  onChange={(proxy) => setForm((prev) => ({ ...prev, proxy }))}
+                  onPasswordChange={(proxyPassword) =>
+                    setForm((prev) => ({ ...prev, proxyPassword }))
+                  }
+                  password={form.proxyPassword ?? ""}
+                  passwordPlaceholder={
+                    editingSession?.hasProxyPassword
+                      ? "Leave blank to keep current password"
+                      : "Optional"
+                  }
+                  value={form.proxy ?? DEFAULT_PROXY_CONFIG}
+                />
               ) : null}
+              <ConnectionPolicyFields
+                onChange={(connectionPolicy) => setForm((prev) => ({ ...prev, connectionPolicy }))}
+                ssh={usesSsh(form)}
+                value={form.connectionPolicy}
+              />
               <label>
-                {form.authType === "password" ? "Password" : "Key Passphrase (Optional)"}
-                <input
+                Character Encoding
+                <select
                   onChange={(event) =>
-                    setForm((prev) => ({ ...prev, secret: event.target.value }))
-                  }
-                  placeholder={
-                    form.authType === "password"
-                      ? editingSessionId
-                        ? "Leave blank to keep current password"
-                        : "Password stored in OS secure vault"
-                      : "Optional passphrase"
+                    setForm((prev) => ({
+                      ...prev,
+                      encoding: event.target.value as SessionEncoding
+                    }))
                   }
-                  type="password"
-                  value={form.secret ?? ""}
-                />
+                  value={form.encoding ?? "utf-8"}
+                >
+                  {(Object.keys(SESSION_ENCODING_LABELS) as SessionEncoding[]).map((encoding) => (
+                    <option key={encoding} value={encoding}>
+                      {SESSION_ENCODING_LABELS[encoding]}
+                    </option>
+                  ))}
+                </select>
               </label>
+              {usesSsh(form) ? (
+                <>
+                  <TunnelDefinitionsEditor
+                    onChange={(tunnels) => setForm((prev) => ({ ...prev, tunnels }))}
+                    value={form.tunnels ?? []}
+                  />
+                  <SessionStartupFields
+                    environment={form.environment}
+                    onEnvironmentChange={(environment) =>
+                      setForm((prev) => ({ ...prev, environment }))
+                    }
+                    onStartDirectoryChange={(startDirectory) =>
+                      setForm((prev) => ({ ...prev, startDirectory }))
+                    }
+                    onStartupCommandsChange={(startupCommands) =>
+                      setForm((prev) => ({ ...prev, startupCommands }))
+                    }
+                    startDirectory={form.startDirectory ?? ""}
+                    startupCommands={form.startupCommands ?? []}
+                  />
+                </>
+              ) : null}
+              <ExpectRulesEditor
+                onChange={(expectRules) => setForm((prev) => ({ ...prev, expectRules }))}
+                value={form.expectRules ?? []}
+              />
               <label>
                 Remark
                 <input
@@ -2683,15 +3418,10 @@ export function App() {
               </label>
 
               {testConnectionResult ? (
-                <p
-                  className={
-                    testConnectionResult.ok
-                      ? "hint test-result test-result--ok"
-                      : "hint test-result test-result--error"
-                  }
-                >
-                  {testConnectionResult.message}
-                </p>
+                <ConnectionTestReport
+                  onCopy={(report) => void copyConnectionTestReport(report)}
+                  result={testConnectionResult}
+                />
               ) : null}
 
               <div className="modal__actions">
@@ -2720,6 +3450,56 @@ export function App() {
         </div>
       ) : null}
 
+      {isProxySettingsOpen ? (
+        <ProxySettingsModal proxyApi={proxyApi} onClose={() => setIsProxySettingsOpen(false)} />
+      ) : null}
+
+      {isSshConfigImportOpen ? (
+        <SshConfigImportModal
+          onClose={() => setIsSshConfigImportOpen(false)}
+          onImported={(created) => setSessions((prev) => [...created, ...prev])}
+          sessions={sessions}
+          sessionsApi={sessionsApi}
+        />
+      ) : null}
+
+      {isSshConfigExportOpen ? (
+        <SshConfigExportModal
+          onClose={() => setIsSshConfigExportOpen(false)}
+          sessions={sessions}
+          sessionsApi={sessionsApi}
+          systemApi={systemApi}
+        />
+      ) : null}
+
+      {isKnownHostsOpen ? (
+        <KnownHostsManager
+          knownHostsApi={knownHostsApi}
+          onClose={() => setIsKnownHostsOpen(false)}
+        />
+      ) : null}
+
+      {keyboardInteractivePrompts.length > 0 &&
+      hostKeyPrompts.length === 0 &&
+      !isKnownHostsOpen ? (
+        <KeyboardInteractiveModal
+          key={keyboardInteractivePrompts[0].requestId}
+          onRespond={respondKeyboardInteractivePrompt}
+          prompt={keyboardInteractivePrompts[0]}
+        />
+      ) : null}
+
+      {hostKeyPrompts.length > 0 && !isKnownHostsOpen ? (
+        <HostKeyPromptModal
+          onOpenKnownHosts={() => {
+            respondHostKeyPrompt(hostKeyPrompts[0], false);
+            setIsKnownHostsOpen(true);
+          }}
+          onRespond={respondHostKeyPrompt}
+          prompt={hostKeyPrompts[0]}
+        />
+      ) : null}
+
       {error ? <div className="error-bar">{error}</div> : null}
     </div>
   );
@@ -0,0 +1,126 @@
+import type { SessionAuthMethod, SessionAuthType } from "../../shared/session";
+
+const METHOD_LABELS: Record<SessionAuthMethod, string> = {
+  password: "Password",
+  privateKey: "Private Key",
+  agent: "SSH Agent / Pageant",
+  keyboardInteractive: "Keyboard-Interactive"
+};
+
+interface AuthFallbackFieldsProps {
+  authType: SessionAuthType;
+  value: SessionAuthMethod[];
+  password: string;
+  passwordPlaceholder: string;
+  passphrase: string;
+  passphrasePlaceholder: string;
+  onChange: (methods: SessionAuthMethod[]) => void;
+  onPasswordChange: (password: string) => void;
+  onPassphraseChange: (passphrase: string) => void;
+}
+
+export function AuthFallbackFields({
+  authType,
+  value,
+  password,
+  passwordPlaceholder,
+  passphrase,
+  passphrasePlaceholder,
+  onChange,
+  onPasswordChange,
+  onPassphraseChange
+}: AuthFallbackFieldsProps) {
+  // The auth type always goes first, so it never doubles as a fallback.
+  const methods = value.filter((method) => method !== authType);
+  const candidates = (Object.keys(METHOD_LABELS) as SessionAuthMethod[]).filter(
+    (method) => method !== authType && !methods.includes(method)
+  );
+
+  const moveUp = (index: number) => {
+    if (index <= 0) {
+      return;
+    }
+    const next = [...methods];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <>
+      <div className="jump-host-picker">
+        <span>Then Try</span>
+        {methods.length > 0 ? (
+          <ol className="jump-host-picker__list">
+            {methods.map((method, index) => (
+              <li className="jump-host-picker__item" key={method}>
+                <span className="jump-host-picker__name">{METHOD_LABELS[method]}</span>
+                <button
+                  aria-label="Try method earlier"
+                  className="icon-button"
+                  disabled={index === 0}
+                  onClick={() => moveUp(index)}
+                  title="Move earlier"
+                  type="button"
+                >
+                  ↑
+                </button>
+                <button
+                  aria-label="Remove method"
+                  className="icon-button icon-button--danger"
+                  onClick={() => onChange(methods.filter((item) => item !== method))}
+                  title="Remove"
+                  type="button"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="hint">
+            Only the auth type above, then keyboard-interactive if the server asks for it.
+          </p>
+        )}
+        {candidates.length > 0 ? (
+          <select
+            onChange={(event) => {
+              if (event.target.value) {
+                onChange([...methods, event.target.value as SessionAuthMethod]);
+              }
+            }}
+            value=""
+          >
+            <option value="">Add fallback method...</option>
+            {candidates.map((method) => (
+              <option key={method} value={method}>
+                {METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+      {methods.includes("password") ? (
+        <label>
+          Fallback Password
+          <input
+            onChange={(event) => onPasswordChange(event.target.value)}
+            placeholder={passwordPlaceholder}
+            type="password"
+            value={password}
+          />
+        </label>
+      ) : null}
+      {methods.includes("privateKey") ? (
+        <label>
+          Fallback Key Passphrase (Optional)
+          <input
+            onChange={(event) => onPassphraseChange(event.target.value)}
+            placeholder={passphrasePlaceholder}
+            type="password"
+            value={passphrase}
+          />
+        </label>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  CONNECTION_POLICY_LIMITS,
+  DEFAULT_CONNECTION_POLICY
+} from "../../shared/connection-policy";
+import type {
+  ConnectionPolicy,
+  ConnectionPolicyNumberField
+} from "../../shared/connection-policy";
+
+// Telnet and raw TCP have no handshake; their keepalive interval is used for TCP keepalive.
+const SSH_ONLY_FIELDS: ConnectionPolicyNumberField[] = [
+  "connectTimeoutSeconds",
+  "keepaliveCountMax"
+];
+
+const FIELD_ORDER: ConnectionPolicyNumberField[] = [
+  "connectTimeoutSeconds",
+  "keepaliveIntervalSeconds",
+  "keepaliveCountMax",
+  "reconnectDelaySeconds",
+  "reconnectMaxDelaySeconds",
+  "reconnectMaxAttempts",
+  "reconnectJitterPercent"
+];
+
+const FIELD_UNITS: Partial<Record<ConnectionPolicyNumberField, string>> = {
+  connectTimeoutSeconds: "s",
+  keepaliveIntervalSeconds: "s",
+  reconnectDelaySeconds: "s",
+  reconnectMaxDelaySeconds: "s",
+  reconnectJitterPercent: "%"
+};
+
+interface ConnectionPolicyFieldsProps {
+  value: ConnectionPolicy | undefined;
+  ssh: boolean;
+  onChange: (policy: ConnectionPolicy) => void;
+}
+
+export function ConnectionPolicyFields({ value, ssh, onChange }: ConnectionPolicyFieldsProps) {
+  const updateNumber = (field: ConnectionPolicyNumberField, text: string) => {
+    onChange({ ...value, [field]: text.trim() === "" ? undefined : Number(text) });
+  };
+  const fields = FIELD_ORDER.filter((field) => ssh || !SSH_ONLY_FIELDS.includes(field));
+
+  return (
+    <>
+      <label>
+        Auto Reconnect
+        <select
+          onChange={(event) =>
+            onChange({
+              ...value,
+              autoReconnect:
+                event.target.value === "global" ? undefined : event.target.value === "on"
+            })
+          }
+          value={
+            value?.autoReconnect === undefined ? "global" : value.autoReconnect ? "on" : "off"
+          }
+        >
+          <option value="global">Use global setting</option>
+          <option value="on">On</option>
+          <option value="off">Off</option>
+        </select>
+      </label>
+      <div className="field-grid">
+        {fields.map((field) => {
+          const limits = CONNECTION_POLICY_LIMITS[field];
+          const unit = FIELD_UNITS[field];
+          return (
+            <label key={field}>
+              {unit ? `${limits.label} (${unit})` : limits.label}
+              <input
+                max={limits.max}
+                min={limits.min}
+                onChange={(event) => updateNumber(field, event.target.value)}
+                placeholder={
+                  field === "reconnectDelaySeconds"
+                    ? "Global setting"
+                    : `Default ${DEFAULT_CONNECTION_POLICY[field]}`
+                }
+                type="number"
+                value={value?.[field] ?? ""}
+              />
+            </label>
+          );
+        })}
+      </div>
+      <p className="hint">
+        Empty fields use the defaults. Retries double the delay up to the maximum, each spread
+        randomly by the jitter; 0 attempts keeps retrying, and 0 keepalive turns probes off.
+      </p>
+    </>
+  );
+}
+
+export function validateConnectionPolicy(policy: ConnectionPolicy | undefined): string | null {
+  for (const field of FIELD_ORDER) {
+    const value = policy?.[field];
+    const limits = CONNECTION_POLICY_LIMITS[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Number.isInteger(value) || value < limits.min || value > limits.max) {
+      return `${limits.label} must be a whole number from ${limits.min} to ${limits.max}.`;
+    }
+  }
+  if (
+    policy?.reconnectDelaySeconds !== undefined &&
+    policy.reconnectMaxDelaySeconds !== undefined &&
+    policy.reconnectMaxDelaySeconds < policy.reconnectDelaySeconds
+  ) {
+    return "Maximum reconnect delay cannot be shorter than the reconnect delay.";
+  }
+  return null;
+}
@@ -0,0 +1,55 @@
+import type { ConnectionDiagnosticStep, SessionTestConnectionResult } from "../../shared/session";
+
+interface ConnectionTestReportProps {
+  result: SessionTestConnectionResult;
+  onCopy: (report: string) => void;
+}
+
+const STATUS_MARKS: Record<ConnectionDiagnosticStep["status"], string> = {
+  ok: "✓",
+  failed: "✕",
+  skipped: "–"
+};
+
+export function ConnectionTestReport({ result, onCopy }: ConnectionTestReportProps) {
+  const steps = result.steps ?? [];
+  return (
+    <div className="test-report">
+      <p
+        className={
+          result.ok
+            ? "hint test-result test-result--ok"
+            : "hint test-result test-result--error"
+        }
+      >
+        {result.message}
+      </p>
+      {steps.length > 0 ? (
+        <ol className="test-report__steps">
+          {steps.map((step, index) => (
+            <li className={`test-report__step test-report__step--${step.status}`} key={index}>
+              <span className="test-report__mark">{STATUS_MARKS[step.status]}</span>
+              <div>
+                <strong>{step.label}</strong>
+                {step.durationMs === undefined ? null : (
+                  <span className="test-report__timing"> {step.durationMs} ms</span>
+                )}
+                <div className="test-report__detail">{step.detail}</div>
+                {step.hint ? <div className="test-report__hint">{step.hint}</div> : null}
+              </div>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+      {result.report ? (
+        <button
+          className="icon-button test-report__copy"
+          onClick={() => onCopy(result.report ?? "")}
+          type="button"
+        >
+          Copy Report
+        </button>
+      ) : null}
+    </div>
+  );
+}
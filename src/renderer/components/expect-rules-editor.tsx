@@ -0,0 +1,136 @@
+import type { ExpectRuleInput } from "../../shared/expect";
+
+interface ExpectRulesEditorProps {
+  value: ExpectRuleInput[];
+  onChange: (rules: ExpectRuleInput[]) => void;
+}
+
+const NEW_RULE: ExpectRuleInput = {
+  pattern: "",
+  send: "",
+  sendSecret: false,
+  pressEnter: true,
+  timeoutSeconds: 10
+};
+
+export function validateExpectRules(rules: ExpectRuleInput[]): string | null {
+  for (const [index, rule] of rules.entries()) {
+    const label = `Expect rule ${index + 1}`;
+    if (!rule.pattern) {
+      return `${label}: pattern is required.`;
+    }
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      return `${label}: ${(error as Error).message}`;
+    }
+    if (
+      !Number.isInteger(rule.timeoutSeconds) ||
+      rule.timeoutSeconds < 1 ||
+      rule.timeoutSeconds > 600
+    ) {
+      return `${label}: timeout must be between 1 and 600 seconds.`;
+    }
+    // Saved rules keep their stored secret when the field is left blank.
+    if (rule.sendSecret && !rule.id && !rule.secret?.trim()) {
+      return `${label}: enter the secret to send.`;
+    }
+  }
+  return null;
+}
+
+export function ExpectRulesEditor({ value, onChange }: ExpectRulesEditorProps) {
+  const updateAt = (index: number, patch: Partial<ExpectRuleInput>) => {
+    onChange(value.map((rule, current) => (current === index ? { ...rule, ...patch } : rule)));
+  };
+
+  return (
+    <div className="tunnel-editor">
+      <span>Login Automation</span>
+      {value.length > 0 ? (
+        <ul className="tunnel-editor__list">
+          {value.map((rule, index) => (
+            <li className="tunnel-editor__item expect-editor__item" key={rule.id ?? `new-${index}`}>
+              <input
+                aria-label="Output pattern (regular expression)"
+                onChange={(event) => updateAt(index, { pattern: event.target.value })}
+                placeholder="[Pp]assword:\s*$"
+                spellCheck={false}
+                value={rule.pattern}
+              />
+              <span className="tunnel-editor__arrow">→</span>
+              {rule.sendSecret ? (
+                <input
+                  aria-label="Secret to send"
+                  onChange={(event) => updateAt(index, { secret: event.target.value || undefined })}
+                  placeholder={
+                    rule.id ? "Leave blank to keep stored secret" : "Stored in OS secure vault"
+                  }
+                  type="password"
+                  value={rule.secret ?? ""}
+                />
+              ) : (
+                <input
+                  aria-label="Text to send"
+                  onChange={(event) => updateAt(index, { send: event.target.value })}
+                  placeholder="su -"
+                  spellCheck={false}
+                  value={rule.send}
+                />
+              )}
+              <input
+                aria-label="Timeout in seconds"
+                className="tunnel-editor__port"
+                max={600}
+                min={1}
+                onChange={(event) =>
+                  updateAt(index, { timeoutSeconds: Number(event.target.value) })
+                }
+                title="Seconds to wait for the pattern"
+                type="number"
+                value={rule.timeoutSeconds}
+              />
+              <label className="tunnel-editor__auto" title="Send a secret from secure storage">
+                <input
+                  checked={rule.sendSecret ?? false}
+                  onChange={(event) => updateAt(index, { sendSecret: event.target.checked })}
+                  type="checkbox"
+                />
+                Secret
+              </label>
+              <label className="tunnel-editor__auto" title="Press Enter after sending">
+                <input
+                  checked={rule.pressEnter}
+                  onChange={(event) => updateAt(index, { pressEnter: event.target.checked })}
+                  type="checkbox"
+                />
+                Enter
+              </label>
+              <button
+                aria-label="Remove rule"
+                className="icon-button icon-button--danger"
+                onClick={() => onChange(value.filter((_rule, current) => current !== index))}
+                title="Remove"
+                type="button"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="hint">
+          Answer prompts after login, in order: when the output matches a regular expression, send
+          text or a stored secret (e.g. `su -`, then the root password).
+        </p>
+      )}
+      <button
+        className="icon-button tunnel-editor__add"
+        onClick={() => onChange([...value, { ...NEW_RULE }])}
+        type="button"
+      >
+        Add rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import type { HostKeyPrompt } from "../../shared/known-hosts";
+
+interface HostKeyPromptModalProps {
+  prompt: HostKeyPrompt;
+  onRespond: (prompt: HostKeyPrompt, accepted: boolean) => void;
+  onOpenKnownHosts: () => void;
+}
+
+export function HostKeyPromptModal({
+  prompt,
+  onRespond,
+  onOpenKnownHosts
+}: HostKeyPromptModalProps) {
+  const target = prompt.port === 22 ? prompt.host : `[${prompt.host}]:${prompt.port}`;
+  const isChanged = prompt.kind === "changed";
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        aria-label={isChanged ? "Host key changed" : "Unknown host key"}
+        aria-modal="true"
+        className="modal modal--compact"
+        role="alertdialog"
+      >
+        <div className="modal__header">
+          <h3>{isChanged ? "Host Key Changed" : "Unknown Host"}</h3>
+        </div>
+        <div className="session-form">
+          {isChanged ? (
+            <p className="host-key-warning">
+              WARNING: REMOTE HOST IDENTIFICATION HAS CHANGED for <strong>{target}</strong>.
+              Someone could be eavesdropping on you right now (man-in-the-middle attack), or the
+              server key was replaced. The connection has been blocked.
+            </p>
+          ) : (
+            <p className="hint">
+              The authenticity of <strong>{target}</strong> can't be established. Verify the
+              fingerprint with the server owner before trusting it.
+            </p>
+          )}
+          <dl className="session-meta">
+            <div>
+              <dt>Presented Key</dt>
+              <dd className="host-key-fingerprint">
+                {prompt.keyType} {prompt.fingerprint}
+              </dd>
+            </div>
+            {prompt.knownFingerprints.length > 0 ? (
+              <div>
+                <dt>Expected Key</dt>
+                {prompt.knownFingerprints.map((fingerprint) => (
+                  <dd className="host-key-fingerprint" key={fingerprint}>
+                    {fingerprint}
+                  </dd>
+                ))}
+              </div>
+            ) : null}
+          </dl>
+          {isChanged ? (
+            <p className="hint">
+              If the change is expected, remove the old entry in Known Hosts and reconnect.
+            </p>
+          ) : null}
+          <div className="modal__actions">
+            {isChanged ? (
+              <>
+                <button className="icon-button" onClick={onOpenKnownHosts} type="button">
+                  Known Hosts...
+                </button>
+                <button
+                  className="primary-button"
+                  onClick={() => onRespond(prompt, false)}
+                  type="button"
+                >
+                  Close
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  className="icon-button"
+                  onClick={() => onRespond(prompt, false)}
+                  type="button"
+                >
+                  Cancel
+                </button>
+                <button
+                  className="primary-button"
+                  onClick={() => onRespond(prompt, true)}
+                  type="button"
+                >
+                  Trust and Connect
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
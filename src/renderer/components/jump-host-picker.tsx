@@ -0,0 +1,87 @@
+import type { SessionRecord } from "../../shared/session";
+
+interface JumpHostPickerProps {
+  sessions: SessionRecord[];
+  value: string[];
+  // Excluded from candidates so a session cannot jump through itself.
+  ownerSessionId: string | null;
+  onChange: (jumpSessionIds: string[]) => void;
+}
+
+export function JumpHostPicker({ sessions, value, ownerSessionId, onChange }: JumpHostPickerProps) {
+  const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+  // Telnet and raw TCP sessions cannot carry the next hop.
+  const candidates = sessions.filter(
+    (session) =>
+      session.id !== ownerSessionId && !value.includes(session.id) && !session.protocol
+  );
+
+  const moveUp = (index: number) => {
+    if (index <= 0) {
+      return;
+    }
+    const next = [...value];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <div className="jump-host-picker">
+      <span>Jump Hosts (ProxyJump)</span>
+      {value.length > 0 ? (
+        <ol className="jump-host-picker__list">
+          {value.map((jumpSessionId, index) => {
+            const jumpSession = sessionsById.get(jumpSessionId);
+            return (
+              <li className="jump-host-picker__item" key={jumpSessionId}>
+                <span className="jump-host-picker__name">
+                  {jumpSession
+                    ? `${jumpSession.name} (${jumpSession.username}@${jumpSession.host}:${jumpSession.port})`
+                    : "Missing session"}
+                </span>
+                <button
+                  aria-label="Move jump host earlier"
+                  className="icon-button"
+                  disabled={index === 0}
+                  onClick={() => moveUp(index)}
+                  title="Move earlier"
+                  type="button"
+                >
+                  ↑
+                </button>
+                <button
+                  aria-label="Remove jump host"
+                  className="icon-button icon-button--danger"
+                  onClick={() => onChange(value.filter((id) => id !== jumpSessionId))}
+                  title="Remove"
+                  type="button"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="hint">Connect directly. Add saved sessions to reach this host via bastions.</p>
+      )}
+      {candidates.length > 0 ? (
+        <select
+          onChange={(event) => {
+            if (event.target.value) {
+              onChange([...value, event.target.value]);
+            }
+          }}
+          value=""
+        >
+          <option value="">Add jump host...</option>
+          {candidates.map((session) => (
+            <option key={session.id} value={session.id}>
+              {session.name} ({session.username}@{session.host})
+            </option>
+          ))}
+        </select>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+
+import type { KeyboardInteractivePrompt } from "../../shared/keyboard-interactive";
+
+interface KeyboardInteractiveModalProps {
+  prompt: KeyboardInteractivePrompt;
+  onRespond: (prompt: KeyboardInteractivePrompt, responses: string[] | null) => void;
+}
+
+export function KeyboardInteractiveModal({ prompt, onRespond }: KeyboardInteractiveModalProps) {
+  const [responses, setResponses] = useState<string[]>(() => prompt.prompts.map(() => ""));
+  const target = prompt.port === 22 ? prompt.host : `${prompt.host}:${prompt.port}`;
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        aria-label="Authentication required"
+        aria-modal="true"
+        className="modal modal--compact"
+        role="dialog"
+      >
+        <div className="modal__header">
+          <h3>{prompt.name || "Authentication Required"}</h3>
+        </div>
+        <form
+          className="session-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onRespond(prompt, responses);
+          }}
+        >
+          <p className="hint">
+            {prompt.username}@{target} requests additional verification.
+          </p>
+          {prompt.instructions ? (
+            <p className="keyboard-interactive__instructions">{prompt.instructions}</p>
+          ) : null}
+          {prompt.prompts.map((field, index) => (
+            <label key={`${prompt.requestId}-${index}`}>
+              {field.prompt.trim() || `Response ${index + 1}`}
+              <input
+                autoComplete="off"
+                autoFocus={index === 0}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  setResponses((prev) =>
+                    prev.map((item, itemIndex) => (itemIndex === index ? value : item))
+                  );
+                }}
+                type={field.echo ? "text" : "password"}
+                value={responses[index] ?? ""}
+              />
+            </label>
+          ))}
+          <div className="modal__actions">
+            <button className="icon-button" onClick={() => onRespond(prompt, null)} type="button">
+              Cancel
+            </button>
+            <button className="primary-button" type="submit">
+              Continue
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
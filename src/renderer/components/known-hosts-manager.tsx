@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import type { KnownHostEntry } from "../../shared/known-hosts";
+
+interface KnownHostsManagerProps {
+  knownHostsApi: Window["termdock"]["knownHosts"] | null;
+  onClose: () => void;
+}
+
+function formatKnownHostTarget(entry: KnownHostEntry): string {
+  return entry.port === 22 ? entry.host : `[${entry.host}]:${entry.port}`;
+}
+
+export function KnownHostsManager({ knownHostsApi, onClose }: KnownHostsManagerProps) {
+  const [entries, setEntries] = useState<KnownHostEntry[]>([]);
+  const [filterQuery, setFilterQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filteredEntries = useMemo(() => {
+    const normalizedQuery = filterQuery.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return entries;
+    }
+    return entries.filter((entry) =>
+      [formatKnownHostTarget(entry), entry.keyType, entry.fingerprint].some((value) =>
+        value.toLowerCase().includes(normalizedQuery)
+      )
+    );
+  }, [entries, filterQuery]);
+
+  const reload = useCallback(async () => {
+    if (!knownHostsApi) {
+      setError("Known hosts bridge unavailable. Restart `pnpm dev`.");
+      setLoading(false);
+      return;
+    }
+    try {
+      setEntries(await knownHostsApi.list());
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [knownHostsApi]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const removeEntry = async (entry: KnownHostEntry) => {
+    if (!knownHostsApi) {
+      return;
+    }
+    const accepted = window.confirm(
+      `Remove ${entry.keyType} key for ${formatKnownHostTarget(entry)}?`
+    );
+    if (!accepted) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await knownHostsApi.remove(entry.id);
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importOpenSshKnownHosts = async () => {
+    if (!knownHostsApi) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await knownHostsApi.importOpenSsh();
+      setNotice(
+        `Imported ${result.imported} from ${result.sourcePath} (duplicates ${result.duplicates}, skipped ${result.skipped}).`
+      );
+      await reload();
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div aria-label="Known Hosts" aria-modal="true" className="modal" role="dialog">
+        <div className="modal__header">
+          <h3>Known Hosts</h3>
+          <button className="icon-button" onClick={onClose} type="button">
+            Close
+          </button>
+        </div>
+        <div className="session-form">
+          <div className="field-row">
+            <input
+              onChange={(event) => setFilterQuery(event.target.value)}
+              placeholder="Filter host/key/fingerprint"
+              value={filterQuery}
+            />
+            <button
+              className="field-row__action"
+              disabled={busy}
+              onClick={() => void importOpenSshKnownHosts()}
+              type="button"
+            >
+              Import ~/.ssh/known_hosts
+            </button>
+          </div>
+          {notice ? <p className="hint test-result test-result--ok">{notice}</p> : null}
+          {error ? <p className="hint test-result test-result--error">{error}</p> : null}
+          {loading ? <p className="hint">Loading known hosts...</p> : null}
+          {!loading && filteredEntries.length === 0 ? (
+            <p className="hint">
+              {entries.length === 0
+                ? "No trusted host keys yet. Keys are added when you accept a new host."
+                : "No entries match current filter."}
+            </p>
+          ) : null}
+          <ul className="known-hosts-list">
+            {filteredEntries.map((entry) => (
+              <li className="known-hosts-list__item" key={entry.id}>
+                <div className="known-hosts-list__main">
+                  <span className="known-hosts-list__host">{formatKnownHostTarget(entry)}</span>
+                  <span className="known-hosts-list__key" title={entry.publicKey}>
+                    {entry.keyType} {entry.fingerprint}
+                  </span>
+                  <span className="known-hosts-list__meta">
+                    {entry.source === "openssh" ? "Imported" : "Trusted"}{" "}
+                    {new Date(entry.addedAt).toLocaleString()}
+                  </span>
+                </div>
+                <button
+                  aria-label="Remove known host"
+                  className="icon-button icon-button--danger"
+                  disabled={busy}
+                  onClick={() => void removeEntry(entry)}
+                  title="Remove"
+                  type="button"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { ProxyConfig, ProxyType } from "../../shared/proxy";
+
+export const DEFAULT_PROXY_CONFIG: ProxyConfig = {
+  type: "socks5",
+  host: "127.0.0.1",
+  port: 1080
+};
+
+interface ProxyFieldsProps {
+  value: ProxyConfig;
+  password: string;
+  passwordPlaceholder: string;
+  onChange: (proxy: ProxyConfig) => void;
+  onPasswordChange: (password: string) => void;
+}
+
+export function ProxyFields({
+  value,
+  password,
+  passwordPlaceholder,
+  onChange,
+  onPasswordChange
+}: ProxyFieldsProps) {
+  return (
+    <>
+      <div className="field-grid">
+        <label>
+          Proxy Type
+          <select
+            onChange={(event) => onChange({ ...value, type: event.target.value as ProxyType })}
+            value={value.type}
+          >
+            <option value="socks5">SOCKS5</option>
+            <option value="http">HTTP CONNECT</option>
+          </select>
+        </label>
+        <label>
+          Proxy Port
+          <input
+            max={65535}
+            min={1}
+            onChange={(event) =>
+              onChange({ ...value, port: Number.parseInt(event.target.value, 10) || 0 })
+            }
+            type="number"
+            value={value.port || ""}
+          />
+        </label>
+      </div>
+      <label>
+        Proxy Host
+        <input
+          onChange={(event) => onChange({ ...value, host: event.target.value })}
+          placeholder="127.0.0.1"
+          value={value.host}
+        />
+      </label>
+      <div className="field-grid">
+        <label>
+          Proxy Username (Optional)
+          <input
+            onChange={(event) => onChange({ ...value, username: event.target.value })}
+            value={value.username ?? ""}
+          />
+        </label>
+        <label>
+          Proxy Password
+          <input
+            onChange={(event) => onPasswordChange(event.target.value)}
+            placeholder={passwordPlaceholder}
+            type="password"
+            value={password}
+          />
+        </label>
+      </div>
+    </>
+  );
+}
+
+export function validateProxyConfig(proxy: ProxyConfig | undefined | null): string | null {
+  if (!proxy?.host.trim()) {
+    return "Proxy host is required.";
+  }
+  if (!Number.isInteger(proxy.port) || proxy.port <= 0 || proxy.port > 65535) {
+    return "Proxy port must be between 1 and 65535.";
+  }
+  return null;
+}
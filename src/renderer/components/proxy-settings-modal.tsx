@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+
+import type { ProxyConfig } from "../../shared/proxy";
+import { DEFAULT_PROXY_CONFIG, ProxyFields, validateProxyConfig } from "./proxy-fields";
+
+interface ProxySettingsModalProps {
+  proxyApi: Window["termdock"]["proxy"] | null;
+  onClose: () => void;
+}
+
+export function ProxySettingsModal({ proxyApi, onClose }: ProxySettingsModalProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [proxy, setProxy] = useState<ProxyConfig>(DEFAULT_PROXY_CONFIG);
+  const [password, setPassword] = useState("");
+  const [hasPassword, setHasPassword] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!proxyApi) {
+      setError("Proxy bridge unavailable. Restart `pnpm dev`.");
+      setLoading(false);
+      return;
+    }
+    void proxyApi
+      .getGlobal()
+      .then((settings) => {
+        setEnabled(settings.enabled);
+        setProxy(settings.proxy ?? DEFAULT_PROXY_CONFIG);
+        setHasPassword(settings.hasPassword);
+      })
+      .catch((caughtError: Error) => setError(caughtError.message))
+      .finally(() => setLoading(false));
+  }, [proxyApi]);
+
+  const save = async () => {
+    if (!proxyApi) {
+      return;
+    }
+    const validationError = enabled ? validateProxyConfig(proxy) : null;
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await proxyApi.setGlobal({
+        enabled,
+        proxy: proxy.host.trim() ? proxy : null,
+        // Dropping the username also drops the stored password.
+        password: password.trim() ? password : proxy.username?.trim() ? undefined : ""
+      });
+      onClose();
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div aria-label="Proxy" aria-modal="true" className="modal modal--compact" role="dialog">
+        <div className="modal__header">
+          <h3>Proxy</h3>
+          <button className="icon-button" onClick={onClose} type="button">
+            Close
+          </button>
+        </div>
+        <form
+          className="session-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void save();
+          }}
+        >
+          {loading ? <p className="hint">Loading proxy settings...</p> : null}
+          <label className="settings-checkbox">
+            <input
+              checked={enabled}
+              onChange={(event) => setEnabled(event.target.checked)}
+              type="checkbox"
+            />
+            <span>Connect SSH sessions through a proxy</span>
+          </label>
+          <ProxyFields
+            onChange={setProxy}
+            onPasswordChange={setPassword}
+            password={password}
+            passwordPlaceholder={
+              hasPassword ? "Leave blank to keep current password" : "Optional"
+            }
+            value={proxy}
+          />
+          <p className="hint">
+            Sessions set to "Use global proxy" dial their host (or first jump host) through this
+            proxy. Passwords are stored in the OS secure vault.
+          </p>
+          {error ? <p className="hint test-result test-result--error">{error}</p> : null}
+          <div className="modal__actions">
+            <button className="icon-button" disabled={saving} onClick={onClose} type="button">
+              Cancel
+            </button>
+            <button className="primary-button" disabled={saving || loading} type="submit">
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
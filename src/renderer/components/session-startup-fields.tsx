@@ -0,0 +1,88 @@
+import { useState } from "react";
+
+interface SessionStartupFieldsProps {
+  environment: Record<string, string> | undefined;
+  startDirectory: string;
+  startupCommands: string[];
+  onEnvironmentChange: (environment: Record<string, string>) => void;
+  onStartDirectoryChange: (startDirectory: string) => void;
+  onStartupCommandsChange: (startupCommands: string[]) => void;
+}
+
+function formatEnvironment(environment: Record<string, string> | undefined): string {
+  return Object.entries(environment ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join("\n");
+}
+
+function parseEnvironment(text: string): Record<string, string> {
+  const environment: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    const separator = line.indexOf("=");
+    const name = (separator === -1 ? line : line.slice(0, separator)).trim();
+    environment[name] = separator === -1 ? "" : line.slice(separator + 1);
+  }
+  return environment;
+}
+
+export function SessionStartupFields({
+  environment,
+  startDirectory,
+  startupCommands,
+  onEnvironmentChange,
+  onStartDirectoryChange,
+  onStartupCommandsChange
+}: SessionStartupFieldsProps) {
+  // Raw text is kept locally so half-typed lines survive the round trip through the record.
+  const [environmentText, setEnvironmentText] = useState(() => formatEnvironment(environment));
+
+  return (
+    <>
+      <label>
+        Environment Variables
+        <textarea
+          onChange={(event) => {
+            setEnvironmentText(event.target.value);
+            onEnvironmentChange(parseEnvironment(event.target.value));
+          }}
+          placeholder={"LANG=en_US.UTF-8\nAPP_ENV=staging"}
+          rows={2}
+          spellCheck={false}
+          value={environmentText}
+        />
+      </label>
+      <p className="hint">One NAME=value per line. The server must allow them via AcceptEnv.</p>
+      <label>
+        Start Directory
+        <input
+          onChange={(event) => onStartDirectoryChange(event.target.value)}
+          placeholder="/srv/app"
+          value={startDirectory}
+        />
+      </label>
+      <label>
+        Startup Commands
+        <textarea
+          onChange={(event) => onStartupCommandsChange(event.target.value.split("\n"))}
+          placeholder={"sudo -i\ntmux attach"}
+          rows={2}
+          spellCheck={false}
+          value={startupCommands.join("\n")}
+        />
+      </label>
+      <p className="hint">One command per line, typed into every new shell, also after reconnects.</p>
+    </>
+  );
+}
+
+export function validateSessionEnvironment(
+  environment: Record<string, string> | undefined
+): string | null {
+  const invalid = Object.keys(environment ?? {}).find(
+    (name) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+  );
+  return invalid === undefined ? null : `Invalid environment variable name: ${invalid || "(empty)"}`;
+}
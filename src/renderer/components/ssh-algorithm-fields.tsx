@@ -0,0 +1,90 @@
+import { SSH_ALGORITHM_CATEGORIES, SSH_ALGORITHM_NAMES } from "../../shared/ssh-algorithms";
+import type {
+  SshAlgorithmCategory,
+  SshAlgorithmPreset,
+  SshAlgorithmSettings
+} from "../../shared/ssh-algorithms";
+
+const CATEGORY_LABELS: Record<SshAlgorithmCategory, string> = {
+  kex: "Key Exchange",
+  serverHostKey: "Host Key",
+  cipher: "Ciphers",
+  hmac: "MACs"
+};
+
+const PRESET_HINTS: Record<SshAlgorithmPreset, string> = {
+  default: "",
+  legacy:
+    "Also offers SHA-1 key exchange, DSA host keys, CBC ciphers and MD5 MACs for old servers and network gear.",
+  modern: "Refuses SHA-1 host key signatures and MACs and non-ETM MACs.",
+  custom: "Comma-separated, most preferred first. Empty lists keep the defaults."
+};
+
+interface SshAlgorithmFieldsProps {
+  value: SshAlgorithmSettings | undefined;
+  onChange: (settings: SshAlgorithmSettings) => void;
+}
+
+export function SshAlgorithmFields({ value, onChange }: SshAlgorithmFieldsProps) {
+  const preset = value?.preset ?? "default";
+
+  const updateCustom = (category: SshAlgorithmCategory, text: string) => {
+    // Kept untrimmed while typing; the session store trims and validates on save.
+    onChange({ preset: "custom", custom: { ...value?.custom, [category]: text.split(",") } });
+  };
+
+  return (
+    <>
+      <label>
+        SSH Algorithms
+        <select
+          onChange={(event) =>
+            onChange({ ...value, preset: event.target.value as SshAlgorithmPreset })
+          }
+          value={preset}
+        >
+          <option value="default">Default</option>
+          <option value="legacy">Legacy compatible</option>
+          <option value="modern">Modern only</option>
+          <option value="custom">Custom</option>
+        </select>
+      </label>
+      {PRESET_HINTS[preset] ? <p className="hint">{PRESET_HINTS[preset]}</p> : null}
+      {preset === "custom"
+        ? SSH_ALGORITHM_CATEGORIES.map((category) => (
+            <label key={category}>
+              {CATEGORY_LABELS[category]}
+              <input
+                list={`ssh-algorithms-${category}`}
+                onChange={(event) => updateCustom(category, event.target.value)}
+                placeholder={SSH_ALGORITHM_NAMES[category].slice(0, 2).join(",")}
+                value={(value?.custom?.[category] ?? []).join(",")}
+              />
+              <datalist id={`ssh-algorithms-${category}`}>
+                {SSH_ALGORITHM_NAMES[category].map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </label>
+          ))
+        : null}
+    </>
+  );
+}
+
+export function validateSshAlgorithmSettings(
+  settings: SshAlgorithmSettings | undefined
+): string | null {
+  if (settings?.preset !== "custom") {
+    return null;
+  }
+  for (const category of SSH_ALGORITHM_CATEGORIES) {
+    for (const rawName of settings.custom?.[category] ?? []) {
+      const name = rawName.trim();
+      if (name && !SSH_ALGORITHM_NAMES[category].includes(name)) {
+        return `Unknown ${CATEGORY_LABELS[category].toLowerCase()} algorithm: ${name}`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+
+import type { SshCertificateInfo } from "../../shared/ssh-certificate";
+
+interface SshCertificateFieldProps {
+  sessionsApi: Window["termdock"]["sessions"] | null;
+  privateKeyPath: string;
+  value: string;
+  onChange: (certificatePath: string) => void;
+}
+
+function formatValidity(info: SshCertificateInfo): string {
+  if (info.validBefore === null) {
+    return "never expires";
+  }
+  return `valid until ${new Date(info.validBefore).toLocaleString()}`;
+}
+
+export function SshCertificateField({
+  sessionsApi,
+  privateKeyPath,
+  value,
+  onChange
+}: SshCertificateFieldProps) {
+  const [info, setInfo] = useState<SshCertificateInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionsApi || (!privateKeyPath.trim() && !value.trim())) {
+      setInfo(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    // Paths are typed character by character; only inspect once typing pauses.
+    const timer = setTimeout(() => {
+      sessionsApi
+        .inspectCertificate(privateKeyPath.trim() || undefined, value.trim() || undefined)
+        .then((nextInfo) => {
+          if (!cancelled) {
+            setInfo(nextInfo);
+            setError(null);
+          }
+        })
+        .catch((caughtError: Error) => {
+          if (!cancelled) {
+            setInfo(null);
+            setError(caughtError.message);
+          }
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionsApi, privateKeyPath, value]);
+
+  const now = Date.now();
+  const expired = info?.validBefore != null && now >= info.validBefore;
+  const notYetValid = info?.validAfter != null && now < info.validAfter;
+
+  return (
+    <>
+      <label>
+        Certificate (Optional)
+        <input
+          onChange={(event) => onChange(event.target.value)}
+          placeholder={
+            privateKeyPath.trim()
+              ? `${privateKeyPath.trim()}-cert.pub`
+              : "~/.ssh/id_ed25519-cert.pub"
+          }
+          spellCheck={false}
+          value={value}
+        />
+      </label>
+      {error ? <p className="hint hint--danger">{error}</p> : null}
+      {info ? (
+        <p className={expired || notYetValid ? "hint hint--danger" : "hint"}>
+          {value.trim() ? "" : "Found "}
+          {info.type.replace("-cert-v01@openssh.com", "")} certificate
+          {info.keyId ? ` "${info.keyId}"` : ""} for{" "}
+          {info.principals.length > 0 ? info.principals.join(", ") : "any user"}
+          {" · "}
+          {expired
+            ? `expired ${new Date(info.validBefore ?? 0).toLocaleString()}`
+            : notYetValid
+              ? `not valid before ${new Date(info.validAfter ?? 0).toLocaleString()}`
+              : formatValidity(info)}
+        </p>
+      ) : !error ? (
+        <p className="hint">
+          Leave blank to use the key's `-cert.pub` file next to it when one exists.
+        </p>
+      ) : null}
+    </>
+  );
+}
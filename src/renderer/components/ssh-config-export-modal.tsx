@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+
+import type { SessionRecord } from "../../shared/session";
+import type { SshConfigExportPreview } from "../../shared/ssh-config";
+
+interface SshConfigExportModalProps {
+  sessionsApi: Window["termdock"]["sessions"] | null;
+  systemApi: Window["termdock"]["system"] | null;
+  sessions: SessionRecord[];
+  onClose: () => void;
+}
+
+export function SshConfigExportModal({
+  sessionsApi,
+  systemApi,
+  sessions,
+  onClose
+}: SshConfigExportModalProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    sessions.map((session) => session.id)
+  );
+  const [preview, setPreview] = useState<SshConfigExportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groupIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          sessions
+            .map((session) => session.groupId)
+            .filter((groupId): groupId is string => Boolean(groupId))
+        )
+      ).sort(),
+    [sessions]
+  );
+
+  useEffect(() => {
+    if (!sessionsApi) {
+      setError("Session bridge unavailable. Restart `pnpm dev`.");
+      return;
+    }
+    if (selectedIds.length === 0) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    sessionsApi
+      .previewSshConfigExport(selectedIds)
+      .then((nextPreview) => {
+        if (!cancelled) {
+          setPreview(nextPreview);
+          setError(null);
+        }
+      })
+      .catch((caughtError: Error) => {
+        if (!cancelled) {
+          setPreview(null);
+          setError(caughtError.message);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionsApi, selectedIds]);
+
+  const toggleSession = (sessionId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, sessionId] : prev.filter((selected) => selected !== sessionId)
+    );
+  };
+
+  const selectGroup = (groupId: string) => {
+    if (!groupId) {
+      return;
+    }
+    setSelectedIds(
+      sessions.filter((session) => session.groupId === groupId).map((session) => session.id)
+    );
+  };
+
+  const saveToFile = async () => {
+    if (!sessionsApi || !systemApi) {
+      setError("Session bridge unavailable. Restart `pnpm dev`.");
+      return;
+    }
+    const targetPath = await systemApi.pickSshConfigExportTarget();
+    if (!targetPath) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await sessionsApi.exportSshConfig(selectedIds, targetPath);
+      setNotice(`Exported ${selectedIds.length} session(s) to ${result.path}.`);
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mergeIntoConfig = async () => {
+    if (!sessionsApi) {
+      setError("Session bridge unavailable. Restart `pnpm dev`.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await sessionsApi.mergeSshConfig(selectedIds);
+      setNotice(
+        result.replacedManagedSection
+          ? `Updated the TermDock section in ${result.path}.`
+          : `Added a TermDock section to ${result.path}.`
+      );
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div aria-label="Export to SSH config" aria-modal="true" className="modal" role="dialog">
+        <div className="modal__header">
+          <h3>Export to SSH Config</h3>
+          <button className="icon-button" onClick={onClose} type="button">
+            Close
+          </button>
+        </div>
+        <div className="session-form">
+          {groupIds.length > 0 ? (
+            <label>
+              Group
+              <select onChange={(event) => selectGroup(event.target.value)} value="">
+                <option value="">Select sessions in group...</option>
+                {groupIds.map((groupId) => (
+                  <option key={groupId} value={groupId}>
+                    {groupId}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <ul className="known-hosts-list">
+            {sessions.map((session) => (
+              <li className="known-hosts-list__item ssh-import-list__item" key={session.id}>
+                <input
+                  aria-label={`Export ${session.name}`}
+                  checked={selectedIds.includes(session.id)}
+                  disabled={busy}
+                  onChange={(event) => toggleSession(session.id, event.target.checked)}
+                  type="checkbox"
+                />
+                <div className="known-hosts-list__main">
+                  <span className="known-hosts-list__host">{session.name}</span>
+                  <span className="known-hosts-list__key">
+                    {session.username}@{session.host}:{session.port}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <label>
+            Preview
+            <textarea
+              className="ssh-export-preview"
+              readOnly
+              rows={10}
+              value={preview?.content ?? ""}
+            />
+          </label>
+          {preview?.warnings.map((warning) => (
+            <p className="hint" key={warning}>
+              {warning}
+            </p>
+          ))}
+          <p className="hint">
+            Merging only rewrites the section between the TermDock markers; hand-written entries
+            are kept.
+          </p>
+          {notice ? <p className="hint test-result test-result--ok">{notice}</p> : null}
+          {error ? <p className="hint test-result test-result--error">{error}</p> : null}
+          <div className="modal__actions">
+            <button
+              className="icon-button"
+              disabled={busy || !preview}
+              onClick={() => void saveToFile()}
+              type="button"
+            >
+              Save to File...
+            </button>
+            <button
+              className="primary-button"
+              disabled={busy || !preview}
+              onClick={() => void mergeIntoConfig()}
+              type="button"
+            >
+              Merge into ~/.ssh/config
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
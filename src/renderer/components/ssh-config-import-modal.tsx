@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { SessionRecord } from "../../shared/session";
+import type { SshConfigImportCandidate, SshConfigImportPreview } from "../../shared/ssh-config";
+
+interface SshConfigImportModalProps {
+  sessionsApi: Window["termdock"]["sessions"] | null;
+  sessions: SessionRecord[];
+  onImported: (created: SessionRecord[]) => void;
+  onClose: () => void;
+}
+
+function formatCandidateTarget(candidate: SshConfigImportCandidate): string {
+  return `${candidate.username}@${candidate.host}:${candidate.port}`;
+}
+
+export function SshConfigImportModal({
+  sessionsApi,
+  sessions,
+  onImported,
+  onClose
+}: SshConfigImportModalProps) {
+  const [sourcePath, setSourcePath] = useState("");
+  const [preview, setPreview] = useState<SshConfigImportPreview | null>(null);
+  const [selectedAliases, setSelectedAliases] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = useCallback(
+    async (pathValue: string) => {
+      if (!sessionsApi) {
+        setError("Session bridge unavailable. Restart `pnpm dev`.");
+        return;
+      }
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      try {
+        const nextPreview = await sessionsApi.previewSshConfigImport(pathValue.trim() || undefined);
+        setPreview(nextPreview);
+        setSourcePath(nextPreview.sourcePath);
+        setSelectedAliases(
+          nextPreview.candidates
+            .filter((candidate) => !candidate.duplicateSessionId)
+            .map((candidate) => candidate.alias)
+        );
+      } catch (caughtError) {
+        setPreview(null);
+        setError((caughtError as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [sessionsApi]
+  );
+
+  useEffect(() => {
+    void loadPreview("");
+  }, [loadPreview]);
+
+  const toggleAlias = (alias: string, checked: boolean) => {
+    setSelectedAliases((prev) =>
+      checked ? [...prev, alias] : prev.filter((selected) => selected !== alias)
+    );
+  };
+
+  const importSelected = async () => {
+    if (!sessionsApi || !preview || selectedAliases.length === 0) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await sessionsApi.importSshConfig(preview.sourcePath, selectedAliases);
+      onImported(result.created);
+      setNotice(
+        [
+          `Imported ${result.created.length} session(s), skipped ${result.duplicates} duplicate(s).`,
+          ...result.warnings
+        ].join(" ")
+      );
+      await loadPreview(preview.sourcePath);
+    } catch (caughtError) {
+      setError((caughtError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const candidates = preview?.candidates ?? [];
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div aria-label="Import from SSH config" aria-modal="true" className="modal" role="dialog">
+        <div className="modal__header">
+          <h3>Import from SSH Config</h3>
+          <button className="icon-button" onClick={onClose} type="button">
+            Close
+          </button>
+        </div>
+        <div className="session-form">
+          <div className="field-row">
+            <input
+              onChange={(event) => setSourcePath(event.target.value)}
+              placeholder="~/.ssh/config"
+              value={sourcePath}
+            />
+            <button
+              className="field-row__action"
+              disabled={busy}
+              onClick={() => void loadPreview(sourcePath)}
+              type="button"
+            >
+              Load
+            </button>
+          </div>
+          {notice ? <p className="hint test-result test-result--ok">{notice}</p> : null}
+          {error ? <p className="hint test-result test-result--error">{error}</p> : null}
+          {preview?.warnings.map((warning) => (
+            <p className="hint" key={warning}>
+              {warning}
+            </p>
+          ))}
+          {preview && candidates.length === 0 ? (
+            <p className="hint">No concrete Host entries found (wildcard patterns are not imported).</p>
+          ) : null}
+          <ul className="known-hosts-list">
+            {candidates.map((candidate) => {
+              const duplicate = sessions.find(
+                (session) => session.id === candidate.duplicateSessionId
+              );
+              return (
+                <li className="known-hosts-list__item ssh-import-list__item" key={candidate.alias}>
+                  <input
+                    aria-label={`Import ${candidate.alias}`}
+                    checked={selectedAliases.includes(candidate.alias)}
+                    disabled={busy}
+                    onChange={(event) => toggleAlias(candidate.alias, event.target.checked)}
+                    type="checkbox"
+                  />
+                  <div className="known-hosts-list__main">
+                    <span className="known-hosts-list__host">{candidate.alias}</span>
+                    <span className="known-hosts-list__key">
+                      {formatCandidateTarget(candidate)}
+                      {candidate.identityFile ? ` · ${candidate.identityFile}` : " · agent"}
+                      {candidate.proxyJump ? ` · via ${candidate.proxyJump}` : ""}
+                    </span>
+                    <span className="known-hosts-list__meta" title={candidate.sourcePath}>
+                      {duplicate ? `Duplicate of "${duplicate.name}"` : candidate.sourcePath}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="modal__actions">
+            <button
+              className="icon-button"
+              disabled={busy || candidates.length === 0}
+              onClick={() =>
+                setSelectedAliases(
+                  selectedAliases.length > 0 ? [] : candidates.map((candidate) => candidate.alias)
+                )
+              }
+              type="button"
+            >
+              {selectedAliases.length > 0 ? "Select None" : "Select All"}
+            </button>
+            <button
+              className="primary-button"
+              disabled={busy || selectedAliases.length === 0}
+              onClick={() => void importSelected()}
+              type="button"
+            >
+              Import {selectedAliases.length > 0 ? selectedAliases.length : ""}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
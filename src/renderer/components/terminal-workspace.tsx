@@ -4,15 +4,25 @@ import { FitAddon } from "@xterm/addon-fit";
 import { Terminal } from "xterm";
 import type { IDisposable } from "xterm";
 
-import type { TerminalConnectionStatus } from "../../shared/terminal";
+import {
+  computeReconnectDelayMs,
+  resolveConnectionPolicy
+} from "../../shared/connection-policy";
+import type { ConnectionPolicy } from "../../shared/connection-policy";
+import type { TerminalConnectionStatus, TerminalHealth } from "../../shared/terminal";
 
 export interface TerminalTab {
   id: string;
+  // Empty for local shell tabs.
   sessionId: string;
   title: string;
   instance: number;
+  local?: boolean;
+  // Set on tabs showing a tmux window of another tab's control-mode connection.
+  tmuxControlTabId?: string;
 }
 
+// Global defaults; a session's connection policy overrides them.
 export interface ConnectionPreferences {
   autoReconnect: boolean;
   reconnectDelaySeconds: number;
@@ -31,9 +41,13 @@ interface TerminalWorkspaceProps {
   activeTabId: string | null;
   onSelectTab: (tabId: string) => void;
   onCloseTab: (tabId: string) => void;
+  onOpenLocalTab: () => void;
   onError: (message: string) => void;
   terminalApi: Window["termdock"]["terminal"] | null;
+  appApi: Window["termdock"]["app"] | null;
   connectionPreferences: ConnectionPreferences;
+  // By session id.
+  connectionPolicies: Record<string, ConnectionPolicy | undefined>;
   hotkeyPreferences: HotkeyPreferences;
 }
 
@@ -46,6 +60,11 @@ interface TerminalInstance {
 type TabUiStatus = {
   status: TerminalConnectionStatus | "error";
   message?: string;
+  authMethod?: string;
+  // Latest sample while connected; a status change drops it.
+  health?: TerminalHealth;
+  // Set on "closed" when the host lacks the session's persistent terminal tool.
+  persistenceMissing?: "tmux" | "screen";
 };
 
 interface TerminalContextAction {
@@ -72,9 +91,12 @@ export function TerminalWorkspace({
   activeTabId,
   onSelectTab,
   onCloseTab,
+  onOpenLocalTab,
   onError,
   terminalApi,
+  appApi,
   connectionPreferences,
+  connectionPolicies,
   hotkeyPreferences
 }: TerminalWorkspaceProps) {
   const stageRef = useRef<HTMLDivElement | null>(null);
@@ -84,6 +106,14 @@ export function TerminalWorkspace({
   const searchStateRef = useRef(new Map<string, TerminalSearchState>());
   const reconnectAttemptsRef = useRef(new Map<string, number>());
   const reconnectTimersRef = useRef(new Map<string, number>());
+  // Tabs that used up their reconnect attempts; a resume or network change retries them.
+  const reconnectExhaustedRef = useRef(new Set<string>());
+  // Persistent-session tabs the user chose to open as plain shells instead.
+  const plainShellTabsRef = useRef(new Set<string>());
+  // Reported just before the tab's "closed" status, which then carries it.
+  const persistenceMissingRef = useRef(new Map<string, "tmux" | "screen">());
+  // Tabs whose connection drives tmux in control mode.
+  const tmuxControlTabsRef = useRef(new Set<string>());
   const tabsByIdRef = useRef(new Map<string, TerminalTab>());
   const tabStatusesRef = useRef<Record<string, TabUiStatus>>({});
   const [tabStatuses, setTabStatuses] = useState<Record<string, TabUiStatus>>({});
@@ -106,6 +136,7 @@ export function TerminalWorkspace({
 
   const clearReconnectState = useCallback((tabId: string) => {
     reconnectAttemptsRef.current.delete(tabId);
+    reconnectExhaustedRef.current.delete(tabId);
     const timer = reconnectTimersRef.current.get(tabId);
     if (timer !== undefined) {
       window.clearTimeout(timer);
@@ -182,10 +213,18 @@ export function TerminalWorkspace({
         return;
       }
       setTabStatus(tab.id, { status: "connecting" });
-      void terminalApi
-        .connect(tab.id, tab.sessionId)
+      const opened = tab.local
+        ? terminalApi.openLocal(tab.id)
+        : tab.tmuxControlTabId
+          ? terminalApi.attachTmuxWindow(tab.id)
+          : terminalApi.connect(tab.id, tab.sessionId, {
+              instance: tab.instance,
+              plainShell: plainShellTabsRef.current.has(tab.id)
+            });
+      // Reconnect state is cleared by the "connected" event: connect() returns once the
+      // attempt has started, and counting it as a success would reset the backoff.
+      void opened
         .then(() => {
-          clearReconnectState(tab.id);
           fitTerminal(tab.id);
         })
         .catch((error: Error) => {
@@ -195,7 +234,16 @@ export function TerminalWorkspace({
           onError(message);
         });
     },
-    [clearReconnectState, fitTerminal, onError, setTabStatus, terminalApi]
+    [fitTerminal, onError, setTabStatus, terminalApi]
+  );
+
+  const resolveTabPolicy = useCallback(
+    (tab: TerminalTab) =>
+      resolveConnectionPolicy(connectionPolicies[tab.sessionId], {
+        autoReconnect: connectionPreferences.autoReconnect,
+        reconnectDelaySeconds: connectionPreferences.reconnectDelaySeconds
+      }),
+    [connectionPolicies, connectionPreferences]
   );
 
   const reconnectTabNow = useCallback(
@@ -212,6 +260,14 @@ export function TerminalWorkspace({
     [clearReconnectState, connectTab]
   );
 
+  const openPlainShell = useCallback(
+    (tabId: string) => {
+      plainShellTabsRef.current.add(tabId);
+      reconnectTabNow(tabId);
+    },
+    [reconnectTabNow]
+  );
+
   // Keep actions declarative so future right-click items can be appended here.
   const contextActions = useMemo<TerminalContextAction[]>(
     () => [
@@ -226,6 +282,23 @@ export function TerminalWorkspace({
           !terminalRefs.current.has(tabId) ||
           tabStatusesRef.current[tabId]?.status === "connecting"
       },
+      {
+        id: "newTmuxWindow",
+        label: "New tmux Window",
+        run: (tabId: string) => {
+          terminalApi?.newTmuxWindow(tabId).catch((error: Error) => {
+            onError(error.message || "Failed to open a tmux window.");
+          });
+        },
+        isDisabled: (tabId: string) => {
+          const tab = tabsByIdRef.current.get(tabId);
+          return (
+            !tab ||
+            tabStatusesRef.current[tabId]?.status !== "connected" ||
+            !(tab.tmuxControlTabId || tmuxControlTabsRef.current.has(tabId))
+          );
+        }
+      },
       {
         id: "clear",
         label: "Clear",
@@ -240,34 +313,41 @@ export function TerminalWorkspace({
         isDisabled: (tabId: string) => !terminalRefs.current.has(tabId)
       }
     ],
-    [reconnectTabNow]
+    [onError, reconnectTabNow, terminalApi]
   );
 
   const scheduleReconnect = useCallback(
     (tabId: string) => {
-      if (!terminalApi || !connectionPreferences.autoReconnect) {
+      if (!terminalApi || reconnectTimersRef.current.has(tabId)) {
         return;
       }
-      if (reconnectTimersRef.current.has(tabId)) {
+      const tab = tabsByIdRef.current.get(tabId);
+      // A local shell only closes when it exits; starting a new one is up to the user.
+      // tmux window tabs come back when their control tab reconnects.
+      if (!tab || tab.local || tab.tmuxControlTabId) {
         return;
       }
-      const tab = tabsByIdRef.current.get(tabId);
-      if (!tab) {
+      const policy = resolveTabPolicy(tab);
+      if (!policy.autoReconnect) {
         return;
       }
+      const instance = terminalRefs.current.get(tabId);
       const nextAttempt = (reconnectAttemptsRef.current.get(tabId) ?? 0) + 1;
+      if (policy.reconnectMaxAttempts > 0 && nextAttempt > policy.reconnectMaxAttempts) {
+        if (!reconnectExhaustedRef.current.has(tabId)) {
+          reconnectExhaustedRef.current.add(tabId);
+          instance?.terminal.writeln(
+            `\r\n[reconnect] Gave up after ${policy.reconnectMaxAttempts} attempt(s).`
+          );
+        }
+        return;
+      }
       reconnectAttemptsRef.current.set(tabId, nextAttempt);
-      const baseDelaySeconds = Math.min(
-        60,
-        Math.max(1, Math.trunc(connectionPreferences.reconnectDelaySeconds))
-      );
-      const exponent = Math.min(nextAttempt - 1, 5);
-      const delaySeconds = Math.min(60, baseDelaySeconds * 2 ** exponent);
+      const delayMs = computeReconnectDelayMs(policy, nextAttempt);
 
-      const instance = terminalRefs.current.get(tabId);
       if (instance) {
         instance.terminal.writeln(
-          `\r\n[reconnect] Attempt ${nextAttempt} in ${delaySeconds}s...`
+          `\r\n[reconnect] Attempt ${nextAttempt} in ${(delayMs / 1000).toFixed(1)}s...`
         );
       }
 
@@ -279,12 +359,43 @@ export function TerminalWorkspace({
           return;
         }
         void connectTab(nextTab);
-      }, delaySeconds * 1_000);
+      }, delayMs);
       reconnectTimersRef.current.set(tabId, timeoutId);
     },
-    [clearReconnectState, connectTab, connectionPreferences, terminalApi]
+    [clearReconnectState, connectTab, resolveTabPolicy, terminalApi]
+  );
+
+  // After a sleep or a network change the old backoff says nothing about the new network.
+  const retryWaitingTabsNow = useCallback(
+    (reason: string) => {
+      const waiting = new Set([
+        ...reconnectTimersRef.current.keys(),
+        ...reconnectExhaustedRef.current
+      ]);
+      for (const tabId of waiting) {
+        const tab = tabsByIdRef.current.get(tabId);
+        const instance = terminalRefs.current.get(tabId);
+        clearReconnectState(tabId);
+        if (!tab || !instance) {
+          continue;
+        }
+        instance.terminal.writeln(`\r\n[reconnect] ${reason}, reconnecting now...`);
+        void connectTab(tab);
+      }
+    },
+    [clearReconnectState, connectTab]
   );
 
+  useEffect(() => {
+    const handleOnline = () => retryWaitingTabsNow("Network is back");
+    window.addEventListener("online", handleOnline);
+    const stopListening = appApi?.onSystemResumed(() => retryWaitingTabsNow("System resumed"));
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      stopListening?.();
+    };
+  }, [appApi, retryWaitingTabsNow]);
+
   const copySelectionOrSendInterrupt = useCallback(async () => {
     if (!activeTabId || !terminalApi) {
       return;
@@ -376,15 +487,13 @@ export function TerminalWorkspace({
   }, [activeTabId, getActiveInstance, onError]);
 
   useEffect(() => {
-    if (connectionPreferences.autoReconnect) {
-      return;
-    }
-    for (const timer of reconnectTimersRef.current.values()) {
-      window.clearTimeout(timer);
+    for (const tabId of [...reconnectTimersRef.current.keys()]) {
+      const tab = tabsByIdRef.current.get(tabId);
+      if (!tab || !resolveTabPolicy(tab).autoReconnect) {
+        clearReconnectState(tabId);
+      }
     }
-    reconnectTimersRef.current.clear();
-    reconnectAttemptsRef.current.clear();
-  }, [connectionPreferences.autoReconnect]);
+  }, [clearReconnectState, resolveTabPolicy]);
 
   useEffect(() => {
     if (!terminalApi) {
@@ -403,15 +512,65 @@ export function TerminalWorkspace({
         return;
       }
 
+      if (event.type === "health") {
+        setTabStatuses((prev) => {
+          const current = prev[event.tabId];
+          if (current?.status !== "connected") {
+            return prev;
+          }
+          return { ...prev, [event.tabId]: { ...current, health: event.health } };
+        });
+        return;
+      }
+
+      if (event.type === "tmuxWindow") {
+        tmuxControlTabsRef.current.add(event.tabId);
+        // Window tabs closed with their control tab show their window again.
+        const windowTab = tabsByIdRef.current.get(event.windowTabId);
+        const windowStatus = tabStatusesRef.current[event.windowTabId]?.status;
+        if (
+          event.action === "opened" &&
+          windowTab?.tmuxControlTabId &&
+          (windowStatus === "closed" || windowStatus === "error")
+        ) {
+          void connectTab(windowTab);
+        }
+        return;
+      }
+
+      if (event.type === "persistenceMissing") {
+        persistenceMissingRef.current.set(event.tabId, event.tool);
+        instance.terminal.writeln(
+          `\r\n[persistent] Open a plain shell instead, or install ${event.tool} and reconnect.`
+        );
+        return;
+      }
+
       if (event.type === "status") {
-        setTabStatus(event.tabId, { status: event.status });
+        const persistenceMissing =
+          event.status === "closed" ? persistenceMissingRef.current.get(event.tabId) : undefined;
+        persistenceMissingRef.current.delete(event.tabId);
+        setTabStatus(event.tabId, {
+          status: event.status,
+          authMethod: event.authMethod,
+          persistenceMissing
+        });
         if (event.status === "closed") {
+          if (event.cancelled) {
+            if (!persistenceMissing) {
+              instance.terminal.writeln("\r\n[session cancelled]");
+            }
+            clearReconnectState(event.tabId);
+            return;
+          }
           instance.terminal.writeln("\r\n[session closed]");
           scheduleReconnect(event.tabId);
           return;
         }
         if (event.status === "connected") {
           clearReconnectState(event.tabId);
+          // Shells start at a default size; hand them the size the pane was last fitted to.
+          void terminalApi.resize(event.tabId, instance.terminal.cols, instance.terminal.rows);
         }
         return;
       }
@@ -425,7 +584,7 @@ export function TerminalWorkspace({
     return () => {
       stopListening();
     };
-  }, [clearReconnectState, onError, scheduleReconnect, setTabStatus, terminalApi]);
+  }, [clearReconnectState, connectTab, onError, scheduleReconnect, setTabStatus, terminalApi]);
 
   useEffect(() => {
     if (!contextMenu) {
@@ -549,6 +708,8 @@ export function TerminalWorkspace({
       terminalRefs.current.delete(tabId);
       containerRefs.current.delete(tabId);
       searchStateRef.current.delete(tabId);
+      plainShellTabsRef.current.delete(tabId);
+      tmuxControlTabsRef.current.delete(tabId);
       void terminalApi.close(tabId);
       setTabStatuses((prev) => {
         if (!(tabId in prev)) {
@@ -650,6 +811,7 @@ export function TerminalWorkspace({
       searchStateRef.current.clear();
       reconnectAttemptsRef.current.clear();
       reconnectTimersRef.current.clear();
+      reconnectExhaustedRef.current.clear();
     };
   }, [clearReconnectState, terminalApi]);
 
@@ -657,34 +819,54 @@ export function TerminalWorkspace({
     <>
       <div className="terminal-tabs">
         {tabs.length === 0 ? (
-          <div className="hint">No terminal tab. Use "Open" from session list.</div>
+          <div className="hint">No terminal tab. Use "Open" from session list or "+ Local".</div>
         ) : null}
-        {tabs.map((tab) => (
-          <button
-            key={tab.id}
-            className={activeTabId === tab.id ? "tab is-active" : "tab"}
-            onClick={() => onSelectTab(tab.id)}
-            onMouseDown={(event) => {
-              if (event.button !== 1) {
-                return;
-              }
-              event.preventDefault();
-              onCloseTab(tab.id);
-            }}
-            type="button"
-          >
-            <span>{tab.title}</span>
-            <span
-              className="tab__close"
-              onClick={(event) => {
-                event.stopPropagation();
+        {tabs.map((tab) => {
+          const health = tabStatuses[tab.id]?.health;
+          return (
+            <button
+              key={tab.id}
+              className={activeTabId === tab.id ? "tab is-active" : "tab"}
+              onClick={() => onSelectTab(tab.id)}
+              onMouseDown={(event) => {
+                if (event.button !== 1) {
+                  return;
+                }
+                event.preventDefault();
                 onCloseTab(tab.id);
               }}
+              type="button"
             >
-              ×
-            </span>
-          </button>
-        ))}
+              <span>{tab.title}</span>
+              {health?.stalledForMs !== undefined ? (
+                <span className="tab__health is-stalled" title={getHealthText(health)}>
+                  stalled
+                </span>
+              ) : health?.rttMs !== undefined ? (
+                <span className="tab__health" title={getHealthText(health)}>
+                  {health.rttMs} ms
+                </span>
+              ) : null}
+              <span
+                className="tab__close"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onCloseTab(tab.id);
+                }}
+              >
+                ×
+              </span>
+            </button>
+          );
+        })}
+        <button
+          className="tab tab--new"
+          onClick={onOpenLocalTab}
+          title="Open a shell on this computer"
+          type="button"
+        >
+          + Local
+        </button>
       </div>
       <div className="terminal-stage" ref={stageRef}>
         {tabs.length === 0 ? (
@@ -705,8 +887,17 @@ export function TerminalWorkspace({
                 ref={(node) => setContainerRef(tab.id, node)}
               />
               {state ? (
-                <div className={`terminal-pane__status is-${state.status}`}>
+                <div
+                  className={
+                    state.health?.stalledForMs !== undefined
+                      ? "terminal-pane__status is-stalled"
+                      : `terminal-pane__status is-${state.status}`
+                  }
+                >
                   <span>{getStatusText(state, tabsById.get(tab.id)?.title ?? tab.title)}</span>
+                  {state.health ? (
+                    <span className="terminal-pane__health">{getHealthText(state.health)}</span>
+                  ) : null}
                   {(state.status === "closed" || state.status === "error") ? (
                     <button
                       className="terminal-pane__status-action"
@@ -716,6 +907,15 @@ export function TerminalWorkspace({
                       Reconnect
                     </button>
                   ) : null}
+                  {state.persistenceMissing ? (
+                    <button
+                      className="terminal-pane__status-action"
+                      onClick={() => openPlainShell(tab.id)}
+                      type="button"
+                    >
+                      Open Plain Shell
+                    </button>
+                  ) : null}
                 </div>
               ) : null}
             </div>
@@ -727,7 +927,7 @@ export function TerminalWorkspace({
             ref={menuRef}
             style={{
               left: `${Math.max(8, Math.min(contextMenu.x, window.innerWidth - 180))}px`,
-              top: `${Math.max(8, Math.min(contextMenu.y, window.innerHeight - 120))}px`
+              top: `${Math.max(8, Math.min(contextMenu.y, window.innerHeight - 160))}px`
             }}
           >
             {contextActions.map((action) => {
@@ -753,17 +953,50 @@ export function TerminalWorkspace({
 
 function getStatusText(state: TabUiStatus, title: string): string {
   if (state.status === "connected") {
-    return `${title}: connected`;
+    return state.authMethod
+      ? `${title}: connected via ${state.authMethod}`
+      : `${title}: connected`;
   }
   if (state.status === "connecting") {
     return `${title}: connecting...`;
   }
   if (state.status === "closed") {
-    return `${title}: closed`;
+    return state.persistenceMissing
+      ? `${title}: ${state.persistenceMissing} is not installed on this host`
+      : `${title}: closed`;
   }
   return `${title}: ${state.message ?? "error"}`;
 }
 
+function getHealthText(health: TerminalHealth): string {
+  const parts = [
+    `↓ ${formatHealthBytes(health.bytesIn)} (${formatHealthBytes(health.inRate)}/s)`,
+    `↑ ${formatHealthBytes(health.bytesOut)} (${formatHealthBytes(health.outRate)}/s)`
+  ];
+  if (health.stalledForMs !== undefined) {
+    const stalled = `stalled: no reply for ${Math.round(health.stalledForMs / 1000)}s`;
+    parts.unshift(
+      health.giveUpAfterMs
+        ? `${stalled}, dropped after ${Math.round(health.giveUpAfterMs / 1000)}s of silence`
+        : stalled
+    );
+  } else if (health.rttMs !== undefined) {
+    parts.unshift(`RTT ${health.rttMs} ms`);
+  }
+  return parts.join(" · ");
+}
+
+function formatHealthBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let index = 0;
+  while (value >= 1000 && index < units.length - 1) {
+    value /= 1000;
+    index += 1;
+  }
+  return `${value.toFixed(index === 0 ? 0 : 1)} ${units[index]}`;
+}
+
 function hasPrimaryShortcutModifier(event: KeyboardEvent): boolean {
   const isMac = /mac/i.test(navigator.platform);
   return isMac ? event.metaKey : event.ctrlKey;
@@ -0,0 +1,154 @@
+import type { TunnelDefinitionInput, TunnelKind } from "../../shared/tunnel";
+
+interface TunnelDefinitionsEditorProps {
+  value: TunnelDefinitionInput[];
+  onChange: (tunnels: TunnelDefinitionInput[]) => void;
+}
+
+const NEW_LOCAL_TUNNEL: TunnelDefinitionInput = {
+  kind: "local",
+  bindHost: "127.0.0.1",
+  bindPort: 8080,
+  targetHost: "127.0.0.1",
+  targetPort: 80,
+  autoStart: false
+};
+
+const KIND_TITLES: Record<TunnelKind, string> = {
+  local: "Local (-L): this machine listens and forwards via the server",
+  remote: "Remote (-R): the server listens and forwards to this machine",
+  dynamic: "Dynamic (-D): SOCKS5 proxy on this machine, connecting out via the server"
+};
+
+export function validateTunnelDefinitions(tunnels: TunnelDefinitionInput[]): string | null {
+  for (const [index, tunnel] of tunnels.entries()) {
+    const label = `Tunnel ${index + 1}`;
+    if (!isValidPort(tunnel.bindPort)) {
+      return `${label}: ports must be between 1 and 65535.`;
+    }
+    if (tunnel.kind === "dynamic") {
+      continue;
+    }
+    if (!isValidPort(tunnel.targetPort)) {
+      return `${label}: ports must be between 1 and 65535.`;
+    }
+    if (!tunnel.targetHost.trim()) {
+      return `${label}: target host is required.`;
+    }
+  }
+  return null;
+}
+
+export function TunnelDefinitionsEditor({ value, onChange }: TunnelDefinitionsEditorProps) {
+  const updateAt = (index: number, patch: Partial<TunnelDefinitionInput>) => {
+    onChange(value.map((tunnel, current) => (current === index ? { ...tunnel, ...patch } : tunnel)));
+  };
+
+  const changeKind = (index: number, tunnel: TunnelDefinitionInput, kind: TunnelKind) => {
+    if (kind === "dynamic") {
+      updateAt(index, { kind, bindPort: 1080, targetHost: "", targetPort: 0 });
+    } else if (tunnel.kind === "dynamic") {
+      updateAt(index, {
+        kind,
+        targetHost: NEW_LOCAL_TUNNEL.targetHost,
+        targetPort: NEW_LOCAL_TUNNEL.targetPort
+      });
+    } else {
+      updateAt(index, { kind });
+    }
+  };
+
+  return (
+    <div className="tunnel-editor">
+      <span>Port Forwarding</span>
+      {value.length > 0 ? (
+        <ul className="tunnel-editor__list">
+          {value.map((tunnel, index) => (
+            <li className="tunnel-editor__item" key={tunnel.id ?? `new-${index}`}>
+              <select
+                aria-label="Tunnel type"
+                onChange={(event) => changeKind(index, tunnel, event.target.value as TunnelKind)}
+                title={KIND_TITLES[tunnel.kind]}
+                value={tunnel.kind}
+              >
+                <option value="local">-L</option>
+                <option value="remote">-R</option>
+                <option value="dynamic">-D</option>
+              </select>
+              <input
+                aria-label={tunnel.kind === "remote" ? "Remote bind host" : "Local bind host"}
+                onChange={(event) => updateAt(index, { bindHost: event.target.value })}
+                placeholder="127.0.0.1"
+                value={tunnel.bindHost}
+              />
+              <input
+                aria-label={tunnel.kind === "remote" ? "Remote port" : "Local port"}
+                className="tunnel-editor__port"
+                min={1}
+                max={65535}
+                onChange={(event) => updateAt(index, { bindPort: Number(event.target.value) })}
+                type="number"
+                value={tunnel.bindPort}
+              />
+              {tunnel.kind === "dynamic" ? (
+                <span className="tunnel-editor__socks">SOCKS5 proxy via this session</span>
+              ) : (
+                <>
+                  <span className="tunnel-editor__arrow">→</span>
+                  <input
+                    aria-label={tunnel.kind === "remote" ? "Local target host" : "Remote target host"}
+                    onChange={(event) => updateAt(index, { targetHost: event.target.value })}
+                    placeholder={tunnel.kind === "remote" ? "127.0.0.1" : "db.internal"}
+                    value={tunnel.targetHost}
+                  />
+                  <input
+                    aria-label={tunnel.kind === "remote" ? "Local target port" : "Remote target port"}
+                    className="tunnel-editor__port"
+                    min={1}
+                    max={65535}
+                    onChange={(event) => updateAt(index, { targetPort: Number(event.target.value) })}
+                    type="number"
+                    value={tunnel.targetPort}
+                  />
+                </>
+              )}
+              <label className="tunnel-editor__auto" title="Start when the tab connects">
+                <input
+                  checked={tunnel.autoStart ?? false}
+                  onChange={(event) => updateAt(index, { autoStart: event.target.checked })}
+                  type="checkbox"
+                />
+                Auto
+              </label>
+              <button
+                aria-label="Remove tunnel"
+                className="icon-button icon-button--danger"
+                onClick={() => onChange(value.filter((_tunnel, current) => current !== index))}
+                title="Remove"
+                type="button"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="hint">
+          -L forwards a local port to a host reachable from the server; -R exposes a local
+          service on a server port; -D starts a local SOCKS5 proxy (e.g. 127.0.0.1:1080).
+        </p>
+      )}
+      <button
+        className="icon-button tunnel-editor__add"
+        onClick={() => onChange([...value, { ...NEW_LOCAL_TUNNEL }])}
+        type="button"
+      >
+        Add tunnel
+      </button>
+    </div>
+  );
+}
+
+function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port > 0 && port <= 65535;
+}
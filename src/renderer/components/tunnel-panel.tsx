@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { TunnelDefinition, TunnelStatus } from "../../shared/tunnel";
+
+interface TunnelPanelProps {
+  tunnelsApi: Window["termdock"]["tunnels"] | null;
+  tabId: string | null;
+  // Definitions saved on the active tab's session; live state is merged in by id.
+  definitions: TunnelDefinition[];
+  onError: (message: string) => void;
+}
+
+const STATE_LABELS: Record<TunnelStatus["state"], string> = {
+  stopped: "Stopped",
+  starting: "Starting",
+  active: "Active",
+  error: "Error"
+};
+
+function formatTunnelRoute(definition: TunnelDefinition): string {
+  if (definition.kind === "dynamic") {
+    return `-D ${definition.bindHost}:${definition.bindPort} (SOCKS5)`;
+  }
+  const flag = definition.kind === "remote" ? "-R" : "-L";
+  return `${flag} ${definition.bindHost}:${definition.bindPort} → ${definition.targetHost}:${definition.targetPort}`;
+}
+
+function formatTunnelBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let index = 0;
+  while (value >= 1000 && index < units.length - 1) {
+    value /= 1000;
+    index += 1;
+  }
+  return `${value.toFixed(index === 0 ? 0 : 1)} ${units[index]}`;
+}
+
+export function TunnelPanel({ tunnelsApi, tabId, definitions, onError }: TunnelPanelProps) {
+  const [statuses, setStatuses] = useState<Record<string, TunnelStatus>>({});
+  const [busyTunnelId, setBusyTunnelId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!tunnelsApi || !tabId) {
+      setStatuses({});
+      return;
+    }
+    try {
+      const list = await tunnelsApi.list(tabId);
+      setStatuses(Object.fromEntries(list.map((status) => [status.definition.id, status])));
+    } catch (caughtError) {
+      onError((caughtError as Error).message);
+    }
+  }, [onError, tabId, tunnelsApi]);
+
+  useEffect(() => {
+    void reload();
+  }, [definitions, reload]);
+
+  useEffect(() => {
+    if (!tunnelsApi || !tabId) {
+      return;
+    }
+    return tunnelsApi.onEvent((status) => {
+      if (status.tabId !== tabId) {
+        return;
+      }
+      setStatuses((prev) => ({ ...prev, [status.definition.id]: status }));
+    });
+  }, [tabId, tunnelsApi]);
+
+  const toggleTunnel = async (definition: TunnelDefinition, running: boolean) => {
+    if (!tabId) {
+      return;
+    }
+    if (!tunnelsApi) {
+      onError("Tunnel bridge unavailable. Restart `pnpm dev`.");
+      return;
+    }
+    setBusyTunnelId(definition.id);
+    try {
+      if (running) {
+        await tunnelsApi.stop(tabId, definition.id);
+      } else {
+        const status = await tunnelsApi.start(tabId, definition.id);
+        setStatuses((prev) => ({ ...prev, [definition.id]: status }));
+      }
+    } catch (caughtError) {
+      onError((caughtError as Error).message);
+    } finally {
+      setBusyTunnelId(null);
+    }
+  };
+
+  // Tunnels deleted from the session stay listed while they are still running.
+  const orphaned = Object.values(statuses)
+    .filter(
+      (status) =>
+        status.state !== "stopped" &&
+        !definitions.some((definition) => definition.id === status.definition.id)
+    )
+    .map((status) => status.definition);
+  const rows = [...definitions, ...orphaned];
+
+  return (
+    <section className="panel__section">
+      <div className="panel__heading">
+        <h2>Tunnels</h2>
+      </div>
+      {!tabId ? (
+        <p className="hint">Open a terminal tab to manage its tunnels.</p>
+      ) : rows.length === 0 ? (
+        <p className="hint">No tunnels defined. Add them in the session&apos;s settings.</p>
+      ) : (
+        <ul className="tunnel-list">
+          {rows.map((definition) => {
+            const status = statuses[definition.id];
+            const state = status?.state ?? "stopped";
+            const running = state === "active" || state === "starting";
+            return (
+              <li className="tunnel-list__item" key={definition.id}>
+                <div className="tunnel-list__row">
+                  <span className="tunnel-list__route" title={formatTunnelRoute(definition)}>
+                    {formatTunnelRoute(definition)}
+                  </span>
+                  <button
+                    className="icon-button"
+                    disabled={busyTunnelId === definition.id}
+                    onClick={() => void toggleTunnel(definition, running)}
+                    type="button"
+                  >
+                    {running ? "Stop" : "Start"}
+                  </button>
+                </div>
+                <div className="tunnel-list__row tunnel-list__stats">
+                  <span className={`tunnel-list__state tunnel-list__state--${state}`}>
+                    {STATE_LABELS[state]}
+                  </span>
+                  {status && state !== "stopped" ? (
+                    <span>
+                      {status.activeConnections}/{status.totalConnections} conn · ↓
+                      {formatTunnelBytes(status.bytesIn)} ↑{formatTunnelBytes(status.bytesOut)}
+                    </span>
+                  ) : null}
+                </div>
+                {status?.activeTargets?.length ? (
+                  <ul className="tunnel-list__targets" title="Active upstream targets">
+                    {status.activeTargets.map((target) => (
+                      <li key={target}>{target}</li>
+                    ))}
+                  </ul>
+                ) : null}
+                {status?.message ? <p className="hint tunnel-list__message">{status.message}</p> : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,3 +1,10 @@
+import type {
+  HostKeyPrompt,
+  KnownHostEntry,
+  KnownHostsImportResult
+} from "../shared/known-hosts";
+import type { KeyboardInteractivePrompt } from "../shared/keyboard-interactive";
+import type { GlobalProxySettings, GlobalProxySettingsInput } from "../shared/proxy";
 import type {
   SessionCreateInput,
   SessionRecord,
@@ -9,11 +16,20 @@ import type {
   SftpEntryKind,
   SftpTransferEvent
 } from "../shared/sftp";
-import type { TerminalEvent } from "../shared/terminal";
+import type {
+  SshConfigExportPreview,
+  SshConfigExportResult,
+  SshConfigImportPreview,
+  SshConfigImportResult
+} from "../shared/ssh-config";
+import type { SshCertificateInfo } from "../shared/ssh-certificate";
+import type { TerminalConnectOptions, TerminalEvent } from "../shared/terminal";
+import type { TunnelStatus } from "../shared/tunnel";
 
 interface TermDockApi {
   app: {
     onOpenSettings: (listener: () => void) => () => void;
+    onSystemResumed: (listener: () => void) => () => void;
   };
   sessions: {
     list: () => Promise<SessionRecord[]>;
@@ -21,11 +37,38 @@ interface TermDockApi {
     testConnection: (input: SessionCreateInput) => Promise<SessionTestConnectionResult>;
     update: (id: string, patch: SessionUpdateInput) => Promise<SessionRecord>;
     remove: (id: string) => Promise<void>;
+    inspectCertificate: (
+      privateKeyPath?: string,
+      certificatePath?: string
+    ) => Promise<SshCertificateInfo | null>;
+    previewSshConfigImport: (sourcePath?: string) => Promise<SshConfigImportPreview>;
+    importSshConfig: (sourcePath: string, aliases: string[]) => Promise<SshConfigImportResult>;
+    previewSshConfigExport: (sessionIds: string[]) => Promise<SshConfigExportPreview>;
+    exportSshConfig: (sessionIds: string[], targetPath: string) => Promise<SshConfigExportResult>;
+    mergeSshConfig: (sessionIds: string[]) => Promise<SshConfigExportResult>;
+  };
+  knownHosts: {
+    list: () => Promise<KnownHostEntry[]>;
+    remove: (id: string) => Promise<void>;
+    importOpenSsh: (sourcePath?: string) => Promise<KnownHostsImportResult>;
+    respondPrompt: (requestId: string, accepted: boolean) => Promise<boolean>;
+    onPrompt: (listener: (prompt: HostKeyPrompt) => void) => () => void;
+  };
+  auth: {
+    respondKeyboardInteractive: (requestId: string, responses: string[] | null) => Promise<boolean>;
+    onKeyboardInteractivePrompt: (
+      listener: (prompt: KeyboardInteractivePrompt) => void
+    ) => () => void;
+  };
+  proxy: {
+    getGlobal: () => Promise<GlobalProxySettings>;
+    setGlobal: (input: GlobalProxySettingsInput) => Promise<GlobalProxySettings>;
   };
   system: {
     pickPrivateKey: () => Promise<string | null>;
     pickUploadFile: () => Promise<string | null>;
     pickDownloadTarget: (defaultName: string) => Promise<string | null>;
+    pickSshConfigExportTarget: () => Promise<string | null>;
     pickOpenProgram: () => Promise<string | null>;
     createTempOpenFilePath: (defaultName: string) => Promise<string>;
     openLocalPath: (localPath: string, preferredProgramPath?: string | null) => Promise<void>;
@@ -40,12 +83,21 @@ interface TermDockApi {
     getPathForDroppedFile: (file: File) => Promise<string | null>;
   };
   terminal: {
-    connect: (tabId: string, sessionId: string) => Promise<void>;
+    connect: (tabId: string, sessionId: string, options?: TerminalConnectOptions) => Promise<void>;
+    attachTmuxWindow: (tabId: string) => Promise<void>;
+    newTmuxWindow: (tabId: string) => Promise<void>;
+    openLocal: (tabId: string) => Promise<void>;
     write: (tabId: string, data: string) => Promise<void>;
     resize: (tabId: string, cols: number, rows: number) => Promise<void>;
     close: (tabId: string) => Promise<void>;
     onEvent: (listener: (event: TerminalEvent) => void) => () => void;
   };
+  tunnels: {
+    list: (tabId: string) => Promise<TunnelStatus[]>;
+    start: (tabId: string, tunnelId: string) => Promise<TunnelStatus>;
+    stop: (tabId: string, tunnelId: string) => Promise<void>;
+    onEvent: (listener: (status: TunnelStatus) => void) => () => void;
+  };
   sftp: {
     listDirectory: (tabId: string, path?: string) => Promise<SftpDirectoryListResult>;
     createDirectory: (tabId: string, parentPath: string, name: string) => Promise<void>;
@@ -0,0 +1,75 @@
+// Per-session connection timing. Unset fields use the defaults below, and the
+// reconnect fields the global Settings.
+export interface ConnectionPolicy {
+  // Seconds the TCP connect, handshake and authentication may take.
+  connectTimeoutSeconds?: number;
+  // Seconds between keepalive probes; 0 turns them off.
+  keepaliveIntervalSeconds?: number;
+  // Unanswered probes after which the connection is dropped.
+  keepaliveCountMax?: number;
+  autoReconnect?: boolean;
+  // Delay before the first retry; it doubles per attempt up to reconnectMaxDelaySeconds.
+  reconnectDelaySeconds?: number;
+  reconnectMaxDelaySeconds?: number;
+  // 0 keeps retrying until the tab is closed.
+  reconnectMaxAttempts?: number;
+  // Random spread of each delay so tabs dropped together do not retry in lockstep.
+  reconnectJitterPercent?: number;
+}
+
+export type ConnectionPolicyNumberField = Exclude<keyof ConnectionPolicy, "autoReconnect">;
+
+export const DEFAULT_CONNECTION_POLICY: Required<ConnectionPolicy> = {
+  connectTimeoutSeconds: 15,
+  keepaliveIntervalSeconds: 15,
+  keepaliveCountMax: 3,
+  autoReconnect: true,
+  reconnectDelaySeconds: 3,
+  reconnectMaxDelaySeconds: 60,
+  reconnectMaxAttempts: 0,
+  reconnectJitterPercent: 20
+};
+
+export const CONNECTION_POLICY_LIMITS: Record<
+  ConnectionPolicyNumberField,
+  { label: string; min: number; max: number }
+> = {
+  connectTimeoutSeconds: { label: "Connect timeout", min: 1, max: 300 },
+  keepaliveIntervalSeconds: { label: "Keepalive interval", min: 0, max: 3600 },
+  keepaliveCountMax: { label: "Keepalive count", min: 1, max: 100 },
+  reconnectDelaySeconds: { label: "Reconnect delay", min: 1, max: 600 },
+  reconnectMaxDelaySeconds: { label: "Maximum reconnect delay", min: 1, max: 3600 },
+  reconnectMaxAttempts: { label: "Reconnect attempts", min: 0, max: 1000 },
+  reconnectJitterPercent: { label: "Reconnect jitter", min: 0, max: 100 }
+};
+
+export function resolveConnectionPolicy(
+  policy: ConnectionPolicy | undefined,
+  fallback: ConnectionPolicy = {}
+): Required<ConnectionPolicy> {
+  const resolved = { ...DEFAULT_CONNECTION_POLICY };
+  for (const source of [fallback, policy ?? {}]) {
+    for (const [field, value] of Object.entries(source) as Array<
+      [keyof ConnectionPolicy, ConnectionPolicy[keyof ConnectionPolicy]]
+    >) {
+      if (value !== undefined) {
+        Object.assign(resolved, { [field]: value });
+      }
+    }
+  }
+  return resolved;
+}
+
+/** Exponential backoff for retry `attempt` (1-based), spread by the policy's jitter. */
+export function computeReconnectDelayMs(
+  policy: Required<ConnectionPolicy>,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const baseSeconds = Math.min(
+    policy.reconnectMaxDelaySeconds,
+    policy.reconnectDelaySeconds * 2 ** Math.min(Math.max(attempt - 1, 0), 16)
+  );
+  const spread = (baseSeconds * policy.reconnectJitterPercent) / 100;
+  return Math.max(0, Math.round((baseSeconds + (random() * 2 - 1) * spread) * 1000));
+}
@@ -0,0 +1,25 @@
+export interface ExpectRule {
+  id: string;
+  // JavaScript regular expression tested against shell output received since the previous rule fired.
+  pattern: string;
+  // Literal response; unused when sendSecret is set.
+  send: string;
+  // Responds with the secret stored for this rule in the CredentialStore instead of `send`.
+  sendSecret?: boolean;
+  hasSecret?: boolean;
+  // Presses Enter after the response.
+  pressEnter: boolean;
+  // How long the rule waits for its pattern before the remaining rules are abandoned.
+  timeoutSeconds: number;
+}
+
+export interface ExpectRuleInput {
+  id?: string;
+  pattern: string;
+  send: string;
+  sendSecret?: boolean;
+  pressEnter: boolean;
+  timeoutSeconds: number;
+  // Omit to keep the stored secret, empty string to clear it.
+  secret?: string;
+}
@@ -0,0 +1,15 @@
+export interface KeyboardInteractivePromptField {
+  prompt: string;
+  echo: boolean;
+}
+
+export interface KeyboardInteractivePrompt {
+  requestId: string;
+  tabId?: string;
+  host: string;
+  port: number;
+  username: string;
+  name: string;
+  instructions: string;
+  prompts: KeyboardInteractivePromptField[];
+}
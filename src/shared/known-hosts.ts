@@ -0,0 +1,31 @@
+export type KnownHostSource = "termdock" | "openssh";
+export type HostKeyPromptKind = "unknown" | "changed";
+
+export interface KnownHostEntry {
+  id: string;
+  host: string;
+  port: number;
+  keyType: string;
+  publicKey: string;
+  fingerprint: string;
+  source: KnownHostSource;
+  addedAt: string;
+}
+
+export interface HostKeyPrompt {
+  requestId: string;
+  tabId?: string;
+  kind: HostKeyPromptKind;
+  host: string;
+  port: number;
+  keyType: string;
+  fingerprint: string;
+  knownFingerprints: string[];
+}
+
+export interface KnownHostsImportResult {
+  sourcePath: string;
+  imported: number;
+  duplicates: number;
+  skipped: number;
+}
@@ -0,0 +1,24 @@
+export type ProxyType = "socks5" | "http";
+
+export interface ProxyConfig {
+  type: ProxyType;
+  host: string;
+  port: number;
+  username?: string;
+}
+
+// "global" follows the app-wide proxy setting; "custom" uses the session's own proxy.
+export type SessionProxyMode = "global" | "direct" | "custom";
+
+export interface GlobalProxySettings {
+  enabled: boolean;
+  proxy: ProxyConfig | null;
+  hasPassword: boolean;
+}
+
+export interface GlobalProxySettingsInput {
+  enabled: boolean;
+  proxy: ProxyConfig | null;
+  // Omit to keep the stored password, empty string to clear it.
+  password?: string;
+}
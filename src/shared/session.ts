@@ -1,13 +1,74 @@
-export type SessionAuthType = "password" | "privateKey";
+import type { ConnectionPolicy } from "./connection-policy.js";
+import type { ExpectRule, ExpectRuleInput } from "./expect.js";
+import type { ProxyConfig, SessionProxyMode } from "./proxy.js";
+import type { SshAlgorithmSettings } from "./ssh-algorithms.js";
+import type { TunnelDefinition, TunnelDefinitionInput } from "./tunnel.js";
+
+export type SessionAuthType = "password" | "privateKey" | "agent";
+
+export type SessionAuthMethod = SessionAuthType | "keyboardInteractive";
+
+export type SessionProtocol = "ssh" | "telnet" | "raw";
+
+// "off" is not stored. "tmuxControl" drives tmux in control mode, one tab per tmux window.
+export type SessionPersistence = "off" | "tmux" | "tmuxControl" | "screen";
+
+// Character set of the remote terminal; "utf-8" is not stored.
+export type SessionEncoding = "utf-8" | "gbk" | "big5" | "shift_jis" | "euc-jp" | "euc-kr";
+
+export const SESSION_ENCODING_LABELS: Record<SessionEncoding, string> = {
+  "utf-8": "UTF-8",
+  gbk: "GBK (Simplified Chinese)",
+  big5: "Big5 (Traditional Chinese)",
+  shift_jis: "Shift_JIS (Japanese)",
+  "euc-jp": "EUC-JP (Japanese)",
+  "euc-kr": "EUC-KR (Korean)"
+};
+
+// Raw TCP has no well-known port; new raw sessions start from telnet's.
+export const DEFAULT_SESSION_PORTS: Record<SessionProtocol, number> = {
+  ssh: 22,
+  telnet: 23,
+  raw: 23
+};
 
 export interface SessionRecord {
   id: string;
   name: string;
+  // Unset means SSH. Telnet and raw TCP tabs use only the address, proxy and expect rules.
+  protocol?: SessionProtocol;
   host: string;
   port: number;
   username: string;
   authType: SessionAuthType;
+  // Tried in order after authType; keyboard-interactive still comes last when not listed.
+  fallbackAuthMethods?: SessionAuthMethod[];
+  // Secrets of fallback methods; the session secret belongs to authType.
+  hasFallbackPassword?: boolean;
+  hasFallbackPassphrase?: boolean;
   privateKeyPath?: string;
+  // OpenSSH user certificate; "<privateKeyPath>-cert.pub" is used when unset and present.
+  certificatePath?: string;
+  agentForward?: boolean;
+  // Saved sessions dialed in order before this one (ProxyJump).
+  jumpSessionIds?: string[];
+  proxyMode?: SessionProxyMode;
+  proxy?: ProxyConfig;
+  hasProxyPassword?: boolean;
+  tunnels?: TunnelDefinition[];
+  // Opens a separate SSH connection per tab instead of sharing one (servers with low MaxSessions).
+  dedicatedConnection?: boolean;
+  algorithms?: SshAlgorithmSettings;
+  connectionPolicy?: ConnectionPolicy;
+  // Sent with the shell request; servers drop names missing from their AcceptEnv.
+  environment?: Record<string, string>;
+  startDirectory?: string;
+  // Typed into every new shell (including reconnects) after changing to startDirectory.
+  startupCommands?: string[];
+  // Tabs attach to a named remote tmux or screen session that outlives reconnects.
+  persistence?: Exclude<SessionPersistence, "off">;
+  encoding?: Exclude<SessionEncoding, "utf-8">;
+  expectRules?: ExpectRule[];
   groupId?: string;
   remark?: string;
   favorite: boolean;
@@ -19,11 +80,31 @@ export interface SessionRecord {
 
 export interface SessionCreateInput {
   name: string;
+  protocol?: SessionProtocol;
   host: string;
   port?: number;
   username: string;
   authType: SessionAuthType;
+  fallbackAuthMethods?: SessionAuthMethod[];
+  fallbackPassword?: string;
+  fallbackPassphrase?: string;
   privateKeyPath?: string;
+  certificatePath?: string;
+  agentForward?: boolean;
+  jumpSessionIds?: string[];
+  proxyMode?: SessionProxyMode;
+  proxy?: ProxyConfig;
+  proxyPassword?: string;
+  tunnels?: TunnelDefinitionInput[];
+  dedicatedConnection?: boolean;
+  algorithms?: SshAlgorithmSettings;
+  connectionPolicy?: ConnectionPolicy;
+  environment?: Record<string, string>;
+  startDirectory?: string;
+  startupCommands?: string[];
+  persistence?: SessionPersistence;
+  encoding?: SessionEncoding;
+  expectRules?: ExpectRuleInput[];
   groupId?: string;
   remark?: string;
   favorite?: boolean;
@@ -32,18 +113,56 @@ export interface SessionCreateInput {
 
 export interface SessionUpdateInput {
   name?: string;
+  protocol?: SessionProtocol;
   host?: string;
   port?: number;
   username?: string;
   authType?: SessionAuthType;
+  fallbackAuthMethods?: SessionAuthMethod[];
+  fallbackPassword?: string;
+  fallbackPassphrase?: string;
   privateKeyPath?: string;
+  certificatePath?: string;
+  agentForward?: boolean;
+  jumpSessionIds?: string[];
+  proxyMode?: SessionProxyMode;
+  proxy?: ProxyConfig;
+  proxyPassword?: string;
+  tunnels?: TunnelDefinitionInput[];
+  dedicatedConnection?: boolean;
+  // Omit to keep the stored settings, preset "default" to clear them.
+  algorithms?: SshAlgorithmSettings;
+  // Omit to keep the stored policy, an empty object to clear it.
+  connectionPolicy?: ConnectionPolicy;
+  environment?: Record<string, string>;
+  startDirectory?: string;
+  startupCommands?: string[];
+  persistence?: SessionPersistence;
+  encoding?: SessionEncoding;
+  expectRules?: ExpectRuleInput[];
   groupId?: string;
   remark?: string;
   favorite?: boolean;
   secret?: string;
 }
 
+export type ConnectionDiagnosticStatus = "ok" | "failed" | "skipped";
+
+export interface ConnectionDiagnosticStep {
+  // e.g. "DNS resolution", "Server banner", "Auth: password".
+  label: string;
+  status: ConnectionDiagnosticStatus;
+  detail: string;
+  durationMs?: number;
+  // Likely cause and fix of a failed step.
+  hint?: string;
+}
+
 export interface SessionTestConnectionResult {
   ok: boolean;
   message: string;
+  // Stages the test went through, in order; absent when it failed before dialing.
+  steps?: ConnectionDiagnosticStep[];
+  // Plain-text rendering of the steps, for pasting into chats and tickets.
+  report?: string;
 }
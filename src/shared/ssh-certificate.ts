@@ -0,0 +1,12 @@
+export interface SshCertificateInfo {
+  // Resolved file the certificate was read from (explicit or `<key>-cert.pub`).
+  path: string;
+  type: string;
+  keyId: string;
+  serial: string;
+  // Empty when the certificate is valid for any user name.
+  principals: string[];
+  // Epoch milliseconds; null means no lower / upper bound.
+  validAfter: number | null;
+  validBefore: number | null;
+}
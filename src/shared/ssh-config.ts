@@ -0,0 +1,38 @@
+import type { SessionRecord } from "./session.js";
+
+export interface SshConfigImportCandidate {
+  alias: string;
+  host: string;
+  port: number;
+  username: string;
+  identityFile?: string;
+  certificateFile?: string;
+  proxyJump?: string;
+  // Config file holding the alias' Host line (may be an Include target).
+  sourcePath: string;
+  // Existing session with the same host, port and username.
+  duplicateSessionId?: string;
+}
+
+export interface SshConfigImportPreview {
+  sourcePath: string;
+  candidates: SshConfigImportCandidate[];
+  warnings: string[];
+}
+
+export interface SshConfigImportResult {
+  created: SessionRecord[];
+  duplicates: number;
+  warnings: string[];
+}
+
+export interface SshConfigExportPreview {
+  content: string;
+  warnings: string[];
+}
+
+export interface SshConfigExportResult {
+  path: string;
+  // Merge only: whether an earlier TermDock section was replaced rather than appended.
+  replacedManagedSection?: boolean;
+}
@@ -1,5 +1,27 @@
 export type TerminalConnectionStatus = "connecting" | "connected" | "closed";
 
+export interface TerminalConnectOptions {
+  // The tab's number among the session's tabs; names its persistent tmux or screen session.
+  instance?: number;
+  // Opens a plain shell in a persistent session, e.g. after its tool turned out to be missing.
+  plainShell?: boolean;
+}
+
+export interface TerminalHealth {
+  // Round trip of the latest answered keepalive probe; built-in SSH client only.
+  rttMs?: number;
+  // Terminal bytes received from the remote side / sent to it.
+  bytesIn: number;
+  bytesOut: number;
+  // Bytes per second since the previous sample.
+  inRate: number;
+  outRate: number;
+  // Set while a probe has gone unanswered long enough that the connection may be dead.
+  stalledForMs?: number;
+  // How long the keepalive waits on a silent server before dropping the connection.
+  giveUpAfterMs?: number;
+}
+
 export type TerminalEvent =
   | {
       tabId: string;
@@ -10,6 +32,31 @@ export type TerminalEvent =
       tabId: string;
       type: "status";
       status: TerminalConnectionStatus;
+      // Set on "connected" over the built-in client: the auth method that succeeded.
+      authMethod?: string;
+      // Set on "closed" when the user aborted the connection; tabs must not auto-reconnect.
+      cancelled?: boolean;
+    }
+  | {
+      tabId: string;
+      type: "health";
+      health: TerminalHealth;
+    }
+  | {
+      tabId: string;
+      // The persistent session's tool is not installed on the host; the tab was closed.
+      type: "persistenceMissing";
+      tool: "tmux" | "screen";
+    }
+  | {
+      tabId: string;
+      // A tmux window of this control-mode tab; windowTabId is the tab showing it.
+      type: "tmuxWindow";
+      action: "opened" | "renamed" | "closed";
+      windowTabId: string;
+      title?: string;
+      // Set when a tab asked for the window, so the workspace switches to it.
+      focus?: boolean;
     }
   | {
       tabId: string;
@@ -0,0 +1,33 @@
+// "local" mirrors `ssh -L`, "remote" mirrors `ssh -R` (bind on the server, target on this machine)
+// and "dynamic" mirrors `ssh -D` (local SOCKS5 proxy).
+export type TunnelKind = "local" | "remote" | "dynamic";
+
+export interface TunnelDefinition {
+  id: string;
+  kind: TunnelKind;
+  bindHost: string;
+  bindPort: number;
+  // Dynamic tunnels pick their target per connection and keep these empty ("" / 0).
+  targetHost: string;
+  targetPort: number;
+  // Started as soon as the tab's SSH connection is ready.
+  autoStart?: boolean;
+}
+
+export type TunnelDefinitionInput = Omit<TunnelDefinition, "id"> & { id?: string };
+
+export type TunnelState = "stopped" | "starting" | "active" | "error";
+
+export interface TunnelStatus {
+  tabId: string;
+  definition: TunnelDefinition;
+  state: TunnelState;
+  activeConnections: number;
+  totalConnections: number;
+  // Bytes received from the remote side / sent to it.
+  bytesIn: number;
+  bytesOut: number;
+  // Dynamic tunnels only: "host:port" of currently open upstream connections.
+  activeTargets?: string[];
+  message?: string;
+}